@@ -1,4 +1,5 @@
-import mysql from 'mysql2/promise';
+import mysql, { PoolConnection } from 'mysql2/promise';
+import { RowDataPacket } from 'mysql2';
 
 // Database connection configuration
 const dbConfig = {
@@ -27,6 +28,66 @@ export const testConnection = async () => {
   }
 };
 
+// Add a column to an existing table if it is missing (tables created before the column existed).
+// Returns true if the column was added.
+const addColumnIfMissing = async (
+  connection: PoolConnection,
+  table: string,
+  column: string,
+  definition: string
+): Promise<boolean> => {
+  const [columns] = await connection.query(
+    `SELECT COLUMN_NAME FROM information_schema.COLUMNS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = ?`,
+    [table, column]
+  ) as [RowDataPacket[], any];
+  
+  if (columns.length === 0) {
+    await connection.query(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    return true;
+  }
+  
+  return false;
+};
+
+// Recreate a unique key if its columns differ from the expected definition
+const ensureUniqueKey = async (
+  connection: PoolConnection,
+  table: string,
+  keyName: string,
+  columns: string[]
+) => {
+  const [keyColumns] = await connection.query(
+    `SELECT COLUMN_NAME FROM information_schema.STATISTICS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND INDEX_NAME = ?
+     ORDER BY SEQ_IN_INDEX`,
+    [table, keyName]
+  ) as [RowDataPacket[], any];
+  
+  if (keyColumns.map(column => column.COLUMN_NAME).join(',') !== columns.join(',')) {
+    const dropExisting = keyColumns.length > 0 ? `DROP INDEX ${keyName},` : '';
+    await connection.query(`ALTER TABLE ${table} ${dropExisting} ADD UNIQUE KEY ${keyName} (${columns.join(', ')})`);
+  }
+};
+
+// Add a (non-unique) index to an existing table if it is missing
+const addIndexIfMissing = async (
+  connection: PoolConnection,
+  table: string,
+  indexName: string,
+  columns: string[]
+) => {
+  const [indexes] = await connection.query(
+    `SELECT INDEX_NAME FROM information_schema.STATISTICS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND INDEX_NAME = ?`,
+    [table, indexName]
+  ) as [RowDataPacket[], any];
+  
+  if (indexes.length === 0) {
+    await connection.query(`ALTER TABLE ${table} ADD INDEX ${indexName} (${columns.join(', ')})`);
+  }
+};
+
 // Initialize database tables
 export const initDatabase = async () => {
   try {
@@ -40,9 +101,13 @@ export const initDatabase = async () => {
         password_hash VARCHAR(255) NOT NULL,
         email VARCHAR(255) NOT NULL UNIQUE,
         storage_quota BIGINT DEFAULT 1073741824,
+        storage_used BIGINT NOT NULL DEFAULT 0,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       )
     `);
+    const storageUsedAdded = await addColumnIfMissing(
+      connection, 'users', 'storage_used', 'BIGINT NOT NULL DEFAULT 0 AFTER storage_quota'
+    );
     
     // Create folders table
     await connection.query(`
@@ -51,14 +116,29 @@ export const initDatabase = async () => {
         user_id INT NOT NULL,
         parent_folder_id INT NULL,
         name VARCHAR(255) NOT NULL,
+        deleted_at DATETIME NULL,
+        trashed_with_folder_id INT NULL,
+        is_active TINYINT GENERATED ALWAYS AS (IF(deleted_at IS NULL, 1, NULL)) VIRTUAL,
+        metadata_schema JSON NULL,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
         FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE,
         FOREIGN KEY (parent_folder_id) REFERENCES folders(folder_id) ON DELETE CASCADE,
-        UNIQUE KEY unique_folder (user_id, parent_folder_id, name)
+        UNIQUE KEY unique_folder (user_id, parent_folder_id, name, is_active)
       )
     `);
     
+    // Trash columns: items in the trash keep their name without blocking new items with the same name
+    await addColumnIfMissing(connection, 'folders', 'deleted_at', 'DATETIME NULL AFTER name');
+    await addColumnIfMissing(connection, 'folders', 'trashed_with_folder_id', 'INT NULL AFTER deleted_at');
+    await addColumnIfMissing(
+      connection, 'folders', 'is_active',
+      'TINYINT GENERATED ALWAYS AS (IF(deleted_at IS NULL, 1, NULL)) VIRTUAL AFTER trashed_with_folder_id'
+    );
+    await ensureUniqueKey(connection, 'folders', 'unique_folder', ['user_id', 'parent_folder_id', 'name', 'is_active']);
+    // Custom metadata fields that files in the folder must fit
+    await addColumnIfMissing(connection, 'folders', 'metadata_schema', 'JSON NULL AFTER is_active');
+    
     // Create files table
     await connection.query(`
       CREATE TABLE IF NOT EXISTS files (
@@ -67,16 +147,320 @@ export const initDatabase = async () => {
         folder_id INT,
         name VARCHAR(255) NOT NULL,
         file_path VARCHAR(512) NOT NULL,
+        checksum CHAR(64) NULL,
         mime_type VARCHAR(127),
         size BIGINT NOT NULL,
+        version INT NOT NULL DEFAULT 1,
+        deleted_at DATETIME NULL,
+        trashed_with_folder_id INT NULL,
+        is_active TINYINT GENERATED ALWAYS AS (IF(deleted_at IS NULL, 1, NULL)) VIRTUAL,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
         FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE,
         FOREIGN KEY (folder_id) REFERENCES folders(folder_id) ON DELETE CASCADE,
-        UNIQUE KEY unique_file (folder_id, name, user_id)
+        UNIQUE KEY unique_file (folder_id, name, user_id, is_active)
+      )
+    `);
+    await addColumnIfMissing(connection, 'files', 'version', 'INT NOT NULL DEFAULT 1 AFTER size');
+    // Files stored before content addressing keep a NULL checksum and their own blob
+    await addColumnIfMissing(connection, 'files', 'checksum', 'CHAR(64) NULL AFTER file_path');
+    await addIndexIfMissing(connection, 'files', 'idx_files_checksum', ['checksum']);
+    await addColumnIfMissing(connection, 'files', 'deleted_at', 'DATETIME NULL AFTER version');
+    await addColumnIfMissing(connection, 'files', 'trashed_with_folder_id', 'INT NULL AFTER deleted_at');
+    await addColumnIfMissing(
+      connection, 'files', 'is_active',
+      'TINYINT GENERATED ALWAYS AS (IF(deleted_at IS NULL, 1, NULL)) VIRTUAL AFTER trashed_with_folder_id'
+    );
+    await ensureUniqueKey(connection, 'files', 'unique_file', ['folder_id', 'name', 'user_id', 'is_active']);
+    
+    // Create file versions table (previous blobs of a file)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS file_versions (
+        version_id INT AUTO_INCREMENT PRIMARY KEY,
+        file_id INT NOT NULL,
+        version_number INT NOT NULL,
+        file_path VARCHAR(512) NOT NULL,
+        checksum CHAR(64) NULL,
+        mime_type VARCHAR(127),
+        size BIGINT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (file_id) REFERENCES files(file_id) ON DELETE CASCADE,
+        UNIQUE KEY unique_file_version (file_id, version_number)
+      )
+    `);
+    await addColumnIfMissing(connection, 'file_versions', 'checksum', 'CHAR(64) NULL AFTER file_path');
+    
+    // Create file contents table (text extracted from files for full-text search)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS file_contents (
+        file_id INT PRIMARY KEY,
+        file_version INT NOT NULL,
+        content MEDIUMTEXT NOT NULL,
+        indexed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        FOREIGN KEY (file_id) REFERENCES files(file_id) ON DELETE CASCADE,
+        FULLTEXT KEY ft_file_contents (content)
       )
     `);
     
+    // Create blobs table (content-addressed file contents shared by files and versions)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS blobs (
+        hash CHAR(64) PRIMARY KEY,
+        size BIGINT NOT NULL,
+        ref_count INT NOT NULL DEFAULT 0,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    
+    // Create upload sessions table (resumable chunked uploads)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS upload_sessions (
+        session_id CHAR(36) PRIMARY KEY,
+        user_id INT NOT NULL,
+        folder_id INT NULL,
+        name VARCHAR(255) NOT NULL,
+        mime_type VARCHAR(127),
+        size BIGINT NOT NULL,
+        chunk_size INT NOT NULL,
+        chunk_count INT NOT NULL,
+        metadata JSON NULL,
+        expires_at DATETIME NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE
+      )
+    `);
+    
+    await addColumnIfMissing(connection, 'upload_sessions', 'metadata', 'JSON NULL AFTER chunk_count');
+    
+    // Create upload session chunks table (chunks received so far)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS upload_session_chunks (
+        session_id CHAR(36) NOT NULL,
+        chunk_index INT NOT NULL,
+        size INT NOT NULL,
+        checksum CHAR(64) NOT NULL,
+        received_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (session_id, chunk_index),
+        FOREIGN KEY (session_id) REFERENCES upload_sessions(session_id) ON DELETE CASCADE
+      )
+    `);
+    
+    // Storage usage is tracked incrementally; existing users start from the sizes already stored
+    if (storageUsedAdded) {
+      await connection.query(`
+        UPDATE users u SET storage_used =
+          (SELECT COALESCE(SUM(f.size), 0) FROM files f WHERE f.user_id = u.user_id) +
+          (SELECT COALESCE(SUM(v.size), 0) FROM file_versions v
+           JOIN files f ON f.file_id = v.file_id WHERE f.user_id = u.user_id)
+      `);
+    }
+    
+    // Create refresh tokens table
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS refresh_tokens (
+        token_id INT AUTO_INCREMENT PRIMARY KEY,
+        user_id INT NOT NULL,
+        token_hash CHAR(64) NOT NULL UNIQUE,
+        expires_at DATETIME NOT NULL,
+        revoked_at DATETIME NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create API tokens table
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS api_tokens (
+        token_id INT AUTO_INCREMENT PRIMARY KEY,
+        user_id INT NOT NULL,
+        name VARCHAR(255) NOT NULL,
+        token_prefix VARCHAR(32) NOT NULL,
+        token_hash CHAR(64) NOT NULL UNIQUE,
+        scopes VARCHAR(512) NOT NULL,
+        expires_at DATETIME NULL,
+        last_used_at DATETIME NULL,
+        revoked_at DATETIME NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create user groups table
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS user_groups (
+        group_id INT AUTO_INCREMENT PRIMARY KEY,
+        owner_id INT NOT NULL,
+        name VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (owner_id) REFERENCES users(user_id) ON DELETE CASCADE,
+        UNIQUE KEY unique_group (owner_id, name)
+      )
+    `);
+
+    // Create user group members table
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS user_group_members (
+        group_id INT NOT NULL,
+        user_id INT NOT NULL,
+        added_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (group_id, user_id),
+        FOREIGN KEY (group_id) REFERENCES user_groups(group_id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create folder shares table (grantee is either a user or a group)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS folder_shares (
+        share_id INT AUTO_INCREMENT PRIMARY KEY,
+        folder_id INT NOT NULL,
+        grantee_user_id INT NULL,
+        grantee_group_id INT NULL,
+        role ENUM('viewer', 'editor', 'owner') NOT NULL DEFAULT 'viewer',
+        created_by INT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (folder_id) REFERENCES folders(folder_id) ON DELETE CASCADE,
+        FOREIGN KEY (grantee_user_id) REFERENCES users(user_id) ON DELETE CASCADE,
+        FOREIGN KEY (grantee_group_id) REFERENCES user_groups(group_id) ON DELETE CASCADE,
+        FOREIGN KEY (created_by) REFERENCES users(user_id) ON DELETE CASCADE,
+        UNIQUE KEY unique_user_share (folder_id, grantee_user_id),
+        UNIQUE KEY unique_group_share (folder_id, grantee_group_id)
+      )
+    `);
+
+    // Create public share links table (a link targets either a file or a folder)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS share_links (
+        link_id INT AUTO_INCREMENT PRIMARY KEY,
+        user_id INT NOT NULL,
+        file_id INT NULL,
+        folder_id INT NULL,
+        token_hash CHAR(64) NOT NULL UNIQUE,
+        token_prefix VARCHAR(16) NOT NULL,
+        password_hash VARCHAR(255) NULL,
+        expires_at DATETIME NULL,
+        max_downloads INT NULL,
+        download_count INT NOT NULL DEFAULT 0,
+        revoked_at DATETIME NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE,
+        FOREIGN KEY (file_id) REFERENCES files(file_id) ON DELETE CASCADE,
+        FOREIGN KEY (folder_id) REFERENCES folders(folder_id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create tags table (labels each user keeps for their own use)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS tags (
+        tag_id INT AUTO_INCREMENT PRIMARY KEY,
+        user_id INT NOT NULL,
+        name VARCHAR(64) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE,
+        UNIQUE KEY unique_tag (user_id, name)
+      )
+    `);
+
+    // Create file and folder tag links
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS file_tags (
+        tag_id INT NOT NULL,
+        file_id INT NOT NULL,
+        tagged_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (tag_id, file_id),
+        FOREIGN KEY (tag_id) REFERENCES tags(tag_id) ON DELETE CASCADE,
+        FOREIGN KEY (file_id) REFERENCES files(file_id) ON DELETE CASCADE,
+        INDEX idx_file_tags_file (file_id)
+      )
+    `);
+
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS folder_tags (
+        tag_id INT NOT NULL,
+        folder_id INT NOT NULL,
+        tagged_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (tag_id, folder_id),
+        FOREIGN KEY (tag_id) REFERENCES tags(tag_id) ON DELETE CASCADE,
+        FOREIGN KEY (folder_id) REFERENCES folders(folder_id) ON DELETE CASCADE,
+        INDEX idx_folder_tags_folder (folder_id)
+      )
+    `);
+
+    // Create custom file metadata table (one typed value per file and field)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS file_metadata (
+        file_id INT NOT NULL,
+        name VARCHAR(64) NOT NULL,
+        type ENUM('string', 'number', 'date', 'enum') NOT NULL,
+        value_string VARCHAR(1024) NULL,
+        value_number DOUBLE NULL,
+        value_date DATE NULL,
+        PRIMARY KEY (file_id, name),
+        FOREIGN KEY (file_id) REFERENCES files(file_id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create audit log table. Events are only ever inserted, and keep no foreign keys so they
+    // outlive the users, files and folders they describe.
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS audit_events (
+        event_id BIGINT AUTO_INCREMENT PRIMARY KEY,
+        actor_user_id INT NULL,
+        owner_user_id INT NOT NULL,
+        action VARCHAR(64) NOT NULL,
+        file_id INT NULL,
+        folder_id INT NULL,
+        old_value JSON NULL,
+        new_value JSON NULL,
+        ip_address VARCHAR(45) NULL,
+        user_agent VARCHAR(512) NULL,
+        created_at DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+        INDEX idx_audit_owner (owner_user_id, created_at),
+        INDEX idx_audit_actor (actor_user_id, created_at),
+        INDEX idx_audit_file (file_id),
+        INDEX idx_audit_folder (folder_id)
+      )
+    `);
+
+    // Create webhook subscriptions table (folder_id limits a subscription to a folder subtree)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS webhooks (
+        webhook_id INT AUTO_INCREMENT PRIMARY KEY,
+        user_id INT NOT NULL,
+        folder_id INT NULL,
+        url VARCHAR(2048) NOT NULL,
+        secret VARCHAR(128) NOT NULL,
+        event_types VARCHAR(1024) NOT NULL,
+        active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE,
+        FOREIGN KEY (folder_id) REFERENCES folders(folder_id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create webhook deliveries table, which is both the delivery queue and the delivery log
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        delivery_id BIGINT AUTO_INCREMENT PRIMARY KEY,
+        webhook_id INT NOT NULL,
+        event_id CHAR(36) NOT NULL,
+        event_type VARCHAR(64) NOT NULL,
+        payload MEDIUMTEXT NOT NULL,
+        status ENUM('pending', 'succeeded', 'failed') NOT NULL DEFAULT 'pending',
+        attempts INT NOT NULL DEFAULT 0,
+        next_attempt_at DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+        last_attempt_at DATETIME(3) NULL,
+        response_status INT NULL,
+        last_error VARCHAR(1024) NULL,
+        created_at DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+        delivered_at DATETIME(3) NULL,
+        FOREIGN KEY (webhook_id) REFERENCES webhooks(webhook_id) ON DELETE CASCADE,
+        INDEX idx_webhook_deliveries_due (status, next_attempt_at),
+        INDEX idx_webhook_deliveries_webhook (webhook_id, created_at)
+      )
+    `);
+
     // Create a default user if not exists
     await connection.query(`
       INSERT IGNORE INTO users (username, password_hash, email)
@@ -0,0 +1,37 @@
+import { join } from 'path';
+import { createLocalStorageBackend } from '../services/localStorageBackend';
+import { createS3StorageBackend } from '../services/s3StorageBackend';
+import { StorageBackend, StorageDriver, STORAGE_DRIVERS } from '../types/storageTypes';
+
+// Storage configuration
+const storageDriver = (process.env.STORAGE_BACKEND || 'local') as StorageDriver;
+
+if (!STORAGE_DRIVERS.includes(storageDriver)) {
+  throw new Error(`Unknown STORAGE_BACKEND "${storageDriver}", expected one of: ${STORAGE_DRIVERS.join(', ')}`);
+}
+
+// Create the storage backend. Every API node must use the same backend; only
+// the s3 driver can be shared by nodes on different machines.
+const storage: StorageBackend = storageDriver === 's3'
+  ? createS3StorageBackend({
+    bucket: process.env.S3_BUCKET || 'cmed-files',
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    region: process.env.S3_REGION || undefined,
+    accessKeyId: process.env.S3_ACCESS_KEY_ID || undefined,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || undefined,
+    keyPrefix: process.env.S3_KEY_PREFIX || undefined
+  })
+  : createLocalStorageBackend(process.env.UPLOAD_DIR || join(process.cwd(), 'uploads'));
+
+// Initialize file storage
+export const initializeStorage = async () => {
+  try {
+    await storage.initialize();
+    return true;
+  } catch (error) {
+    console.error(`Error initializing ${storage.driver} storage:`, error);
+    return false;
+  }
+};
+
+export default storage;
@@ -0,0 +1,27 @@
+// src/controllers/accountController.ts
+import pool from '../config/database';
+import { getStorageUsage } from '../services/storageQuota';
+
+export const accountController = {
+  // Get the user's storage usage and quota (a null quota means unlimited)
+  getUsage: async (userId: number) => {
+    const connection = await pool.getConnection();
+
+    try {
+      const usage = await getStorageUsage(connection, userId);
+
+      if (!usage) {
+        return { success: false, error: 'User not found' };
+      }
+
+      return { success: true, usage };
+    } catch (error) {
+      console.error('Error getting storage usage:', error);
+      return { success: false, error: 'Failed to get storage usage' };
+    } finally {
+      connection.release();
+    }
+  }
+};
+
+export default accountController;
@@ -0,0 +1,196 @@
+// src/controllers/apiTokenController.ts
+import pool from '../config/database';
+import { OkPacket, RowDataPacket } from 'mysql2';
+import { generateToken, hashToken } from '../services/tokenService';
+import { recordAuditEvent } from '../services/auditLog';
+import { AuditClient } from '../types/auditTypes';
+import { API_TOKEN_PREFIX, API_TOKEN_SCOPES, ApiToken, ApiTokenScope } from '../types/authTypes';
+
+// Define types for MySQL results
+type QueryResult = [RowDataPacket[] | RowDataPacket[][] | OkPacket | OkPacket[], any];
+
+// Number of leading characters kept in clear text so users can tell tokens apart
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+// Map an api_tokens row to the public token shape
+const formatToken = (token: RowDataPacket): ApiToken => ({
+  id: token.token_id,
+  name: token.name,
+  token_prefix: token.token_prefix,
+  scopes: token.scopes ? token.scopes.split(',') : [],
+  expires_at: token.expires_at,
+  last_used_at: token.last_used_at,
+  created_at: token.created_at
+});
+
+export const apiTokenController = {
+  // Create a named API token
+  createToken: async (
+    userId: number,
+    name: string,
+    scopes: string[],
+    expiresAt: Date | null,
+    client?: AuditClient
+  ) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Validate scopes
+      const invalidScopes = scopes.filter(scope => !API_TOKEN_SCOPES.includes(scope as ApiTokenScope));
+      if (scopes.length === 0 || invalidScopes.length > 0) {
+        return {
+          success: false,
+          error: `Invalid scopes. Allowed scopes: ${API_TOKEN_SCOPES.join(', ')}.`
+        };
+      }
+
+      if (expiresAt && expiresAt.getTime() <= Date.now()) {
+        return { success: false, error: 'Expiry date must be in the future' };
+      }
+
+      const token = `${API_TOKEN_PREFIX}${generateToken()}`;
+      const uniqueScopes = [...new Set(scopes)];
+
+      // Start transaction
+      await connection.beginTransaction();
+
+      // Insert token record; only the hash is stored
+      const [result] = await connection.query(
+        `INSERT INTO api_tokens (user_id, name, token_prefix, token_hash, scopes, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [userId, name, token.substring(0, DISPLAY_PREFIX_LENGTH), hashToken(token), uniqueScopes.join(','), expiresAt]
+      ) as QueryResult;
+
+      const tokenId = (result as OkPacket).insertId;
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: userId,
+        action: 'api_token.create',
+        newValue: { token_id: tokenId, name, scopes: uniqueScopes, expires_at: expiresAt }
+      }, client);
+
+      // Commit transaction
+      await connection.commit();
+
+      const [tokens] = await connection.query(
+        `SELECT * FROM api_tokens WHERE token_id = ?`,
+        [tokenId]
+      ) as [RowDataPacket[], any];
+
+      return {
+        success: true,
+        token: formatToken(tokens[0]),
+        // Plain-text token is only returned here and cannot be retrieved later
+        secret: token
+      };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error creating API token:', error);
+      return { success: false, error: 'Failed to create API token' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // List a user's active API tokens
+  listTokens: async (userId: number) => {
+    const connection = await pool.getConnection();
+
+    try {
+      const [tokens] = await connection.query(
+        `SELECT * FROM api_tokens
+         WHERE user_id = ? AND revoked_at IS NULL
+         ORDER BY created_at DESC`,
+        [userId]
+      ) as [RowDataPacket[], any];
+
+      return { success: true, tokens: tokens.map(formatToken) };
+    } catch (error) {
+      console.error('Error listing API tokens:', error);
+      return { success: false, error: 'Failed to list API tokens' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Revoke an API token
+  revokeToken: async (userId: number, tokenId: number, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Start transaction
+      await connection.beginTransaction();
+
+      const [result] = await connection.query(
+        `UPDATE api_tokens SET revoked_at = NOW()
+         WHERE token_id = ? AND user_id = ? AND revoked_at IS NULL`,
+        [tokenId, userId]
+      ) as QueryResult;
+
+      if ((result as OkPacket).affectedRows === 0) {
+        await connection.rollback();
+        return { success: false, error: 'API token not found' };
+      }
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: userId,
+        action: 'api_token.revoke',
+        oldValue: { token_id: tokenId }
+      }, client);
+
+      // Commit transaction
+      await connection.commit();
+
+      return { success: true };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error revoking API token:', error);
+      return { success: false, error: 'Failed to revoke API token' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Resolve the user and scopes for a presented API token
+  authenticateToken: async (token: string): Promise<{ userId: number; scopes: ApiTokenScope[] } | null> => {
+    const connection = await pool.getConnection();
+
+    try {
+      const [tokens] = await connection.query(
+        `SELECT * FROM api_tokens
+         WHERE token_hash = ? AND revoked_at IS NULL
+         AND (expires_at IS NULL OR expires_at > NOW())`,
+        [hashToken(token)]
+      ) as [RowDataPacket[], any];
+
+      if (tokens.length === 0) {
+        return null;
+      }
+
+      const apiToken = tokens[0];
+
+      // Record usage, at most once a minute to avoid a write on every request
+      await connection.query(
+        `UPDATE api_tokens SET last_used_at = NOW()
+         WHERE token_id = ? AND (last_used_at IS NULL OR last_used_at < NOW() - INTERVAL 1 MINUTE)`,
+        [apiToken.token_id]
+      );
+
+      return {
+        userId: apiToken.user_id,
+        scopes: formatToken(apiToken).scopes
+      };
+    } catch (error) {
+      console.error('Error authenticating API token:', error);
+      return null;
+    } finally {
+      connection.release();
+    }
+  }
+};
+
+export default apiTokenController;
@@ -0,0 +1,354 @@
+// src/controllers/archiveController.ts
+import pool from '../config/database';
+import { PoolConnection } from 'mysql2/promise';
+import { RowDataPacket } from 'mysql2';
+import { fileController } from './fileController';
+import { folderController } from './folderController';
+import { getFileAccess, getFolderAccess, getSubtreeFolders, hasRole } from '../services/folderAccess';
+import { recordAuditEvent } from '../services/auditLog';
+import {
+  Archive,
+  ARCHIVE_TOO_LARGE,
+  ArchiveEntry,
+  ExtractedEntry,
+  ExtractionResult,
+  extractZipEntries,
+  getArchiveLimitError,
+  toArchiveName
+} from '../services/zipArchive';
+import { UploadedFile } from '../types/fileTypes';
+import { AuditClient } from '../types/auditTypes';
+import { validateFileUpload } from '../utils/fileValidator';
+
+// Get a name that is not yet used at the top level of an archive: "report (2).pdf"
+const getUniqueName = (name: string, usedNames: Set<string>): string => {
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.substring(0, dot) : name;
+  const extension = dot > 0 ? name.substring(dot) : '';
+
+  let uniqueName = name;
+  for (let copy = 2; usedNames.has(uniqueName.toLowerCase()); copy++) {
+    uniqueName = `${base} (${copy})${extension}`;
+  }
+
+  usedNames.add(uniqueName.toLowerCase());
+  return uniqueName;
+};
+
+// Add a folder, its subfolders and their files to an archive under a path.
+// Returns the total size of the added files.
+const addFolderEntries = async (
+  connection: PoolConnection,
+  folderId: number,
+  path: string,
+  entries: ArchiveEntry[]
+): Promise<number> => {
+  const folders = await getSubtreeFolders(connection, folderId);
+
+  // Folders are added as entries of their own, so empty folders are kept
+  const folderPaths = new Map<number, string>();
+  for (const folder of folders) {
+    const folderPath = folder.folder_id === folderId
+      ? `${path}/`
+      : `${folderPaths.get(folder.parent_folder_id)}${toArchiveName(folder.name)}/`;
+
+    folderPaths.set(folder.folder_id, folderPath);
+    entries.push({ path: folderPath, filePath: null, modified: new Date(folder.updated_at) });
+  }
+
+  const [files] = await connection.query(
+    `SELECT folder_id, name, file_path, size, updated_at FROM files
+     WHERE folder_id IN (?) AND deleted_at IS NULL
+     ORDER BY folder_id, name`,
+    [[...folderPaths.keys()]]
+  ) as [RowDataPacket[], any];
+
+  let totalSize = 0;
+  for (const file of files) {
+    entries.push({
+      path: `${folderPaths.get(file.folder_id)}${toArchiveName(file.name)}`,
+      filePath: file.file_path,
+      modified: new Date(file.updated_at)
+    });
+    totalSize += Number(file.size);
+  }
+
+  return totalSize;
+};
+
+// Get the ID of an active folder by name
+const findFolderId = async (
+  ownerId: number,
+  parentFolderId: number | null,
+  name: string
+): Promise<number | null> => {
+  const connection = await pool.getConnection();
+
+  try {
+    const [folders] = await connection.query(
+      `SELECT folder_id FROM folders
+       WHERE user_id = ? AND parent_folder_id <=> ? AND name = ? AND deleted_at IS NULL`,
+      [ownerId, parentFolderId, name]
+    ) as [RowDataPacket[], any];
+
+    return folders.length > 0 ? folders[0].folder_id : null;
+  } finally {
+    connection.release();
+  }
+};
+
+export const archiveController = {
+  // Get the entries of a ZIP archive of a folder, its subfolders and their files
+  getFolderArchive: async (userId: number, folderId: number, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Check the caller can view the folder
+      const access = await getFolderAccess(connection, userId, folderId);
+
+      if (!access || !hasRole(access.role, 'viewer')) {
+        return { success: false, error: 'Folder not found' };
+      }
+
+      const name = toArchiveName(access.folder.name);
+      const entries: ArchiveEntry[] = [];
+      const totalSize = await addFolderEntries(connection, folderId, name, entries);
+
+      const limitError = getArchiveLimitError(entries, totalSize);
+
+      if (limitError) {
+        return { success: false, error: limitError, code: ARCHIVE_TOO_LARGE };
+      }
+
+      const archive: Archive = { name: `${name}.zip`, entries };
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: access.folder.user_id,
+        action: 'folder.download',
+        folderId,
+        newValue: { name: access.folder.name, archive: archive.name }
+      }, client);
+
+      return { success: true, archive };
+    } catch (error) {
+      console.error('Error preparing folder archive:', error);
+      return { success: false, error: 'Failed to prepare archive' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Get the entries of a ZIP archive of selected files and folders.
+  // Each item is put at the top level of the archive, with folders keeping their hierarchy.
+  getSelectionArchive: async (
+    userId: number,
+    selection: { fileIds: number[]; folderIds: number[] },
+    client?: AuditClient
+  ) => {
+    const connection = await pool.getConnection();
+
+    try {
+      const entries: ArchiveEntry[] = [];
+      const usedNames = new Set<string>();
+      let totalSize = 0;
+
+      // Each selected item is recorded as downloaded once the archive is ready
+      const downloads: { ownerId: number; fileId: number | null; folderId: number | null; name: string }[] = [];
+
+      // Add the selected folders; the caller must be able to view each of them
+      for (const folderId of new Set(selection.folderIds)) {
+        const access = await getFolderAccess(connection, userId, folderId);
+
+        if (!access || !hasRole(access.role, 'viewer')) {
+          return { success: false, error: `Folder ${folderId} not found` };
+        }
+
+        const name = getUniqueName(toArchiveName(access.folder.name), usedNames);
+        totalSize += await addFolderEntries(connection, folderId, name, entries);
+        downloads.push({ ownerId: access.folder.user_id, fileId: null, folderId, name: access.folder.name });
+      }
+
+      // Add the selected files
+      for (const fileId of new Set(selection.fileIds)) {
+        const access = await getFileAccess(connection, userId, fileId);
+
+        if (!access || !hasRole(access.role, 'viewer')) {
+          return { success: false, error: `File ${fileId} not found` };
+        }
+
+        const file = access.file;
+        entries.push({
+          path: getUniqueName(toArchiveName(file.name), usedNames),
+          filePath: file.file_path,
+          modified: new Date(file.updated_at)
+        });
+        totalSize += Number(file.size);
+        downloads.push({ ownerId: file.user_id, fileId, folderId: file.folder_id, name: file.name });
+      }
+
+      const limitError = getArchiveLimitError(entries, totalSize);
+
+      if (limitError) {
+        return { success: false, error: limitError, code: ARCHIVE_TOO_LARGE };
+      }
+
+      const archive: Archive = { name: 'download.zip', entries };
+
+      for (const download of downloads) {
+        await recordAuditEvent(connection, {
+          actorId: userId,
+          ownerId: download.ownerId,
+          action: download.fileId ? 'file.download' : 'folder.download',
+          fileId: download.fileId,
+          folderId: download.folderId,
+          newValue: { name: download.name, archive: archive.name }
+        }, client);
+      }
+
+      return { success: true, archive };
+    } catch (error) {
+      console.error('Error preparing archive:', error);
+      return { success: false, error: 'Failed to prepare archive' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Extract an uploaded ZIP archive into a folder, recreating its folder tree.
+  // Every entry is stored like a regular upload; entries that fail don't stop the others.
+  extractArchive: async (userId: number, archive: UploadedFile, folderId: number | null, client?: AuditClient) => {
+    // Check the upload really is a ZIP archive
+    const archiveData = new Uint8Array(await archive.arrayBuffer());
+    const validation = validateFileUpload(archive, archiveData);
+
+    if (!validation.isValid) {
+      return { success: false, error: validation.error };
+    }
+
+    if (validation.mimeType !== 'application/zip') {
+      return { success: false, error: 'Only ZIP archives can be extracted' };
+    }
+
+    // Extracted items belong to the owner of the folder tree, which may have been shared with the caller
+    let ownerId = userId;
+
+    if (folderId) {
+      const connection = await pool.getConnection();
+
+      try {
+        const access = await getFolderAccess(connection, userId, folderId);
+
+        if (!access || !access.role) {
+          return { success: false, error: 'Folder not found' };
+        }
+
+        if (!hasRole(access.role, 'editor')) {
+          return { success: false, error: 'You do not have permission to upload to this folder' };
+        }
+
+        ownerId = access.folder.user_id;
+      } catch (error) {
+        console.error('Error extracting archive:', error);
+        return { success: false, error: 'Failed to extract archive' };
+      } finally {
+        connection.release();
+      }
+    }
+
+    // No connection is held while entries are stored: folders and files are created through
+    // the regular controller methods, which take their own
+    try {
+      const results: ExtractionResult[] = [];
+
+      // Folders of the archive by path, created (or found) as entries need them
+      const folderIds = new Map<string, number>();
+      const failedFolders = new Map<string, string>();
+
+      // Get the folder for a path in the archive, creating any missing folders on the way
+      const ensureFolder = async (segments: string[]): Promise<{ id: number | null; error?: string }> => {
+        let parentId = folderId;
+
+        for (let depth = 1; depth <= segments.length; depth++) {
+          const path = segments.slice(0, depth).join('/');
+          const name = segments[depth - 1];
+
+          if (failedFolders.has(path)) {
+            return { id: null, error: failedFolders.get(path) };
+          }
+
+          let id = folderIds.get(path) ?? await findFolderId(ownerId, parentId, name);
+
+          if (!id) {
+            const created = await folderController.createFolder(userId, name, parentId, client);
+
+            if (!created.success || !created.folder) {
+              const error = created.error || 'Failed to create folder';
+              failedFolders.set(path, error);
+              results.push({ path: `${path}/`, type: 'folder', success: false, error });
+              return { id: null, error };
+            }
+
+            id = created.folder.id as number;
+            results.push({ path: `${path}/`, type: 'folder', success: true, id });
+          }
+
+          folderIds.set(path, id);
+          parentId = id;
+        }
+
+        return { id: parentId };
+      };
+
+      // Store each entry as it is extracted
+      const storeEntry = async (entry: ExtractedEntry): Promise<void> => {
+        if (entry.error) {
+          results.push({ path: entry.path, type: entry.type, success: false, error: entry.error });
+          return;
+        }
+
+        // Folders that already existed are reported too; new ones were reported when created
+        if (entry.type === 'folder') {
+          const folder = await ensureFolder(entry.segments);
+          const path = `${entry.segments.join('/')}/`;
+
+          if (folder.id && !results.some(result => result.type === 'folder' && result.path === path)) {
+            results.push({ path, type: 'folder', success: true, id: folder.id });
+          }
+          return;
+        }
+
+        const folder = await ensureFolder(entry.segments.slice(0, -1));
+
+        if (folder.error) {
+          results.push({ path: entry.path, type: 'file', success: false, error: folder.error });
+          return;
+        }
+
+        // Uploaded like any other file: validated against its content and counted against the quota
+        const file = new File(entry.content || [], entry.segments[entry.segments.length - 1]);
+        const uploaded = await fileController.uploadFile(userId, file, folder.id, undefined, client);
+
+        results.push(uploaded.success
+          ? { path: entry.path, type: 'file', success: true, id: uploaded.file?.id }
+          : { path: entry.path, type: 'file', success: false, error: uploaded.error });
+      };
+
+      const extraction = await extractZipEntries(archiveData, storeEntry);
+      const failed = results.filter(result => !result.success).length;
+
+      return {
+        success: !extraction.error,
+        error: extraction.error,
+        code: extraction.code,
+        folder_id: folderId,
+        extracted: results.length - failed,
+        failed,
+        entries: results
+      };
+    } catch (error) {
+      console.error('Error extracting archive:', error);
+      return { success: false, error: 'Failed to extract archive' };
+    }
+  }
+};
@@ -0,0 +1,183 @@
+// src/controllers/auditController.ts
+import pool from '../config/database';
+import { RowDataPacket } from 'mysql2';
+import { AuditEvent, AuditEventFilters } from '../types/auditTypes';
+
+// Most events a single CSV export can contain
+const MAX_EXPORT_EVENTS = 50000;
+
+// Columns of the CSV export
+const CSV_COLUMNS: (keyof AuditEvent)[] = [
+  'id',
+  'created_at',
+  'action',
+  'actor_id',
+  'actor_username',
+  'owner_id',
+  'file_id',
+  'folder_id',
+  'old_value',
+  'new_value',
+  'ip_address',
+  'user_agent'
+];
+
+// JSON columns are returned parsed by MySQL but as text by MariaDB
+const parseJsonColumn = (value: unknown): Record<string, unknown> | null => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  return typeof value === 'string' ? JSON.parse(value) : value as Record<string, unknown>;
+};
+
+// Map an audit_events row to the public event shape
+const formatEvent = (event: RowDataPacket): AuditEvent => ({
+  id: Number(event.event_id),
+  action: event.action,
+  actor_id: event.actor_user_id,
+  actor_username: event.actor_username,
+  owner_id: event.owner_user_id,
+  file_id: event.file_id,
+  folder_id: event.folder_id,
+  old_value: parseJsonColumn(event.old_value),
+  new_value: parseJsonColumn(event.new_value),
+  ip_address: event.ip_address,
+  user_agent: event.user_agent,
+  created_at: event.created_at
+});
+
+// Build the WHERE clause of an audit log query. Users see the events of their own folder
+// trees and the events they caused in trees shared with them.
+const buildEventQuery = (userId: number, filters: AuditEventFilters): { where: string; params: any[] } => {
+  const conditions = ['(e.owner_user_id = ? OR e.actor_user_id = ?)'];
+  const params: any[] = [userId, userId];
+
+  if (filters.actions.length > 0) {
+    conditions.push('e.action IN (?)');
+    params.push(filters.actions);
+  }
+
+  if (filters.actorId !== null) {
+    conditions.push('e.actor_user_id = ?');
+    params.push(filters.actorId);
+  }
+
+  if (filters.fileId !== null) {
+    conditions.push('e.file_id = ?');
+    params.push(filters.fileId);
+  }
+
+  if (filters.folderId !== null) {
+    conditions.push('e.folder_id = ?');
+    params.push(filters.folderId);
+  }
+
+  if (filters.from) {
+    conditions.push('e.created_at >= ?');
+    params.push(filters.from);
+  }
+
+  if (filters.to) {
+    conditions.push('e.created_at < ?');
+    params.push(filters.to);
+  }
+
+  return { where: conditions.join(' AND '), params };
+};
+
+// Quote a CSV cell. Cells that spreadsheets would run as formulas are prefixed with an apostrophe.
+const toCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = value instanceof Date ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value)
+    : String(value);
+
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const auditController = {
+  // List audit events, newest first
+  getEvents: async (userId: number, filters: AuditEventFilters, page: { limit: number; offset: number }) => {
+    const connection = await pool.getConnection();
+
+    try {
+      const { where, params } = buildEventQuery(userId, filters);
+
+      const [events] = await connection.query(
+        `SELECT e.*, u.username AS actor_username
+         FROM audit_events e
+         LEFT JOIN users u ON u.user_id = e.actor_user_id
+         WHERE ${where}
+         ORDER BY e.created_at DESC, e.event_id DESC
+         LIMIT ? OFFSET ?`,
+        [...params, page.limit, page.offset]
+      ) as [RowDataPacket[], any];
+
+      const [counts] = await connection.query(
+        `SELECT COUNT(*) AS total FROM audit_events e WHERE ${where}`,
+        params
+      ) as [RowDataPacket[], any];
+
+      return {
+        success: true,
+        events: events.map(formatEvent),
+        pagination: {
+          offset: page.offset,
+          limit: page.limit,
+          total: Number(counts[0].total)
+        }
+      };
+    } catch (error) {
+      console.error('Error getting audit events:', error);
+      return { success: false, error: 'Failed to get audit events' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Export audit events as CSV, newest first
+  exportEvents: async (userId: number, filters: AuditEventFilters) => {
+    const connection = await pool.getConnection();
+
+    try {
+      const { where, params } = buildEventQuery(userId, filters);
+
+      // One extra row shows whether the export would be cut short
+      const [events] = await connection.query(
+        `SELECT e.*, u.username AS actor_username
+         FROM audit_events e
+         LEFT JOIN users u ON u.user_id = e.actor_user_id
+         WHERE ${where}
+         ORDER BY e.created_at DESC, e.event_id DESC
+         LIMIT ?`,
+        [...params, MAX_EXPORT_EVENTS + 1]
+      ) as [RowDataPacket[], any];
+
+      if (events.length > MAX_EXPORT_EVENTS) {
+        return {
+          success: false,
+          error: `More than ${MAX_EXPORT_EVENTS} events match; narrow the filters to export them`
+        };
+      }
+
+      const lines = [CSV_COLUMNS.join(',')];
+      for (const event of events.map(formatEvent)) {
+        lines.push(CSV_COLUMNS.map(column => toCsvCell(event[column])).join(','));
+      }
+
+      return { success: true, csv: `${lines.join('\r\n')}\r\n` };
+    } catch (error) {
+      console.error('Error exporting audit events:', error);
+      return { success: false, error: 'Failed to export audit events' };
+    } finally {
+      connection.release();
+    }
+  }
+};
@@ -0,0 +1,247 @@
+// src/controllers/authController.ts
+import pool from '../config/database';
+import { PoolConnection } from 'mysql2/promise';
+import { OkPacket, RowDataPacket } from 'mysql2';
+import {
+  signAccessToken,
+  generateToken,
+  hashToken,
+  REFRESH_TOKEN_TTL_DAYS
+} from '../services/tokenService';
+import { recordAuditEvent } from '../services/auditLog';
+import { AuditClient } from '../types/auditTypes';
+
+// Define types for MySQL results
+type QueryResult = [RowDataPacket[] | RowDataPacket[][] | OkPacket | OkPacket[], any];
+
+// Minimum accepted password length
+const MIN_PASSWORD_LENGTH = 8;
+
+// Issue a new access token and refresh token pair for a user
+const issueTokens = async (connection: PoolConnection, userId: number, username: string) => {
+  const accessToken = await signAccessToken(userId, username);
+  const refreshToken = generateToken(48);
+
+  await connection.query(
+    `INSERT INTO refresh_tokens (user_id, token_hash, expires_at)
+     VALUES (?, ?, DATE_ADD(NOW(), INTERVAL ? DAY))`,
+    [userId, hashToken(refreshToken), REFRESH_TOKEN_TTL_DAYS]
+  );
+
+  return { accessToken, refreshToken, tokenType: 'Bearer' };
+};
+
+export const authController = {
+  // Register a new user
+  register: async (username: string, email: string, password: string, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+
+    try {
+      if (password.length < MIN_PASSWORD_LENGTH) {
+        return { success: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` };
+      }
+
+      // Start transaction
+      await connection.beginTransaction();
+
+      // Check if username or email is already taken
+      const [existingUsers] = await connection.query(
+        `SELECT user_id FROM users WHERE username = ? OR email = ?`,
+        [username, email]
+      ) as QueryResult;
+
+      if ((existingUsers as RowDataPacket[]).length > 0) {
+        await connection.rollback();
+        return { success: false, error: 'Username or email already in use' };
+      }
+
+      // Hash password with bcrypt
+      const passwordHash = await Bun.password.hash(password, { algorithm: 'bcrypt', cost: 10 });
+
+      // Create the user
+      const [result] = await connection.query(
+        `INSERT INTO users (username, password_hash, email)
+         VALUES (?, ?, ?)`,
+        [username, passwordHash, email]
+      ) as QueryResult;
+
+      const userId = (result as OkPacket).insertId;
+
+      // Create a root folder for the new user
+      await connection.query(
+        `INSERT INTO folders (user_id, parent_folder_id, name)
+         VALUES (?, NULL, 'Root')`,
+        [userId]
+      );
+
+      const tokens = await issueTokens(connection, userId, username);
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: userId,
+        action: 'user.register',
+        newValue: { username, email }
+      }, client);
+
+      // Commit transaction
+      await connection.commit();
+
+      return {
+        success: true,
+        user: { id: userId, username, email },
+        ...tokens
+      };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error registering user:', error);
+      return { success: false, error: 'Failed to register user' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Log in with username (or email) and password
+  login: async (username: string, password: string, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Get user record
+      const [users] = await connection.query(
+        `SELECT * FROM users WHERE username = ? OR email = ?`,
+        [username, username]
+      ) as [RowDataPacket[], any];
+
+      if (users.length === 0) {
+        return { success: false, error: 'Invalid username or password' };
+      }
+
+      const user = users[0];
+
+      // Check password against stored bcrypt hash
+      const passwordValid = await Bun.password.verify(password, user.password_hash).catch(() => false);
+      if (!passwordValid) {
+        return { success: false, error: 'Invalid username or password' };
+      }
+
+      // Start transaction
+      await connection.beginTransaction();
+
+      const tokens = await issueTokens(connection, user.user_id, user.username);
+
+      await recordAuditEvent(connection, {
+        actorId: user.user_id,
+        ownerId: user.user_id,
+        action: 'user.login'
+      }, client);
+
+      // Commit transaction
+      await connection.commit();
+
+      return {
+        success: true,
+        user: { id: user.user_id, username: user.username, email: user.email },
+        ...tokens
+      };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error logging in:', error);
+      return { success: false, error: 'Failed to log in' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Exchange a refresh token for a new token pair (the old refresh token is revoked)
+  refresh: async (refreshToken: string) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Start transaction
+      await connection.beginTransaction();
+
+      // Get active refresh token
+      const [tokens] = await connection.query(
+        `SELECT rt.token_id, u.user_id, u.username
+         FROM refresh_tokens rt
+         JOIN users u ON u.user_id = rt.user_id
+         WHERE rt.token_hash = ? AND rt.revoked_at IS NULL AND rt.expires_at > NOW()
+         FOR UPDATE`,
+        [hashToken(refreshToken)]
+      ) as [RowDataPacket[], any];
+
+      if (tokens.length === 0) {
+        await connection.rollback();
+        return { success: false, error: 'Invalid or expired refresh token' };
+      }
+
+      const token = tokens[0];
+
+      // Revoke the used refresh token
+      await connection.query(
+        `UPDATE refresh_tokens SET revoked_at = NOW() WHERE token_id = ?`,
+        [token.token_id]
+      );
+
+      const newTokens = await issueTokens(connection, token.user_id, token.username);
+
+      // Commit transaction
+      await connection.commit();
+
+      return { success: true, ...newTokens };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error refreshing token:', error);
+      return { success: false, error: 'Failed to refresh token' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Log out by revoking a refresh token
+  logout: async (refreshToken: string, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Start transaction
+      await connection.beginTransaction();
+
+      const [tokens] = await connection.query(
+        `SELECT token_id, user_id FROM refresh_tokens
+         WHERE token_hash = ? AND revoked_at IS NULL
+         FOR UPDATE`,
+        [hashToken(refreshToken)]
+      ) as [RowDataPacket[], any];
+
+      // Logging out with an unknown or revoked token still succeeds
+      if (tokens.length > 0) {
+        await connection.query(
+          `UPDATE refresh_tokens SET revoked_at = NOW() WHERE token_id = ?`,
+          [tokens[0].token_id]
+        );
+
+        await recordAuditEvent(connection, {
+          actorId: tokens[0].user_id,
+          ownerId: tokens[0].user_id,
+          action: 'user.logout'
+        }, client);
+      }
+
+      // Commit transaction
+      await connection.commit();
+
+      return { success: true };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error logging out:', error);
+      return { success: false, error: 'Failed to log out' };
+    } finally {
+      connection.release();
+    }
+  }
+};
+
+export default authController;
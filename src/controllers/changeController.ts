@@ -0,0 +1,120 @@
+// src/controllers/changeController.ts
+import pool from '../config/database';
+import { getFolderAccess, hasRole } from '../services/folderAccess';
+import { addChangeListener, countChangeListeners } from '../services/changeNotifications';
+import { ChangeEvent } from '../types/changeTypes';
+
+// Most folders a single stream can listen to
+const MAX_SUBSCRIBED_FOLDERS = 100;
+
+// Most streams a user can keep open on one server instance
+const MAX_STREAMS_PER_USER = 10;
+
+// Comment lines sent while nothing happens, so neither the server nor proxies close the stream
+const HEARTBEAT_INTERVAL_MS = 5000;
+
+// How long clients should wait before reconnecting a dropped stream
+const RECONNECT_DELAY_MS = 3000;
+
+// Most bytes queued for a client that isn't reading; a client that falls this far behind is dropped
+const MAX_QUEUED_BYTES = 1024 * 1024;
+
+// Format a change as a server-sent event
+const formatChangeEvent = (event: ChangeEvent): string => {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+};
+
+export const changeController = {
+  // Open a stream of server-sent events for changes to the user's tree or to some folders
+  openStream: async (userId: number, options: { tree: boolean; folderIds: number[] }) => {
+    const folderIds = [...new Set(options.folderIds)];
+
+    if (!options.tree && folderIds.length === 0) {
+      return { success: false, error: 'Subscribe to your tree or to at least one folder' };
+    }
+
+    if (folderIds.length > MAX_SUBSCRIBED_FOLDERS) {
+      return { success: false, error: `A stream can listen to at most ${MAX_SUBSCRIBED_FOLDERS} folders` };
+    }
+
+    if (countChangeListeners(userId) >= MAX_STREAMS_PER_USER) {
+      return {
+        success: false,
+        error: `At most ${MAX_STREAMS_PER_USER} change streams can be open at once`,
+        code: 'TOO_MANY_STREAMS'
+      };
+    }
+
+    const connection = await pool.getConnection();
+
+    try {
+      // Check the caller can view every folder
+      for (const folderId of folderIds) {
+        const access = await getFolderAccess(connection, userId, folderId);
+
+        if (!access || !hasRole(access.role, 'viewer')) {
+          return { success: false, error: 'Folder not found' };
+        }
+      }
+    } catch (error) {
+      console.error('Error opening change stream:', error);
+      return { success: false, error: 'Failed to open change stream' };
+    } finally {
+      connection.release();
+    }
+
+    const encoder = new TextEncoder();
+    let removeListener: (() => void) | null = null;
+    let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+    // Stop listening once the client is gone
+    const close = () => {
+      removeListener?.();
+      removeListener = null;
+
+      if (heartbeat) {
+        clearInterval(heartbeat);
+        heartbeat = null;
+      }
+    };
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const write = (text: string) => {
+          try {
+            // Drop the queued events instead of buffering them for a client that stopped reading
+            if (controller.desiredSize !== null && controller.desiredSize <= 0) {
+              controller.error(new Error('Change stream client is not reading'));
+              close();
+              return;
+            }
+
+            controller.enqueue(encoder.encode(text));
+          } catch {
+            close();
+          }
+        };
+
+        write(`retry: ${RECONNECT_DELAY_MS}\nevent: ready\ndata: ${JSON.stringify({
+          tree: options.tree,
+          folder_ids: folderIds
+        })}\n\n`);
+
+        removeListener = addChangeListener(
+          { userId, tree: options.tree, folderIds },
+          event => write(formatChangeEvent(event))
+        );
+
+        heartbeat = setInterval(() => write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+      },
+      cancel() {
+        close();
+      }
+    }, {
+      highWaterMark: MAX_QUEUED_BYTES,
+      size: chunk => chunk?.byteLength ?? 0
+    });
+
+    return { success: true, stream };
+  }
+};
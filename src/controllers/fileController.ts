@@ -1,55 +1,196 @@
 import pool from '../config/database';
 import { cacheMiddleware } from '../config/redis';
 import { 
-  saveFile, 
   getFile, 
-  deleteFile, 
   getFileMetadata
 } from '../services/fileStorage';
-import { UploadedFile, FileMetadata } from '../types/fileTypes';
+import { getFolderAccess, getFileAccess, hasRole } from '../services/folderAccess';
+import { saveFileRecord } from '../services/fileRecords';
+import {
+  addBlobReference,
+  BLOB_NOT_FOUND,
+  findOwnedBlob,
+  removeUnreferencedBlobs,
+  storeBlob,
+  StoredBlob
+} from '../services/blobStore';
+import { hasStorageFor, reserveStorage, QUOTA_EXCEEDED } from '../services/storageQuota';
+import { queueContentIndexing } from '../services/contentIndex';
+import { publishChange } from '../services/changeNotifications';
+import { getItemTags } from '../services/itemTags';
+import { recordAuditEvent } from '../services/auditLog';
+import {
+  copyCustomMetadata,
+  getCustomMetadata,
+  getMetadataSchema,
+  mergeCustomMetadata,
+  resolveUploadMetadata,
+  saveCustomMetadata,
+  validateCustomMetadata
+} from '../services/customMetadata';
+import { getOrCreateThumbnail, queueThumbnails, ThumbnailSize, THUMBNAIL_MIME_TYPE } from '../services/thumbnailService';
+import { UploadedFile, FileMetadata, DownloadableFile } from '../types/fileTypes';
+import { CustomMetadata } from '../types/metadataTypes';
+import { AuditClient } from '../types/auditTypes';
+import { getContentETag } from '../utils/fileResponse';
+import { FILE_SIGNATURE_LENGTH, validateFileUpload } from '../utils/fileValidator';
+import { PoolConnection } from 'mysql2/promise';
 import { OkPacket, RowDataPacket } from 'mysql2';
 
 // Define types for MySQL results
 type QueryResult = [RowDataPacket[] | RowDataPacket[][] | OkPacket | OkPacket[], any];
 
+// Check whether a folder already has an active file with a name
+const fileNameExists = async (
+  connection: PoolConnection,
+  ownerId: number,
+  folderId: number | null,
+  name: string
+): Promise<boolean> => {
+  const [existingFiles] = await connection.query(
+    `SELECT file_id FROM files
+     WHERE user_id = ? AND folder_id <=> ? AND name = ? AND deleted_at IS NULL`,
+    [ownerId, folderId, name]
+  ) as [RowDataPacket[], any];
+  
+  return existingFiles.length > 0;
+};
+
+// Check the caller can add files to a folder (null for the caller's Root folder)
+// and get the owner of the folder tree the files will belong to
+const getDestinationOwner = async (
+  connection: PoolConnection,
+  userId: number,
+  folderId: number | null
+): Promise<{ ownerId?: number; error?: string }> => {
+  if (!folderId) {
+    return { ownerId: userId };
+  }
+  
+  const access = await getFolderAccess(connection, userId, folderId);
+  
+  if (!access || !access.role) {
+    return { error: 'Destination folder not found' };
+  }
+  
+  if (!hasRole(access.role, 'editor')) {
+    return { error: 'You do not have permission to add files to the destination' };
+  }
+  
+  return { ownerId: access.folder.user_id };
+};
+
+// Clear the caches that list or describe a file
+const clearFileCaches = async (file: RowDataPacket): Promise<void> => {
+  await cacheMiddleware.delete(`file:${file.file_id}`);
+  if (file.folder_id) {
+    await cacheMiddleware.delete(`folder:${file.folder_id}:contents`);
+    await cacheMiddleware.delete(`folder:${file.folder_id}:files`);
+  }
+  await cacheMiddleware.delete(`user:${file.user_id}:folders`);
+};
+
+// Format a file record for API responses
+const formatFile = (file: RowDataPacket) => ({
+  id: file.file_id,
+  name: file.name,
+  folder_id: file.folder_id,
+  size: file.size,
+  mime_type: file.mime_type,
+  version: file.version,
+  checksum: file.checksum,
+  created_at: file.created_at,
+  updated_at: file.updated_at
+});
+
 export const fileController = {
-  // Upload a file
-  uploadFile: async (userId: number, file: UploadedFile, folderId: number | null) => {
+  // Upload a file, with optional custom metadata
+  uploadFile: async (
+    userId: number,
+    file: UploadedFile,
+    folderId: number | null,
+    metadataValues?: CustomMetadata,
+    client?: AuditClient
+  ) => {
     const connection = await pool.getConnection();
+    let storedBlob: StoredBlob | null = null;
     
     try {
-      // Start transaction
-      await connection.beginTransaction();
-      
       // Convert file data to buffer
       const fileBuffer = Buffer.from(await file.arrayBuffer());
       
-      // Save file to storage
-      const { filePath, fileId } = await saveFile(
-        userId,
-        fileBuffer,
-        file.name
-      );
+      // Check the file type against its content; the detected MIME type is stored
+      const validation = validateFileUpload(file, fileBuffer);
       
-      // Insert file record to database
-      const [result] = await connection.query(
-        `INSERT INTO files (user_id, folder_id, name, file_path, mime_type, size)
-         VALUES (?, ?, ?, ?, ?, ?)`,
-        [userId, folderId, file.name, filePath, file.type, file.size]
-      ) as QueryResult;
+      if (!validation.isValid) {
+        return { success: false, error: validation.error };
+      }
       
-      // Get file ID
-      const fileDbId = (result as OkPacket).insertId;
+      // Start transaction
+      await connection.beginTransaction();
       
-      // Clear folder cache
+      // Files belong to the owner of the folder tree, which may have been shared with the caller
+      let ownerId = userId;
       if (folderId) {
-        await cacheMiddleware.delete(`folder:${folderId}:contents`);
+        const access = await getFolderAccess(connection, userId, folderId);
+        
+        if (!access || !access.role) {
+          await connection.rollback();
+          return { success: false, error: 'Folder not found' };
+        }
+        
+        if (!hasRole(access.role, 'editor')) {
+          await connection.rollback();
+          return { success: false, error: 'You do not have permission to upload to this folder' };
+        }
+        
+        ownerId = access.folder.user_id;
       }
-      await cacheMiddleware.delete(`user:${userId}:folders`);
+      
+      // Check the metadata against the folder's schema
+      const metadata = await resolveUploadMetadata(connection, ownerId, folderId, file.name, metadataValues);
+      
+      if (!metadata.entries) {
+        await connection.rollback();
+        return { success: false, error: metadata.error };
+      }
+      
+      // Count the upload against the owner's quota
+      if (!(await reserveStorage(connection, ownerId, file.size))) {
+        await connection.rollback();
+        return { success: false, error: 'Storage quota exceeded', code: QUOTA_EXCEEDED };
+      }
+      
+      // Save file to storage; content that is already stored is shared, not written again
+      storedBlob = await storeBlob(connection, fileBuffer);
+      
+      // Record the file, or a new version of an existing file with the same name
+      const { fileId: fileDbId, created } = await saveFileRecord(connection, ownerId, folderId, {
+        name: file.name,
+        filePath: storedBlob.filePath,
+        checksum: storedBlob.hash,
+        mimeType: validation.mimeType || null,
+        size: file.size
+      });
+      
+      await saveCustomMetadata(connection, fileDbId, metadata.entries);
+      
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId,
+        action: 'file.upload',
+        fileId: fileDbId,
+        folderId,
+        newValue: { name: file.name, size: file.size, checksum: storedBlob.hash }
+      }, client);
       
       // Commit transaction
       await connection.commit();
       
+      queueThumbnails(storedBlob.filePath, validation.mimeType || null);
+      queueContentIndexing(fileDbId);
+      publishChange({ type: created ? 'file.created' : 'file.updated', actorId: userId, fileId: fileDbId });
+      
       // Get file details
       const [files] = await connection.query(
         `SELECT * FROM files WHERE file_id = ?`,
@@ -64,6 +205,8 @@ export const fileController = {
             name: files[0].name,
             size: files[0].size,
             mime_type: files[0].mime_type,
+            version: files[0].version,
+            checksum: files[0].checksum,
             created_at: files[0].created_at,
             updated_at: files[0].updated_at
           }
@@ -74,6 +217,12 @@ export const fileController = {
     } catch (error) {
       // Rollback transaction on error
       await connection.rollback();
+      
+      // Remove the blob if it was only written for this upload
+      if (storedBlob) {
+        await removeUnreferencedBlobs([{ checksum: storedBlob.hash, file_path: storedBlob.filePath }]);
+      }
+      
       console.error('Error uploading file:', error);
       return { success: false, error: 'Failed to upload file' };
     } finally {
@@ -81,13 +230,40 @@ export const fileController = {
     }
   },
   
-  // Upload multiple files
-  uploadMultipleFiles: async (userId: number, files: UploadedFile[], folderId: number | null) => {
+  // Upload multiple files; the same custom metadata is given to each of them
+  uploadMultipleFiles: async (
+    userId: number,
+    files: UploadedFile[],
+    folderId: number | null,
+    metadataValues?: CustomMetadata,
+    client?: AuditClient
+  ) => {
+    // Reject the whole batch up front if it can't fit in the owner's quota
+    const connection = await pool.getConnection();
+    
+    try {
+      let ownerId = userId;
+      if (folderId) {
+        const access = await getFolderAccess(connection, userId, folderId);
+        if (access) {
+          ownerId = access.folder.user_id;
+        }
+      }
+      
+      const totalSize = files.reduce((total, file) => total + file.size, 0);
+      
+      if (!(await hasStorageFor(connection, ownerId, totalSize))) {
+        return { success: false, error: 'Storage quota exceeded', code: QUOTA_EXCEEDED };
+      }
+    } finally {
+      connection.release();
+    }
+    
     const uploadedFiles = [];
     const failedFiles = [];
     
     for (const file of files) {
-      const result = await fileController.uploadFile(userId, file, folderId);
+      const result = await fileController.uploadFile(userId, file, folderId, metadataValues, client);
       
       if (result.success) {
         uploadedFiles.push(result.file);
@@ -106,33 +282,166 @@ export const fileController = {
     };
   },
   
-  // Download a file
-  downloadFile: async (userId: number, fileId: number) => {
+  // Create a file from content the server already stores, identified by its SHA-256 checksum,
+  // so clients can skip uploading content they (or the folder owner) already have
+  uploadFromChecksum: async (
+    userId: number,
+    file: { checksum: string; name: string; metadata?: CustomMetadata },
+    folderId: number | null,
+    client?: AuditClient
+  ) => {
     const connection = await pool.getConnection();
     
     try {
-      // Get file record
+      // Start transaction
+      await connection.beginTransaction();
+      
+      // Files belong to the owner of the folder tree, which may have been shared with the caller
+      let ownerId = userId;
+      if (folderId) {
+        const access = await getFolderAccess(connection, userId, folderId);
+        
+        if (!access || !access.role) {
+          await connection.rollback();
+          return { success: false, error: 'Folder not found' };
+        }
+        
+        if (!hasRole(access.role, 'editor')) {
+          await connection.rollback();
+          return { success: false, error: 'You do not have permission to upload to this folder' };
+        }
+        
+        ownerId = access.folder.user_id;
+      }
+      
+      // The content must already belong to the caller or the folder owner
+      const blob = await findOwnedBlob(connection, file.checksum.toLowerCase(), [userId, ownerId]);
+      
+      if (!blob) {
+        await connection.rollback();
+        return { success: false, error: 'Content not found', code: BLOB_NOT_FOUND };
+      }
+      
+      // Check the file name against the content, as for a regular upload
+      const content = await getFile(blob.filePath);
+      const validation = validateFileUpload(
+        { name: file.name, size: blob.size },
+        new Uint8Array(await content.slice(0, FILE_SIGNATURE_LENGTH).arrayBuffer())
+      );
+      
+      if (!validation.isValid) {
+        await connection.rollback();
+        return { success: false, error: validation.error };
+      }
+      
+      // Check the metadata against the folder's schema
+      const metadata = await resolveUploadMetadata(connection, ownerId, folderId, file.name, file.metadata);
+      
+      if (!metadata.entries) {
+        await connection.rollback();
+        return { success: false, error: metadata.error };
+      }
+      
+      // Count the file against the owner's quota like any other upload
+      if (!(await reserveStorage(connection, ownerId, blob.size))) {
+        await connection.rollback();
+        return { success: false, error: 'Storage quota exceeded', code: QUOTA_EXCEEDED };
+      }
+      
+      await addBlobReference(connection, blob.hash, blob.size);
+      
+      // Record the file, or a new version of an existing file with the same name
+      const { fileId: fileDbId, created } = await saveFileRecord(connection, ownerId, folderId, {
+        name: file.name,
+        filePath: blob.filePath,
+        checksum: blob.hash,
+        mimeType: validation.mimeType || null,
+        size: blob.size
+      });
+      
+      await saveCustomMetadata(connection, fileDbId, metadata.entries);
+      
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId,
+        action: 'file.upload',
+        fileId: fileDbId,
+        folderId,
+        newValue: { name: file.name, size: blob.size, checksum: blob.hash }
+      }, client);
+      
+      // Commit transaction
+      await connection.commit();
+      
+      queueThumbnails(blob.filePath, validation.mimeType || null);
+      queueContentIndexing(fileDbId);
+      publishChange({ type: created ? 'file.created' : 'file.updated', actorId: userId, fileId: fileDbId });
+      
+      // Get file details
       const [files] = await connection.query(
-        `SELECT * FROM files WHERE file_id = ? AND user_id = ?`,
-        [fileId, userId]
+        `SELECT * FROM files WHERE file_id = ?`,
+        [fileDbId]
       ) as [RowDataPacket[], any];
       
-      if (files.length === 0) {
+      return {
+        success: true,
+        file: {
+          id: files[0].file_id,
+          name: files[0].name,
+          size: files[0].size,
+          mime_type: files[0].mime_type,
+          version: files[0].version,
+          checksum: files[0].checksum,
+          created_at: files[0].created_at,
+          updated_at: files[0].updated_at
+        }
+      };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error uploading file by checksum:', error);
+      return { success: false, error: 'Failed to upload file' };
+    } finally {
+      connection.release();
+    }
+  },
+  
+  // Download a file. Downloads through a public share link act as the link creator,
+  // and are recorded as anonymous downloads through that link.
+  downloadFile: async (userId: number, fileId: number, client?: AuditClient, shareLinkId?: number) => {
+    const connection = await pool.getConnection();
+    
+    try {
+      // Get file record and check the caller can view it
+      const access = await getFileAccess(connection, userId, fileId);
+      
+      if (!access || !hasRole(access.role, 'viewer')) {
         return { success: false, error: 'File not found' };
       }
       
-      const file = files[0];
+      const file = access.file;
       
       // Get file from storage
       const fileData = await getFile(file.file_path);
       
+      await recordAuditEvent(connection, {
+        actorId: shareLinkId ? null : userId,
+        ownerId: file.user_id,
+        action: shareLinkId ? 'share_link.download' : 'file.download',
+        fileId,
+        folderId: file.folder_id,
+        newValue: { name: file.name, version: file.version, ...(shareLinkId ? { link_id: shareLinkId } : {}) }
+      }, client);
+      
       return {
         success: true,
         file: {
           data: fileData,
           name: file.name,
           mime_type: file.mime_type,
-          size: file.size
+          size: file.size,
+          etag: getContentETag(file.checksum, file.file_id, file.version),
+          last_modified: file.updated_at
         }
       };
     } catch (error) {
@@ -143,46 +452,100 @@ export const fileController = {
     }
   },
   
+  // Get a thumbnail of an image or PDF file
+  getThumbnail: async (
+    userId: number,
+    fileId: number,
+    size: ThumbnailSize
+  ): Promise<{ success: boolean; error?: string; file?: DownloadableFile }> => {
+    const connection = await pool.getConnection();
+    
+    try {
+      const access = await getFileAccess(connection, userId, fileId);
+      
+      if (!access || !hasRole(access.role, 'viewer')) {
+        return { success: false, error: 'File not found' };
+      }
+      
+      const file = access.file;
+      
+      // Generated now if the file was stored before thumbnails existed
+      const thumbnail = await getOrCreateThumbnail(file.file_path, file.mime_type, size);
+      
+      if (!thumbnail) {
+        return { success: false, error: 'No thumbnail available for this file' };
+      }
+      
+      return {
+        success: true,
+        file: {
+          data: thumbnail.data,
+          name: `${file.name}.webp`,
+          mime_type: THUMBNAIL_MIME_TYPE,
+          size: thumbnail.size,
+          etag: getContentETag(file.checksum, file.file_id, file.version).replace(/"$/, `-${size}"`),
+          last_modified: thumbnail.modified
+        }
+      };
+    } catch (error) {
+      console.error('Error getting thumbnail:', error);
+      return { success: false, error: 'Failed to get thumbnail' };
+    } finally {
+      connection.release();
+    }
+  },
+  
   // Delete a file
-  deleteFile: async (userId: number, fileId: number) => {
+  deleteFile: async (userId: number, fileId: number, client?: AuditClient) => {
     const connection = await pool.getConnection();
     
     try {
       // Start transaction
       await connection.beginTransaction();
       
-      // Get file record
-      const [files] = await connection.query(
-        `SELECT * FROM files WHERE file_id = ? AND user_id = ?`,
-        [fileId, userId]
-      ) as [RowDataPacket[], any];
+      // Get file record and check the caller can modify it
+      const access = await getFileAccess(connection, userId, fileId);
       
-      if (files.length === 0) {
+      if (!access || !access.role) {
         await connection.rollback();
         return { success: false, error: 'File not found' };
       }
       
-      const file = files[0];
+      if (!hasRole(access.role, 'editor')) {
+        await connection.rollback();
+        return { success: false, error: 'You do not have permission to delete this file' };
+      }
       
-      // Delete file from storage
-      await deleteFile(file.file_path);
+      const file = access.file;
       
-      // Delete file record from database
+      // Move the file to the trash; blobs are kept until it is purged
       await connection.query(
-        `DELETE FROM files WHERE file_id = ?`,
+        `UPDATE files SET deleted_at = NOW(), trashed_with_folder_id = NULL WHERE file_id = ?`,
         [fileId]
       );
       
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: file.user_id,
+        action: 'file.delete',
+        fileId,
+        folderId: file.folder_id,
+        oldValue: { name: file.name }
+      }, client);
+      
       // Clear caches
       await cacheMiddleware.delete(`file:${fileId}`);
       if (file.folder_id) {
         await cacheMiddleware.delete(`folder:${file.folder_id}:contents`);
+        await cacheMiddleware.delete(`folder:${file.folder_id}:files`);
       }
-      await cacheMiddleware.delete(`user:${userId}:folders`);
+      await cacheMiddleware.delete(`user:${file.user_id}:folders`);
       
       // Commit transaction
       await connection.commit();
       
+      publishChange({ type: 'file.deleted', actorId: userId, fileId });
+      
       return { success: true };
     } catch (error) {
       // Rollback transaction on error
@@ -194,31 +557,425 @@ export const fileController = {
     }
   },
   
-  // Get file details
-  getFileDetails: async (userId: number, fileId: number) => {
+  // Rename a file
+  renameFile: async (userId: number, fileId: number, newName: string, client?: AuditClient) => {
     const connection = await pool.getConnection();
     
     try {
-      // Check cache first
-      const cachedFile = await cacheMiddleware.get(`file:${fileId}`);
-      if (cachedFile) {
-        return { success: true, file: cachedFile };
+      // Start transaction
+      await connection.beginTransaction();
+      
+      // Get file record and check the caller can modify it
+      const access = await getFileAccess(connection, userId, fileId);
+      
+      if (!access || !access.role) {
+        await connection.rollback();
+        return { success: false, error: 'File not found' };
+      }
+      
+      if (!hasRole(access.role, 'editor')) {
+        await connection.rollback();
+        return { success: false, error: 'You do not have permission to rename this file' };
+      }
+      
+      const file = access.file;
+      
+      // Check the new name against the content, as for an upload
+      const content = await getFile(file.file_path);
+      const validation = validateFileUpload(
+        { name: newName, size: Number(file.size) },
+        new Uint8Array(await content.slice(0, FILE_SIGNATURE_LENGTH).arrayBuffer())
+      );
+      
+      if (!validation.isValid) {
+        await connection.rollback();
+        return { success: false, error: validation.error };
+      }
+      
+      // Check if a file with the new name already exists in the folder
+      if (newName !== file.name && await fileNameExists(connection, file.user_id, file.folder_id, newName)) {
+        await connection.rollback();
+        return { success: false, error: 'A file with this name already exists' };
+      }
+      
+      // Rename the file; the detected MIME type can change with the extension (e.g. zip and docx)
+      const mimeType = validation.mimeType || file.mime_type;
+      await connection.query(
+        `UPDATE files SET name = ?, mime_type = ? WHERE file_id = ?`,
+        [newName, mimeType, fileId]
+      );
+      
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: file.user_id,
+        action: 'file.rename',
+        fileId,
+        folderId: file.folder_id,
+        oldValue: { name: file.name },
+        newValue: { name: newName }
+      }, client);
+      
+      // Clear caches
+      await clearFileCaches(file);
+      
+      // Commit transaction
+      await connection.commit();
+      
+      // Whether the text is extracted depends on the extension
+      queueContentIndexing(fileId);
+      publishChange({ type: 'file.updated', actorId: userId, fileId });
+      
+      return {
+        success: true,
+        file: formatFile({ ...file, name: newName, mime_type: mimeType, updated_at: new Date() } as RowDataPacket)
+      };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error renaming file:', error);
+      return { success: false, error: 'Failed to rename file' };
+    } finally {
+      connection.release();
+    }
+  },
+  
+  // Move a file to another folder
+  moveFile: async (userId: number, fileId: number, newFolderId: number | null, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+    
+    try {
+      // Start transaction
+      await connection.beginTransaction();
+      
+      // Get file record and check the caller can modify it
+      const access = await getFileAccess(connection, userId, fileId);
+      
+      if (!access || !access.role) {
+        await connection.rollback();
+        return { success: false, error: 'File not found' };
+      }
+      
+      if (!hasRole(access.role, 'editor')) {
+        await connection.rollback();
+        return { success: false, error: 'You do not have permission to move this file' };
+      }
+      
+      const file = access.file;
+      
+      // Check the caller can add files to the destination
+      const destination = await getDestinationOwner(connection, userId, newFolderId);
+      
+      if (destination.error) {
+        await connection.rollback();
+        return { success: false, error: destination.error };
+      }
+      
+      // Files can't be moved between different owners' trees; copy them instead
+      if (destination.ownerId !== file.user_id) {
+        await connection.rollback();
+        return { success: false, error: 'Cannot move a file into another user\'s folder tree' };
+      }
+      
+      if (newFolderId === file.folder_id) {
+        await connection.rollback();
+        return { success: true, file: formatFile(file) };
+      }
+      
+      // Check if a file with the same name already exists in the destination
+      if (await fileNameExists(connection, file.user_id, newFolderId, file.name)) {
+        await connection.rollback();
+        return { success: false, error: 'A file with this name already exists in the destination' };
+      }
+      
+      // The file's metadata must fit the destination folder's schema
+      const metadata = validateCustomMetadata(
+        await getCustomMetadata(connection, fileId),
+        await getMetadataSchema(connection, newFolderId)
+      );
+      
+      if (metadata.error) {
+        await connection.rollback();
+        return { success: false, error: metadata.error };
+      }
+      
+      // Move the file
+      await connection.query(
+        `UPDATE files SET folder_id = ? WHERE file_id = ?`,
+        [newFolderId, fileId]
+      );
+      
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: file.user_id,
+        action: 'file.move',
+        fileId,
+        folderId: newFolderId,
+        oldValue: { folder_id: file.folder_id },
+        newValue: { folder_id: newFolderId }
+      }, client);
+      
+      // Clear caches of the old and the new folder
+      await clearFileCaches(file);
+      await clearFileCaches({ ...file, folder_id: newFolderId } as RowDataPacket);
+      
+      // Commit transaction
+      await connection.commit();
+      
+      publishChange({ type: 'file.moved', actorId: userId, fileId, fromFolderId: file.folder_id });
+      
+      return {
+        success: true,
+        file: formatFile({ ...file, folder_id: newFolderId, updated_at: new Date() } as RowDataPacket)
+      };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error moving file:', error);
+      return { success: false, error: 'Failed to move file' };
+    } finally {
+      connection.release();
+    }
+  },
+  
+  // Copy a file into a folder, optionally under a new name.
+  // The copy shares the original's stored content but is counted against the quota on its own.
+  copyFile: async (
+    userId: number,
+    fileId: number,
+    folderId: number | null,
+    newName?: string,
+    client?: AuditClient
+  ) => {
+    const connection = await pool.getConnection();
+    let storedBlob: StoredBlob | null = null;
+    
+    try {
+      // Start transaction
+      await connection.beginTransaction();
+      
+      // Get file record and check the caller can view it
+      const access = await getFileAccess(connection, userId, fileId);
+      
+      if (!access || !hasRole(access.role, 'viewer')) {
+        await connection.rollback();
+        return { success: false, error: 'File not found' };
+      }
+      
+      const file = access.file;
+      const name = newName || file.name;
+      
+      // Copies belong to the owner of the destination folder tree
+      const destination = await getDestinationOwner(connection, userId, folderId);
+      
+      if (destination.error || !destination.ownerId) {
+        await connection.rollback();
+        return { success: false, error: destination.error };
+      }
+      
+      const ownerId = destination.ownerId;
+      
+      // Check a new name against the content, as for an upload
+      let mimeType = file.mime_type;
+      if (name !== file.name) {
+        const content = await getFile(file.file_path);
+        const validation = validateFileUpload(
+          { name, size: Number(file.size) },
+          new Uint8Array(await content.slice(0, FILE_SIGNATURE_LENGTH).arrayBuffer())
+        );
+        
+        if (!validation.isValid) {
+          await connection.rollback();
+          return { success: false, error: validation.error };
+        }
+        
+        mimeType = validation.mimeType || mimeType;
+      }
+      
+      // Check if a file with the same name already exists in the destination
+      if (await fileNameExists(connection, ownerId, folderId, name)) {
+        await connection.rollback();
+        return { success: false, error: 'A file with this name already exists in the destination' };
+      }
+      
+      // The copy keeps the original's metadata, which must fit the destination folder's schema
+      const metadata = validateCustomMetadata(
+        await getCustomMetadata(connection, fileId),
+        await getMetadataSchema(connection, folderId)
+      );
+      
+      if (metadata.error) {
+        await connection.rollback();
+        return { success: false, error: metadata.error };
+      }
+      
+      // Count the copy against the owner's quota
+      if (!(await reserveStorage(connection, ownerId, Number(file.size)))) {
+        await connection.rollback();
+        return { success: false, error: 'Storage quota exceeded', code: QUOTA_EXCEEDED };
       }
       
-      // Get file record
+      // Reference the original's blob; files stored before content addressing own their
+      // blob outright, so their content is stored again as a shared blob
+      let blob: StoredBlob;
+      if (file.checksum) {
+        await addBlobReference(connection, file.checksum, Number(file.size));
+        blob = { hash: file.checksum, size: Number(file.size), filePath: file.file_path };
+      } else {
+        const content = await getFile(file.file_path);
+        storedBlob = await storeBlob(connection, Buffer.from(await content.arrayBuffer()));
+        blob = storedBlob;
+      }
+      
+      // Record the copy
+      const { fileId: copyId, created } = await saveFileRecord(connection, ownerId, folderId, {
+        name,
+        filePath: blob.filePath,
+        checksum: blob.hash,
+        mimeType,
+        size: blob.size
+      });
+      
+      await copyCustomMetadata(connection, fileId, copyId);
+      
+      // Recorded against the original, so its history shows where copies went
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: file.user_id,
+        action: 'file.copy',
+        fileId,
+        folderId: file.folder_id,
+        newValue: { file_id: copyId, folder_id: folderId, name }
+      }, client);
+      
+      // Commit transaction
+      await connection.commit();
+      
+      queueThumbnails(blob.filePath, mimeType);
+      queueContentIndexing(copyId);
+      publishChange({ type: created ? 'file.created' : 'file.updated', actorId: userId, fileId: copyId });
+      
+      // Get file details
       const [files] = await connection.query(
-        `SELECT * FROM files WHERE file_id = ? AND user_id = ?`,
-        [fileId, userId]
+        `SELECT * FROM files WHERE file_id = ?`,
+        [copyId]
       ) as [RowDataPacket[], any];
       
-      if (files.length === 0) {
+      return { success: true, file: formatFile(files[0]) };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      
+      // Remove the blob if it was only written for this copy
+      if (storedBlob) {
+        await removeUnreferencedBlobs([{ checksum: storedBlob.hash, file_path: storedBlob.filePath }]);
+      }
+      
+      console.error('Error copying file:', error);
+      return { success: false, error: 'Failed to copy file' };
+    } finally {
+      connection.release();
+    }
+  },
+  
+  // Update the custom metadata of a file. Values replace fields of the same name and null
+  // removes a field; with replace, fields that are not given are removed too.
+  updateMetadata: async (
+    userId: number,
+    fileId: number,
+    values: Record<string, string | number | null>,
+    replace: boolean,
+    client?: AuditClient
+  ) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Start transaction
+      await connection.beginTransaction();
+
+      // Get file record and check the caller can modify it
+      const access = await getFileAccess(connection, userId, fileId);
+
+      if (!access || !access.role) {
+        await connection.rollback();
+        return { success: false, error: 'File not found' };
+      }
+
+      if (!hasRole(access.role, 'editor')) {
+        await connection.rollback();
+        return { success: false, error: 'You do not have permission to edit this file' };
+      }
+
+      const file = access.file;
+
+      // Merge the changes into the current values
+      const currentValues = await getCustomMetadata(connection, fileId);
+      const metadataValues = mergeCustomMetadata(replace ? {} : currentValues, values);
+
+      // The result must fit the folder's schema as a whole
+      const metadata = validateCustomMetadata(metadataValues, await getMetadataSchema(connection, file.folder_id));
+
+      if (!metadata.entries) {
+        await connection.rollback();
+        return { success: false, error: metadata.error };
+      }
+
+      await saveCustomMetadata(connection, fileId, metadata.entries);
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: file.user_id,
+        action: 'file.metadata_update',
+        fileId,
+        folderId: file.folder_id,
+        oldValue: { metadata: currentValues },
+        newValue: { metadata: metadataValues }
+      }, client);
+
+      // Clear caches
+      await clearFileCaches(file);
+
+      // Commit transaction
+      await connection.commit();
+
+      publishChange({ type: 'file.updated', actorId: userId, fileId });
+
+      return { success: true, metadata: await getCustomMetadata(connection, fileId) };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error updating file metadata:', error);
+      return { success: false, error: 'Failed to update file metadata' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Get file details
+  getFileDetails: async (userId: number, fileId: number) => {
+    const connection = await pool.getConnection();
+    
+    try {
+      // Get file record and check the caller can view it
+      const access = await getFileAccess(connection, userId, fileId);
+      
+      if (!access || !hasRole(access.role, 'viewer')) {
         return { success: false, error: 'File not found' };
       }
       
-      const file = files[0];
+      // Tags are the caller's own, so they are not part of the cached details
+      const tags = (await getItemTags(connection, userId, 'file', [fileId])).get(fileId) || [];
+      
+      // Check cache
+      const cachedFile = await cacheMiddleware.get(`file:${fileId}`);
+      if (cachedFile) {
+        return { success: true, file: { ...cachedFile, tags } };
+      }
+      
+      const file = access.file;
       
       // Get additional metadata from storage
       const metadata = await getFileMetadata(file.file_path);
+      const customMetadata = await getCustomMetadata(connection, fileId);
       
       const fileDetails = {
         id: file.file_id,
@@ -226,15 +983,18 @@ export const fileController = {
         size: file.size,
         mime_type: file.mime_type,
         folder_id: file.folder_id,
+        version: file.version,
+        checksum: file.checksum,
         created_at: file.created_at,
         updated_at: file.updated_at,
-        last_modified: metadata?.modified || file.updated_at
+        last_modified: metadata?.modified || file.updated_at,
+        metadata: customMetadata
       };
       
       // Cache file details
       await cacheMiddleware.set(`file:${fileId}`, fileDetails);
       
-      return { success: true, file: fileDetails };
+      return { success: true, file: { ...fileDetails, tags } };
     } catch (error) {
       console.error('Error getting file details:', error);
       return { success: false, error: 'Failed to get file details' };
@@ -261,6 +1021,7 @@ export const fileController = {
       // Get files
       const [files] = await connection.query(
         `SELECT * FROM files WHERE user_id = ? AND folder_id ${folderId ? '= ?' : 'IS NULL'}
+         AND deleted_at IS NULL
          ORDER BY name ASC`,
         folderId ? [userId, folderId] : [userId]
       ) as [RowDataPacket[], any];
@@ -271,6 +1032,7 @@ export const fileController = {
         size: file.size,
         mime_type: file.mime_type,
         folder_id: file.folder_id,
+        checksum: file.checksum,
         created_at: file.created_at,
         updated_at: file.updated_at,
         file_name: file.name // Added for frontend compatibility
@@ -296,7 +1058,7 @@ export const fileController = {
       // Search files by name
       const [files] = await connection.query(
         `SELECT * FROM files 
-         WHERE user_id = ? AND name LIKE ?
+         WHERE user_id = ? AND name LIKE ? AND deleted_at IS NULL
          ORDER BY name ASC`,
         [userId, `%${searchTerm}%`]
       ) as [RowDataPacket[], any];
@@ -307,6 +1069,7 @@ export const fileController = {
         size: file.size,
         mime_type: file.mime_type,
         folder_id: file.folder_id,
+        checksum: file.checksum,
         created_at: file.created_at,
         updated_at: file.updated_at,
         file_name: file.name, // Added for frontend compatibility
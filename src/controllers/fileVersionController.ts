@@ -0,0 +1,316 @@
+// src/controllers/fileVersionController.ts
+import pool from '../config/database';
+import { cacheMiddleware } from '../config/redis';
+import { getFile } from '../services/fileStorage';
+import { releaseBlobReference, removeUnreferencedBlobs } from '../services/blobStore';
+import { getFileAccess, hasRole } from '../services/folderAccess';
+import { releaseStorage } from '../services/storageQuota';
+import { queueContentIndexing } from '../services/contentIndex';
+import { recordAuditEvent } from '../services/auditLog';
+import { publishChange } from '../services/changeNotifications';
+import { AuditClient } from '../types/auditTypes';
+import { DownloadableFile } from '../types/fileTypes';
+import { getContentETag } from '../utils/fileResponse';
+import { RowDataPacket } from 'mysql2';
+
+// Clear the caches that hold a file's current size and details
+const clearFileCaches = async (file: RowDataPacket) => {
+  await cacheMiddleware.delete(`file:${file.file_id}`);
+  if (file.folder_id) {
+    await cacheMiddleware.delete(`folder:${file.folder_id}:contents`);
+    await cacheMiddleware.delete(`folder:${file.folder_id}:files`);
+  }
+};
+
+export const fileVersionController = {
+  // List the versions of a file, newest first (the current version is included)
+  getVersions: async (userId: number, fileId: number) => {
+    const connection = await pool.getConnection();
+
+    try {
+      const access = await getFileAccess(connection, userId, fileId);
+
+      if (!access || !hasRole(access.role, 'viewer')) {
+        return { success: false, error: 'File not found' };
+      }
+
+      const file = access.file;
+
+      const [versions] = await connection.query(
+        `SELECT * FROM file_versions WHERE file_id = ? ORDER BY version_number DESC`,
+        [fileId]
+      ) as [RowDataPacket[], any];
+
+      return {
+        success: true,
+        versions: [
+          {
+            id: null,
+            version: file.version,
+            size: file.size,
+            mime_type: file.mime_type,
+            created_at: file.updated_at,
+            is_current: true
+          },
+          ...versions.map((version: RowDataPacket) => ({
+            id: version.version_id,
+            version: version.version_number,
+            size: version.size,
+            mime_type: version.mime_type,
+            created_at: version.created_at,
+            is_current: false
+          }))
+        ]
+      };
+    } catch (error) {
+      console.error('Error getting file versions:', error);
+      return { success: false, error: 'Failed to get file versions' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Download a previous version of a file
+  downloadVersion: async (
+    userId: number,
+    fileId: number,
+    versionId: number,
+    client?: AuditClient
+  ): Promise<{ success: boolean; error?: string; file?: DownloadableFile }> => {
+    const connection = await pool.getConnection();
+
+    try {
+      const access = await getFileAccess(connection, userId, fileId);
+
+      if (!access || !hasRole(access.role, 'viewer')) {
+        return { success: false, error: 'File not found' };
+      }
+
+      const [versions] = await connection.query(
+        `SELECT * FROM file_versions WHERE version_id = ? AND file_id = ?`,
+        [versionId, fileId]
+      ) as [RowDataPacket[], any];
+
+      if (versions.length === 0) {
+        return { success: false, error: 'Version not found' };
+      }
+
+      const version = versions[0];
+      const fileData = await getFile(version.file_path);
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: access.file.user_id,
+        action: 'file.version_download',
+        fileId,
+        folderId: access.file.folder_id,
+        newValue: { name: access.file.name, version: version.version_number }
+      }, client);
+
+      return {
+        success: true,
+        file: {
+          data: fileData,
+          name: access.file.name,
+          mime_type: version.mime_type,
+          size: version.size,
+          etag: getContentETag(version.checksum, fileId, version.version_number),
+          last_modified: version.created_at
+        }
+      };
+    } catch (error) {
+      console.error('Error downloading file version:', error);
+      return { success: false, error: 'Failed to download file version' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Restore a previous version; it becomes the newest version and the current one is kept in history
+  restoreVersion: async (userId: number, fileId: number, versionId: number, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Start transaction
+      await connection.beginTransaction();
+
+      const access = await getFileAccess(connection, userId, fileId);
+
+      if (!access || !access.role) {
+        await connection.rollback();
+        return { success: false, error: 'File not found' };
+      }
+
+      if (!hasRole(access.role, 'editor')) {
+        await connection.rollback();
+        return { success: false, error: 'You do not have permission to modify this file' };
+      }
+
+      // Lock the file row so concurrent uploads can't interleave version numbers
+      const [files] = await connection.query(
+        `SELECT * FROM files WHERE file_id = ? FOR UPDATE`,
+        [fileId]
+      ) as [RowDataPacket[], any];
+
+      const file = files[0];
+
+      const [versions] = await connection.query(
+        `SELECT * FROM file_versions WHERE version_id = ? AND file_id = ?`,
+        [versionId, fileId]
+      ) as [RowDataPacket[], any];
+
+      if (versions.length === 0) {
+        await connection.rollback();
+        return { success: false, error: 'Version not found' };
+      }
+
+      const version = versions[0];
+
+      // Archive the current blob
+      await connection.query(
+        `INSERT INTO file_versions (file_id, version_number, file_path, checksum, mime_type, size, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [fileId, file.version, file.file_path, file.checksum, file.mime_type, file.size, file.updated_at]
+      );
+
+      // The restored blob now belongs to the file record
+      await connection.query(
+        `DELETE FROM file_versions WHERE version_id = ?`,
+        [versionId]
+      );
+
+      await connection.query(
+        `UPDATE files SET file_path = ?, checksum = ?, mime_type = ?, size = ?, version = version + 1
+         WHERE file_id = ?`,
+        [version.file_path, version.checksum, version.mime_type, version.size, fileId]
+      );
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: file.user_id,
+        action: 'file.version_restore',
+        fileId,
+        folderId: file.folder_id,
+        oldValue: { version: file.version, checksum: file.checksum },
+        newValue: { version: file.version + 1, restored_from: version.version_number, checksum: version.checksum }
+      }, client);
+
+      await clearFileCaches(file);
+
+      // Commit transaction
+      await connection.commit();
+
+      // The restored content replaces the current text in the search index
+      queueContentIndexing(fileId);
+      publishChange({ type: 'file.updated', actorId: userId, fileId });
+
+      return {
+        success: true,
+        file: {
+          id: fileId,
+          name: file.name,
+          size: version.size,
+          mime_type: version.mime_type,
+          version: file.version + 1,
+          restored_from: version.version_number
+        }
+      };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error restoring file version:', error);
+      return { success: false, error: 'Failed to restore file version' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Delete previous versions beyond the newest `keep`, or older than `olderThanDays`
+  pruneVersions: async (
+    userId: number,
+    fileId: number,
+    options: { keep?: number; olderThanDays?: number },
+    client?: AuditClient
+  ) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Start transaction
+      await connection.beginTransaction();
+
+      const access = await getFileAccess(connection, userId, fileId);
+
+      if (!access || !access.role) {
+        await connection.rollback();
+        return { success: false, error: 'File not found' };
+      }
+
+      if (!hasRole(access.role, 'editor')) {
+        await connection.rollback();
+        return { success: false, error: 'You do not have permission to modify this file' };
+      }
+
+      const [versions] = await connection.query(
+        `SELECT *, (created_at < NOW() - INTERVAL ? DAY) AS is_old
+         FROM file_versions WHERE file_id = ?
+         ORDER BY version_number DESC`,
+        [options.olderThanDays ?? 0, fileId]
+      ) as [RowDataPacket[], any];
+
+      const prunable = versions.filter((version: RowDataPacket, index: number) =>
+        (options.keep !== undefined && index >= options.keep) ||
+        (options.olderThanDays !== undefined && version.is_old)
+      );
+      const prunedBlobs = prunable.map((version: RowDataPacket) => ({
+        checksum: version.checksum,
+        file_path: version.file_path
+      }));
+
+      if (prunable.length > 0) {
+        await connection.query(
+          `DELETE FROM file_versions WHERE version_id IN (?)`,
+          [prunable.map((version: RowDataPacket) => version.version_id)]
+        );
+
+        await releaseStorage(
+          connection,
+          access.file.user_id,
+          prunable.reduce((total: number, version: RowDataPacket) => total + Number(version.size), 0)
+        );
+
+        for (const blob of prunedBlobs) {
+          await releaseBlobReference(connection, blob);
+        }
+
+        await recordAuditEvent(connection, {
+          actorId: userId,
+          ownerId: access.file.user_id,
+          action: 'file.versions_prune',
+          fileId,
+          folderId: access.file.folder_id,
+          oldValue: { versions: prunable.map((version: RowDataPacket) => version.version_number) }
+        }, client);
+      }
+
+      // Commit transaction
+      await connection.commit();
+
+      // Remove blobs that are no longer used once the rows are gone
+      await removeUnreferencedBlobs(prunedBlobs);
+
+      return {
+        success: true,
+        pruned: prunable.map((version: RowDataPacket) => version.version_number)
+      };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error pruning file versions:', error);
+      return { success: false, error: 'Failed to prune file versions' };
+    } finally {
+      connection.release();
+    }
+  }
+};
+
+export default fileVersionController;
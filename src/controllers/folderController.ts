@@ -1,40 +1,114 @@
 // src/controllers/folderController.ts
 import pool from '../config/database';
 import { cacheMiddleware } from '../config/redis';
-import { fileController } from './fileController';
+import {
+  getFolderAccess,
+  getSharedRootFolders,
+  getSubtreeFolders,
+  hasRole,
+  isFolderInSubtree
+} from '../services/folderAccess';
+import { addBlobReference, removeUnreferencedBlobs, storeBlob, StoredBlob } from '../services/blobStore';
+import { getFile } from '../services/fileStorage';
+import { reserveStorage, QUOTA_EXCEEDED } from '../services/storageQuota';
+import { queueContentIndexing } from '../services/contentIndex';
+import { publishChange } from '../services/changeNotifications';
+import { queueThumbnails } from '../services/thumbnailService';
+import { getItemTags } from '../services/itemTags';
+import { recordAuditEvent } from '../services/auditLog';
+import { copyCustomMetadata, getMetadataSchema, validateMetadataSchema } from '../services/customMetadata';
+import { FolderContentsEntry, FolderContentsOptions, FolderTreeNode } from '../types/fileTypes';
+import { SHARED_ROOT_ID } from '../types/shareTypes';
+import { MetadataField } from '../types/metadataTypes';
+import { AuditClient } from '../types/auditTypes';
+import { PoolConnection } from 'mysql2/promise';
 import { RowDataPacket, OkPacket } from 'mysql2';
+import { randomUUID } from 'crypto';
 
 // Define types for MySQL results
 type QueryResult = [RowDataPacket[] | RowDataPacket[][] | OkPacket | OkPacket[], any];
 
+// Build a folder tree recursively from a flat list of folder rows
+const buildFolderTree = (folders: RowDataPacket[], parentId: number | null, level = 0): FolderTreeNode[] => {
+  return folders
+    .filter((folder: RowDataPacket) => folder.parent_folder_id === parentId)
+    .map((folder: RowDataPacket) => ({
+      id: folder.folder_id,
+      name: folder.name,
+      level: level === 0 ? 0 : 1, // Simple level mapping
+      nodeId: folder.folder_id.toString(), // For TreeView
+      sub_classifications: buildFolderTree(folders, folder.folder_id, level + 1)
+    }));
+};
+
+// Get the current cache generation of a folder's contents listing, starting a new one
+// if the previous generation was invalidated
+const getContentsCacheGeneration = async (generationKey: string): Promise<string> => {
+  const generation = await cacheMiddleware.get(generationKey);
+  
+  if (typeof generation === 'string') {
+    return generation;
+  }
+  
+  const newGeneration = randomUUID();
+  await cacheMiddleware.set(generationKey, newGeneration);
+  
+  return newGeneration;
+};
+
+// Add a user's tags to the items of a folder contents listing
+const addContentsTags = async (
+  connection: PoolConnection,
+  userId: number,
+  contents: FolderContentsEntry[]
+): Promise<FolderContentsEntry[]> => {
+  const fileTags = await getItemTags(
+    connection, userId, 'file', contents.filter(item => item.type === 'file').map(item => item.id)
+  );
+  const folderTags = await getItemTags(
+    connection, userId, 'folder', contents.filter(item => item.type === 'folder').map(item => item.id)
+  );
+  
+  return contents.map(item => ({
+    ...item,
+    tags: (item.type === 'file' ? fileTags : folderTags).get(item.id) || []
+  }));
+};
+
 export const folderController = {
   // Create a new folder
-  createFolder: async (userId: number, name: string, parentFolderId: number | null) => {
+  createFolder: async (userId: number, name: string, parentFolderId: number | null, client?: AuditClient) => {
     const connection = await pool.getConnection();
     
     try {
       // Start transaction
       await connection.beginTransaction();
       
-      // Verify parent folder exists if specified
+      // Verify parent folder exists and the caller can edit it.
+      // New folders belong to the owner of the parent, which may have been shared with the caller.
+      let ownerId = userId;
       if (parentFolderId) {
-        const [parentFolders] = await connection.query(
-          `SELECT * FROM folders WHERE folder_id = ? AND user_id = ?`,
-          [parentFolderId, userId]
-        ) as QueryResult;
+        const parentAccess = await getFolderAccess(connection, userId, parentFolderId);
         
-        if ((parentFolders as RowDataPacket[]).length === 0) {
+        if (!parentAccess || !parentAccess.role) {
           await connection.rollback();
           return { success: false, error: 'Parent folder not found' };
         }
+        
+        if (!hasRole(parentAccess.role, 'editor')) {
+          await connection.rollback();
+          return { success: false, error: 'You do not have permission to create folders here' };
+        }
+        
+        ownerId = parentAccess.folder.user_id;
       }
       
       // Check if folder already exists at this level
       const [existingFolders] = await connection.query(
         `SELECT * FROM folders 
-         WHERE user_id = ? AND name = ? AND 
+         WHERE user_id = ? AND name = ? AND deleted_at IS NULL AND 
          (parent_folder_id ${parentFolderId ? '= ?' : 'IS NULL'})`,
-        parentFolderId ? [userId, name, parentFolderId] : [userId, name]
+        parentFolderId ? [ownerId, name, parentFolderId] : [ownerId, name]
       ) as QueryResult;
       
       if ((existingFolders as RowDataPacket[]).length > 0) {
@@ -46,22 +120,32 @@ export const folderController = {
       const [result] = await connection.query(
         `INSERT INTO folders (user_id, parent_folder_id, name)
          VALUES (?, ?, ?)`,
-        [userId, parentFolderId, name]
+        [ownerId, parentFolderId, name]
       ) as QueryResult;
       
       const folderId = (result as OkPacket).insertId;
       
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId,
+        action: 'folder.create',
+        folderId,
+        newValue: { name, parent_folder_id: parentFolderId }
+      }, client);
+      
       // Clear relevant caches
       if (parentFolderId) {
         await cacheMiddleware.delete(`folder:${parentFolderId}:subfolders`);
         await cacheMiddleware.delete(`folder:${parentFolderId}:contents`);
       }
-      await cacheMiddleware.delete(`user:${userId}:folders`);
-      await cacheMiddleware.deleteByPattern(`user:${userId}:folder_tree*`);
+      await cacheMiddleware.delete(`user:${ownerId}:folders`);
+      await cacheMiddleware.deleteByPattern(`user:${ownerId}:folder_tree*`);
       
       // Commit transaction
       await connection.commit();
       
+      publishChange({ type: 'folder.created', actorId: userId, folderId });
+      
       // Get created folder
       const [folders] = await connection.query(
         `SELECT * FROM folders WHERE folder_id = ?`,
@@ -94,41 +178,33 @@ export const folderController = {
   },
   
   // Delete a folder and its contents
-  deleteFolder: async (userId: number, folderId: number) => {
+  deleteFolder: async (userId: number, folderId: number, client?: AuditClient) => {
     const connection = await pool.getConnection();
     
     try {
       // Start transaction
       await connection.beginTransaction();
       
-      // Verify folder exists and belongs to user
-      const [folders] = await connection.query(
-        `SELECT * FROM folders WHERE folder_id = ? AND user_id = ?`,
-        [folderId, userId]
-      ) as QueryResult;
+      // Verify folder exists and the caller has owner rights on it
+      const access = await getFolderAccess(connection, userId, folderId);
       
-      if ((folders as RowDataPacket[]).length === 0) {
+      if (!access || !access.role) {
         await connection.rollback();
         return { success: false, error: 'Folder not found' };
       }
       
-      const folder = (folders as RowDataPacket[])[0];
-      
-      // Check if folder has files
-      const [files] = await connection.query(
-        `SELECT * FROM files WHERE folder_id = ?`,
-        [folderId]
-      ) as QueryResult;
-      
-      // Delete all files in the folder
-      for (const file of files as RowDataPacket[]) {
-        await fileController.deleteFile(userId, file.file_id);
+      if (!hasRole(access.role, 'owner')) {
+        await connection.rollback();
+        return { success: false, error: 'You do not have permission to delete this folder' };
       }
       
-      // Get all subfolders
+      const folder = access.folder;
+      const ownerId = folder.user_id;
+      
+      // Get all active subfolders
       const getSubfolders = async (parentId: number): Promise<number[]> => {
         const [subfolders] = await connection.query(
-          `SELECT folder_id FROM folders WHERE parent_folder_id = ?`,
+          `SELECT folder_id FROM folders WHERE parent_folder_id = ? AND deleted_at IS NULL`,
           [parentId]
         ) as QueryResult;
         
@@ -144,39 +220,55 @@ export const folderController = {
         return folderIds;
       };
       
-      // Get all subfolders to delete
       const subfolderIds = await getSubfolders(folderId);
       
-      // Delete all subfolders (files in subfolders have already been deleted)
+      // Move the folder to the trash; blobs are kept until it is purged
+      await connection.query(
+        `UPDATE folders SET deleted_at = NOW(), trashed_with_folder_id = NULL WHERE folder_id = ?`,
+        [folderId]
+      );
+      
+      // Its active contents go to the trash with it, so restoring the folder restores them too
       if (subfolderIds.length > 0) {
         await connection.query(
-          `DELETE FROM folders WHERE folder_id IN (?)`,
-          [subfolderIds]
+          `UPDATE folders SET deleted_at = NOW(), trashed_with_folder_id = ? WHERE folder_id IN (?)`,
+          [folderId, subfolderIds]
         );
       }
       
-      // Delete the folder itself
       await connection.query(
-        `DELETE FROM folders WHERE folder_id = ?`,
-        [folderId]
+        `UPDATE files SET deleted_at = NOW(), trashed_with_folder_id = ?
+         WHERE folder_id IN (?) AND deleted_at IS NULL`,
+        [folderId, [folderId, ...subfolderIds]]
       );
       
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId,
+        action: 'folder.delete',
+        folderId,
+        oldValue: { name: folder.name, parent_folder_id: folder.parent_folder_id }
+      }, client);
+      
       // Clear caches
       await cacheMiddleware.delete(`folder:${folderId}`);
       await cacheMiddleware.delete(`folder:${folderId}:contents`);
       await cacheMiddleware.delete(`folder:${folderId}:subfolders`);
+      await cacheMiddleware.delete(`folder:${folderId}:files`);
       
       if (folder.parent_folder_id) {
         await cacheMiddleware.delete(`folder:${folder.parent_folder_id}:subfolders`);
         await cacheMiddleware.delete(`folder:${folder.parent_folder_id}:contents`);
       }
       
-      await cacheMiddleware.delete(`user:${userId}:folders`);
-      await cacheMiddleware.deleteByPattern(`user:${userId}:folder_tree*`);
+      await cacheMiddleware.delete(`user:${ownerId}:folders`);
+      await cacheMiddleware.deleteByPattern(`user:${ownerId}:folder_tree*`);
       
       // Commit transaction
       await connection.commit();
       
+      publishChange({ type: 'folder.deleted', actorId: userId, folderId });
+      
       return { success: true };
     } catch (error) {
       // Rollback transaction on error
@@ -189,35 +281,38 @@ export const folderController = {
   },
   
   // Rename a folder
-  renameFolder: async (userId: number, folderId: number, newName: string) => {
+  renameFolder: async (userId: number, folderId: number, newName: string, client?: AuditClient) => {
     const connection = await pool.getConnection();
     
     try {
       // Start transaction
       await connection.beginTransaction();
       
-      // Get folder details
-      const [folders] = await connection.query(
-        `SELECT * FROM folders WHERE folder_id = ? AND user_id = ?`,
-        [folderId, userId]
-      ) as QueryResult;
+      // Get folder details and check the caller can edit it
+      const access = await getFolderAccess(connection, userId, folderId);
       
-      if ((folders as RowDataPacket[]).length === 0) {
+      if (!access || !access.role) {
         await connection.rollback();
         return { success: false, error: 'Folder not found' };
       }
       
-      const folder = (folders as RowDataPacket[])[0];
+      if (!hasRole(access.role, 'editor')) {
+        await connection.rollback();
+        return { success: false, error: 'You do not have permission to rename this folder' };
+      }
+      
+      const folder = access.folder;
+      const ownerId = folder.user_id;
       
       // Check if a folder with the new name already exists at this level
       const [existingFolders] = await connection.query(
         `SELECT * FROM folders 
-         WHERE user_id = ? AND name = ? AND 
+         WHERE user_id = ? AND name = ? AND deleted_at IS NULL AND 
          folder_id != ? AND
          (parent_folder_id ${folder.parent_folder_id ? '= ?' : 'IS NULL'})`,
         folder.parent_folder_id 
-          ? [userId, newName, folderId, folder.parent_folder_id] 
-          : [userId, newName, folderId]
+          ? [ownerId, newName, folderId, folder.parent_folder_id] 
+          : [ownerId, newName, folderId]
       ) as QueryResult;
       
       if ((existingFolders as RowDataPacket[]).length > 0) {
@@ -231,18 +326,29 @@ export const folderController = {
         [newName, folderId]
       );
       
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId,
+        action: 'folder.rename',
+        folderId,
+        oldValue: { name: folder.name },
+        newValue: { name: newName }
+      }, client);
+      
       // Clear caches
       await cacheMiddleware.delete(`folder:${folderId}`);
       if (folder.parent_folder_id) {
         await cacheMiddleware.delete(`folder:${folder.parent_folder_id}:subfolders`);
         await cacheMiddleware.delete(`folder:${folder.parent_folder_id}:contents`);
       }
-      await cacheMiddleware.delete(`user:${userId}:folders`);
-      await cacheMiddleware.deleteByPattern(`user:${userId}:folder_tree*`);
+      await cacheMiddleware.delete(`user:${ownerId}:folders`);
+      await cacheMiddleware.deleteByPattern(`user:${ownerId}:folder_tree*`);
       
       // Commit transaction
       await connection.commit();
       
+      publishChange({ type: 'folder.updated', actorId: userId, folderId });
+      
       return { 
         success: true,
         folder: {
@@ -268,23 +374,20 @@ export const folderController = {
     const connection = await pool.getConnection();
     
     try {
-      // Check cache first
-      const cachedFolder = await cacheMiddleware.get(`folder:${folderId}`);
-      if (cachedFolder) {
-        return { success: true, folder: cachedFolder };
-      }
+      // Get folder and check the caller can view it
+      const access = await getFolderAccess(connection, userId, folderId);
       
-      // Get folder
-      const [folders] = await connection.query(
-        `SELECT * FROM folders WHERE folder_id = ? AND user_id = ?`,
-        [folderId, userId]
-      ) as QueryResult;
-      
-      if ((folders as RowDataPacket[]).length === 0) {
+      if (!access || !hasRole(access.role, 'viewer')) {
         return { success: false, error: 'Folder not found' };
       }
       
-      const folder = (folders as RowDataPacket[])[0];
+      // Check cache
+      const cachedFolder = await cacheMiddleware.get(`folder:${folderId}`);
+      if (cachedFolder) {
+        return { success: true, folder: { ...cachedFolder, permission: access.role } };
+      }
+      
+      const folder = access.folder;
       
       // Get parent folder name if exists
       let parentFolderName = null;
@@ -304,6 +407,7 @@ export const folderController = {
         name: folder.name,
         parent_folder_id: folder.parent_folder_id,
         parent_folder_name: parentFolderName,
+        metadata_schema: await getMetadataSchema(connection, folderId),
         created_at: folder.created_at,
         updated_at: folder.updated_at
       };
@@ -311,7 +415,7 @@ export const folderController = {
       // Cache folder details
       await cacheMiddleware.set(`folder:${folderId}`, folderDetails);
       
-      return { success: true, folder: folderDetails };
+      return { success: true, folder: { ...folderDetails, permission: access.role } };
     } catch (error) {
       console.error('Error getting folder details:', error);
       return { success: false, error: 'Failed to get folder details' };
@@ -320,6 +424,78 @@ export const folderController = {
     }
   },
   
+  // Set the custom metadata fields files in a folder must fit; no fields removes the schema.
+  // Files already in the folder are checked when their metadata is next changed.
+  setMetadataSchema: async (userId: number, folderId: number, fields: MetadataField[], client?: AuditClient) => {
+    const connection = await pool.getConnection();
+    
+    try {
+      // Start transaction
+      await connection.beginTransaction();
+      
+      // Get folder and check the caller owns it
+      const access = await getFolderAccess(connection, userId, folderId);
+      
+      if (!access || !access.role) {
+        await connection.rollback();
+        return { success: false, error: 'Folder not found' };
+      }
+      
+      if (!hasRole(access.role, 'owner')) {
+        await connection.rollback();
+        return { success: false, error: 'You do not have permission to change the metadata schema of this folder' };
+      }
+      
+      // Store the fields in a fixed shape
+      const schema: MetadataField[] = fields.map(field => ({
+        name: field.name,
+        type: field.type,
+        required: field.required || false,
+        ...(field.options ? { options: field.options } : {})
+      }));
+      
+      const error = validateMetadataSchema(schema);
+      
+      if (error) {
+        await connection.rollback();
+        return { success: false, error };
+      }
+      
+      const currentSchema = await getMetadataSchema(connection, folderId);
+      
+      await connection.query(
+        `UPDATE folders SET metadata_schema = ? WHERE folder_id = ?`,
+        [schema.length > 0 ? JSON.stringify(schema) : null, folderId]
+      );
+      
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: access.folder.user_id,
+        action: 'folder.metadata_schema_update',
+        folderId,
+        oldValue: { fields: currentSchema },
+        newValue: { fields: schema }
+      }, client);
+      
+      // Clear caches
+      await cacheMiddleware.delete(`folder:${folderId}`);
+      
+      // Commit transaction
+      await connection.commit();
+      
+      publishChange({ type: 'folder.updated', actorId: userId, folderId });
+      
+      return { success: true, metadata_schema: schema };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error setting folder metadata schema:', error);
+      return { success: false, error: 'Failed to set metadata schema' };
+    } finally {
+      connection.release();
+    }
+  },
+  
   // Get subfolders for a folder
   getSubfolders: async (userId: number, folderId: number | null) => {
     const connection = await pool.getConnection();
@@ -339,6 +515,7 @@ export const folderController = {
       const [subfolders] = await connection.query(
         `SELECT * FROM folders 
          WHERE user_id = ? AND parent_folder_id ${folderId ? '= ?' : 'IS NULL'}
+         AND deleted_at IS NULL
          ORDER BY name ASC`,
         folderId ? [userId, folderId] : [userId]
       ) as QueryResult;
@@ -364,25 +541,33 @@ export const folderController = {
   },
   
   // Move a folder to another folder
-  moveFolder: async (userId: number, folderId: number, newParentId: number | null) => {
+  moveFolder: async (userId: number, folderId: number, newParentId: number | null, client?: AuditClient) => {
     const connection = await pool.getConnection();
     
     try {
       // Start transaction
       await connection.beginTransaction();
       
-      // Get folder details
-      const [folders] = await connection.query(
-        `SELECT * FROM folders WHERE folder_id = ? AND user_id = ?`,
-        [folderId, userId]
-      ) as QueryResult;
+      // Get folder details and check the caller can edit it
+      const access = await getFolderAccess(connection, userId, folderId);
       
-      if ((folders as RowDataPacket[]).length === 0) {
+      if (!access || !access.role) {
         await connection.rollback();
         return { success: false, error: 'Folder not found' };
       }
       
-      const folder = (folders as RowDataPacket[])[0];
+      const folder = access.folder;
+      const ownerId = folder.user_id;
+      
+      // Moving a folder changes its current parent too, so the caller needs edit rights on both
+      const parentAccess = folder.parent_folder_id
+        ? await getFolderAccess(connection, userId, folder.parent_folder_id)
+        : access;
+      
+      if (!hasRole(access.role, 'editor') || !parentAccess || !hasRole(parentAccess.role, 'editor')) {
+        await connection.rollback();
+        return { success: false, error: 'You do not have permission to move this folder' };
+      }
       
       // Can't move a folder to itself
       if (folderId === newParentId) {
@@ -392,17 +577,25 @@ export const folderController = {
       
       // Validate new parent if specified
       if (newParentId) {
-        // Check if new parent exists
-        const [newParentFolders] = await connection.query(
-          `SELECT * FROM folders WHERE folder_id = ? AND user_id = ?`,
-          [newParentId, userId]
-        ) as QueryResult;
+        // Check if new parent exists and the caller can edit it
+        const newParentAccess = await getFolderAccess(connection, userId, newParentId);
         
-        if ((newParentFolders as RowDataPacket[]).length === 0) {
+        if (!newParentAccess || !newParentAccess.role) {
           await connection.rollback();
           return { success: false, error: 'New parent folder not found' };
         }
         
+        if (!hasRole(newParentAccess.role, 'editor')) {
+          await connection.rollback();
+          return { success: false, error: 'You do not have permission to move folders into the destination' };
+        }
+        
+        // Folders can't be moved between different owners' trees
+        if (newParentAccess.folder.user_id !== ownerId) {
+          await connection.rollback();
+          return { success: false, error: 'Cannot move a folder into another user\'s folder tree' };
+        }
+        
         // Make sure new parent is not a descendant of the folder being moved
         const isDescendant = async (checkId: number, targetId: number): Promise<boolean> => {
           if (checkId === targetId) return true;
@@ -429,8 +622,8 @@ export const folderController = {
         // Check if a folder with the same name already exists in the new parent
         const [existingFolders] = await connection.query(
           `SELECT * FROM folders 
-           WHERE user_id = ? AND name = ? AND parent_folder_id = ?`,
-          [userId, folder.name, newParentId]
+           WHERE user_id = ? AND name = ? AND parent_folder_id = ? AND deleted_at IS NULL`,
+          [ownerId, folder.name, newParentId]
         ) as QueryResult;
         
         if ((existingFolders as RowDataPacket[]).length > 0) {
@@ -438,10 +631,16 @@ export const folderController = {
           return { success: false, error: 'A folder with this name already exists in the destination' };
         }
       } else {
+        // Only the owner of the tree can move folders to its top level
+        if (ownerId !== userId) {
+          await connection.rollback();
+          return { success: false, error: 'You do not have permission to move folders into the destination' };
+        }
+        
         // Check if a folder with the same name already exists in the root
         const [existingFolders] = await connection.query(
           `SELECT * FROM folders 
-           WHERE user_id = ? AND name = ? AND parent_folder_id IS NULL`,
+           WHERE user_id = ? AND name = ? AND parent_folder_id IS NULL AND deleted_at IS NULL`,
           [userId, folder.name]
         ) as QueryResult;
         
@@ -457,6 +656,15 @@ export const folderController = {
         [newParentId, folderId]
       );
       
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId,
+        action: 'folder.move',
+        folderId,
+        oldValue: { parent_folder_id: folder.parent_folder_id },
+        newValue: { parent_folder_id: newParentId }
+      }, client);
+      
       // Clear caches
       await cacheMiddleware.delete(`folder:${folderId}`);
       if (folder.parent_folder_id) {
@@ -467,12 +675,14 @@ export const folderController = {
         await cacheMiddleware.delete(`folder:${newParentId}:subfolders`);
         await cacheMiddleware.delete(`folder:${newParentId}:contents`);
       }
-      await cacheMiddleware.delete(`user:${userId}:folders`);
-      await cacheMiddleware.deleteByPattern(`user:${userId}:folder_tree*`);
+      await cacheMiddleware.delete(`user:${ownerId}:folders`);
+      await cacheMiddleware.deleteByPattern(`user:${ownerId}:folder_tree*`);
       
       // Commit transaction
       await connection.commit();
       
+      publishChange({ type: 'folder.moved', actorId: userId, folderId, fromFolderId: folder.parent_folder_id });
+      
       return { 
         success: true,
         folder: {
@@ -493,59 +703,325 @@ export const folderController = {
     }
   },
   
-  // Get folder content (both subfolders and files)
-  getFolderContents: async (userId: number, folderId: number | null) => {
+  // Copy a folder with all its subfolders and files into another folder, as one transaction.
+  // Copied files share the originals' stored content but count against the quota on their own.
+  copyFolder: async (
+    userId: number,
+    folderId: number,
+    newParentId: number | null,
+    newName?: string,
+    client?: AuditClient
+  ) => {
     const connection = await pool.getConnection();
+    const storedBlobs: StoredBlob[] = [];
     
     try {
-      const cacheKey = folderId 
-        ? `folder:${folderId}:contents`
-        : `user:${userId}:root:contents`;
+      // Start transaction
+      await connection.beginTransaction();
+      
+      // Get folder details and check the caller can view it
+      const access = await getFolderAccess(connection, userId, folderId);
+      
+      if (!access || !access.role) {
+        await connection.rollback();
+        return { success: false, error: 'Folder not found' };
+      }
+      
+      const folder = access.folder;
+      const name = newName || folder.name;
+      
+      // Copies belong to the owner of the destination folder tree
+      let ownerId = userId;
+      if (newParentId) {
+        // Check if the destination exists and the caller can edit it
+        const newParentAccess = await getFolderAccess(connection, userId, newParentId);
         
-      // Check cache first
-      const cachedContents = await cacheMiddleware.get(cacheKey);
-      if (cachedContents) {
-        return { success: true, contents: cachedContents };
+        if (!newParentAccess || !newParentAccess.role) {
+          await connection.rollback();
+          return { success: false, error: 'Destination folder not found' };
+        }
+        
+        if (!hasRole(newParentAccess.role, 'editor')) {
+          await connection.rollback();
+          return { success: false, error: 'You do not have permission to add folders to the destination' };
+        }
+        
+        // A folder can't be copied into itself or one of its subfolders
+        if (await isFolderInSubtree(connection, newParentId, folderId)) {
+          await connection.rollback();
+          return { success: false, error: 'Cannot copy a folder into itself or one of its subfolders' };
+        }
+        
+        ownerId = newParentAccess.folder.user_id;
       }
       
-      // Get subfolders
-      const subfoldersResult = await folderController.getSubfolders(userId, folderId);
-      const subfolders = subfoldersResult.success ? subfoldersResult.subfolders : [];
+      // Check if a folder with the same name already exists in the destination
+      const [existingFolders] = await connection.query(
+        `SELECT folder_id FROM folders 
+         WHERE user_id = ? AND name = ? AND parent_folder_id <=> ? AND deleted_at IS NULL`,
+        [ownerId, name, newParentId]
+      ) as QueryResult;
       
-      // Get files
-      const filesResult = await fileController.getFilesInFolder(userId, folderId);
-      const files = filesResult.success ? filesResult.files : [];
+      if ((existingFolders as RowDataPacket[]).length > 0) {
+        await connection.rollback();
+        return { success: false, error: 'A folder with this name already exists in the destination' };
+      }
       
-      // Prepare subfolders in the format expected by frontend
-      const formattedSubfolders = subfolders.map((folder: any) => ({
-        id: folder.id,
-        name: folder.name,
-        level: folder.parent_folder_id ? 1 : 0, // Simple level mapping
-        nodeId: folder.id.toString(), // For TreeView
-        sub_classifications: [] // Will be populated by frontend recursively
-      }));
+      // Get the active folders of the subtree, parents before their children
+      const subtreeFolders = await getSubtreeFolders(connection, folderId);
       
-      // Prepare files in the format expected by frontend
-      const formattedFiles = files.map((file: any) => ({
-        id: file.id,
-        name: file.name,
-        file_name: file.name, // For frontend compatibility
-        level: folderId ? 1 : 0, // Simple level mapping
-        nodeId: `file-${file.id}`, // For TreeView
-        size: file.size,
-        mime_type: file.mime_type
-      }));
+      const [subtreeFiles] = await connection.query(
+        `SELECT * FROM files WHERE folder_id IN (?) AND deleted_at IS NULL`,
+        [subtreeFolders.map(subfolder => subfolder.folder_id)]
+      ) as [RowDataPacket[], any];
+      
+      // Count the copied files against the owner's quota
+      const totalSize = subtreeFiles.reduce((sum, file) => sum + Number(file.size), 0);
+      
+      if (!(await reserveStorage(connection, ownerId, totalSize))) {
+        await connection.rollback();
+        return { success: false, error: 'Storage quota exceeded', code: QUOTA_EXCEEDED };
+      }
+      
+      // Recreate the folders, mapping each original folder to its copy
+      const copiedFolderIds = new Map<number, number>();
+      for (const subfolder of subtreeFolders) {
+        const parentId = subfolder.folder_id === folderId
+          ? newParentId
+          : copiedFolderIds.get(subfolder.parent_folder_id);
+        
+        // Copies keep the metadata schema of their original
+        const [result] = await connection.query(
+          `INSERT INTO folders (user_id, parent_folder_id, name, metadata_schema)
+           SELECT ?, ?, ?, metadata_schema FROM folders WHERE folder_id = ?`,
+          [ownerId, parentId, subfolder.folder_id === folderId ? name : subfolder.name, subfolder.folder_id]
+        ) as QueryResult;
+        
+        copiedFolderIds.set(subfolder.folder_id, (result as OkPacket).insertId);
+      }
+      
+      // Copy the files, referencing their blobs; files stored before content addressing
+      // own their blob outright, so their content is stored again as a shared blob
+      const copiedFiles: { id: number; filePath: string; mimeType: string | null }[] = [];
+      for (const file of subtreeFiles) {
+        let blob: StoredBlob;
+        if (file.checksum) {
+          await addBlobReference(connection, file.checksum, Number(file.size));
+          blob = { hash: file.checksum, size: Number(file.size), filePath: file.file_path };
+        } else {
+          const content = await getFile(file.file_path);
+          blob = await storeBlob(connection, Buffer.from(await content.arrayBuffer()));
+          storedBlobs.push(blob);
+        }
+        
+        const [result] = await connection.query(
+          `INSERT INTO files (user_id, folder_id, name, file_path, checksum, mime_type, size)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [ownerId, copiedFolderIds.get(file.folder_id), file.name, blob.filePath, blob.hash, file.mime_type, blob.size]
+        ) as QueryResult;
+        
+        const copiedFileId = (result as OkPacket).insertId;
+        await copyCustomMetadata(connection, file.file_id, copiedFileId);
+        
+        copiedFiles.push({ id: copiedFileId, filePath: blob.filePath, mimeType: file.mime_type });
+      }
+      
+      // Recorded against the original, so its history shows where copies went
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: folder.user_id,
+        action: 'folder.copy',
+        folderId,
+        newValue: {
+          folder_id: copiedFolderIds.get(folderId),
+          parent_folder_id: newParentId,
+          name,
+          copied_folders: copiedFolderIds.size,
+          copied_files: copiedFiles.length
+        }
+      }, client);
+      
+      // Clear caches
+      if (newParentId) {
+        await cacheMiddleware.delete(`folder:${newParentId}:subfolders`);
+        await cacheMiddleware.delete(`folder:${newParentId}:contents`);
+      }
+      await cacheMiddleware.delete(`user:${ownerId}:folders`);
+      await cacheMiddleware.deleteByPattern(`user:${ownerId}:folder_tree*`);
+      
+      // Commit transaction
+      await connection.commit();
+      
+      for (const file of copiedFiles) {
+        queueThumbnails(file.filePath, file.mimeType);
+        queueContentIndexing(file.id);
+      }
+      
+      const copyId = copiedFolderIds.get(folderId) as number;
+      publishChange({ type: 'folder.created', actorId: userId, folderId: copyId });
+      
+      const [folders] = await connection.query(
+        `SELECT * FROM folders WHERE folder_id = ?`,
+        [copyId]
+      ) as [RowDataPacket[], any];
+      
+      return {
+        success: true,
+        folder: {
+          id: copyId,
+          name: folders[0].name,
+          parent_folder_id: folders[0].parent_folder_id,
+          created_at: folders[0].created_at,
+          updated_at: folders[0].updated_at
+        },
+        copied_folders: copiedFolderIds.size,
+        copied_files: copiedFiles.length
+      };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      
+      // Remove blobs that were only written for this copy
+      await removeUnreferencedBlobs(storedBlobs.map(blob => ({ checksum: blob.hash, file_path: blob.filePath })));
       
-      // Combine subfolders and files
-      const contents = [
-        ...formattedSubfolders,
-        ...formattedFiles
-      ];
+      console.error('Error copying folder:', error);
+      return { success: false, error: 'Failed to copy folder' };
+    } finally {
+      connection.release();
+    }
+  },
+  
+  // Get one page of a folder's contents (subfolders first, then files)
+  // The caller's tags are included unless includeTags is false (e.g. for public share links)
+  getFolderContents: async (
+    userId: number,
+    folderId: number | null,
+    options: FolderContentsOptions,
+    includeTags = true
+  ) => {
+    const connection = await pool.getConnection();
+    
+    try {
+      // Check the caller can view the folder; its contents are listed as its owner sees them
+      let ownerId = userId;
+      let permission = 'owner';
+      if (folderId) {
+        const access = await getFolderAccess(connection, userId, folderId);
+        
+        if (!access || !access.role) {
+          return { success: false, error: 'Folder not found' };
+        }
+        
+        ownerId = access.folder.user_id;
+        permission = access.role;
+      }
       
-      // Cache contents
-      await cacheMiddleware.set(cacheKey, contents);
+      // Pages are cached under the folder's current cache generation, so deleting the
+      // generation key (as every change to the folder does) invalidates all of its pages
+      const generationKey = folderId 
+        ? `folder:${folderId}:contents`
+        : `user:${userId}:root:contents`;
+      const generation = await getContentsCacheGeneration(generationKey);
+      const cacheKey = `${generationKey}:${generation}:${options.sort}:${options.order}:${options.offset}:${options.limit}`;
+        
+      // Check cache first
+      const cachedPage = await cacheMiddleware.get(cacheKey);
+      if (cachedPage) {
+        return {
+          success: true,
+          ...cachedPage,
+          contents: includeTags ? await addContentsTags(connection, userId, cachedPage.contents) : cachedPage.contents,
+          permission
+        };
+      }
       
-      return { success: true, contents };
+      const parentCondition = folderId ? '= ?' : 'IS NULL';
+      const params = folderId ? [ownerId, folderId] : [ownerId];
+      
+      // Count subfolders and files
+      const [[counts]] = await connection.query(
+        `SELECT
+           (SELECT COUNT(*) FROM folders
+            WHERE user_id = ? AND parent_folder_id ${parentCondition} AND deleted_at IS NULL) AS total_folders,
+           (SELECT COUNT(*) FROM files
+            WHERE user_id = ? AND folder_id ${parentCondition} AND deleted_at IS NULL) AS total_files`,
+        [...params, ...params]
+      ) as [RowDataPacket[], any];
+      
+      // Get the page: subfolders always come before files, and the ID breaks ties
+      // so pages don't overlap when sort values are equal
+      const direction = options.order === 'desc' ? 'DESC' : 'ASC';
+      const sortColumns = options.sort === 'type'
+        ? [`entries.mime_type ${direction}`, `entries.name ${direction}`]
+        : [`entries.${options.sort} ${direction}`];
+      
+      const [entries] = await connection.query(
+        `SELECT * FROM (
+           SELECT 'folder' AS kind, 0 AS kind_order, folder_id AS id, name, 0 AS size, NULL AS mime_type,
+                  parent_folder_id, created_at, updated_at
+           FROM folders
+           WHERE user_id = ? AND parent_folder_id ${parentCondition} AND deleted_at IS NULL
+           UNION ALL
+           SELECT 'file', 1, file_id, name, size, mime_type, folder_id, created_at, updated_at
+           FROM files
+           WHERE user_id = ? AND folder_id ${parentCondition} AND deleted_at IS NULL
+         ) AS entries
+         ORDER BY entries.kind_order ASC, ${sortColumns.join(', ')}, entries.id ${direction}
+         LIMIT ? OFFSET ?`,
+        // MySQL has no OFFSET without LIMIT, so listings without a limit use the largest one
+        [...params, ...params, options.limit ?? Number.MAX_SAFE_INTEGER, options.offset]
+      ) as [RowDataPacket[], any];
+      
+      // Prepare entries in the format expected by frontend
+      const contents = entries.map((entry: RowDataPacket): FolderContentsEntry => entry.kind === 'folder'
+        ? {
+            id: entry.id,
+            name: entry.name,
+            type: 'folder',
+            level: entry.parent_folder_id ? 1 : 0, // Simple level mapping
+            nodeId: entry.id.toString(), // For TreeView
+            sub_classifications: [], // Will be populated by frontend recursively
+            created_at: entry.created_at,
+            updated_at: entry.updated_at
+          }
+        : {
+            id: entry.id,
+            name: entry.name,
+            file_name: entry.name, // For frontend compatibility
+            type: 'file',
+            level: folderId ? 1 : 0, // Simple level mapping
+            nodeId: `file-${entry.id}`, // For TreeView
+            size: entry.size,
+            mime_type: entry.mime_type,
+            created_at: entry.created_at,
+            updated_at: entry.updated_at
+          });
+      
+      const totalFolders = Number(counts.total_folders);
+      const totalFiles = Number(counts.total_files);
+      
+      const page = {
+        contents,
+        pagination: {
+          offset: options.offset,
+          limit: options.limit,
+          total: totalFolders + totalFiles,
+          total_folders: totalFolders,
+          total_files: totalFiles,
+          sort: options.sort,
+          order: options.order
+        }
+      };
+      
+      // Cache the page; tags are the caller's own, so they are added afterwards
+      await cacheMiddleware.set(cacheKey, page);
+      
+      return {
+        success: true,
+        ...page,
+        contents: includeTags ? await addContentsTags(connection, userId, contents) : contents,
+        permission
+      };
     } catch (error) {
       console.error('Error getting folder contents:', error);
       return { success: false, error: 'Failed to get folder contents' };
@@ -554,62 +1030,101 @@ export const folderController = {
     }
   },
   
+  // Get folders shared with the user (the "Shared with me" virtual root)
+  getSharedWithMe: async (userId: number) => {
+    const connection = await pool.getConnection();
+    
+    try {
+      const sharedFolders = await getSharedRootFolders(connection, userId);
+      
+      const contents = [];
+      for (const folder of sharedFolders) {
+        const access = await getFolderAccess(connection, userId, folder.folder_id);
+        
+        contents.push({
+          id: folder.folder_id,
+          name: folder.name,
+          level: 1,
+          nodeId: folder.folder_id.toString(), // For TreeView
+          sub_classifications: [], // Will be populated by frontend recursively
+          owner_id: folder.user_id,
+          owner_username: folder.owner_username,
+          permission: access?.role
+        });
+      }
+      
+      return { success: true, contents, permission: 'viewer' };
+    } catch (error) {
+      console.error('Error getting shared folders:', error);
+      return { success: false, error: 'Failed to get shared folders' };
+    } finally {
+      connection.release();
+    }
+  },
+  
   // Get folder tree for sidebar
   getFolderTree: async (userId: number) => {
     const connection = await pool.getConnection();
     
     try {
       const cacheKey = `user:${userId}:folder_tree`;
-        
+      
       // Check cache first
-      const cachedTree = await cacheMiddleware.get(cacheKey);
-      if (cachedTree) {
-        return { success: true, tree: cachedTree };
+      let tree: FolderTreeNode[] | null = await cacheMiddleware.get(cacheKey);
+      
+      if (!tree) {
+        // Get all folders for the user
+        const [folders] = await connection.query(
+          `SELECT * FROM folders WHERE user_id = ? AND deleted_at IS NULL ORDER BY name ASC`,
+          [userId]
+        ) as QueryResult;
+        
+        // Build tree starting from root folders
+        tree = buildFolderTree(folders as RowDataPacket[], null);
+        
+        // Cache the tree
+        await cacheMiddleware.set(cacheKey, tree);
       }
       
-      // Get all folders for the user
-      const [folders] = await connection.query(
-        `SELECT * FROM folders WHERE user_id = ? ORDER BY name ASC`,
-        [userId]
-      ) as QueryResult;
+      // Shared folders are owned by other users, so they are not part of the cached tree
+      const sharedFolders = await getSharedRootFolders(connection, userId);
+      const sharedNodes: FolderTreeNode[] = [];
+      
+      for (const sharedFolder of sharedFolders) {
+        const [descendants] = await connection.query(
+          `WITH RECURSIVE descendants AS (
+             SELECT * FROM folders WHERE parent_folder_id = ? AND deleted_at IS NULL
+             UNION ALL
+             SELECT f.* FROM folders f
+             JOIN descendants d ON f.parent_folder_id = d.folder_id
+             WHERE f.deleted_at IS NULL
+           )
+           SELECT * FROM descendants ORDER BY name ASC`,
+          [sharedFolder.folder_id]
+        ) as QueryResult;
+        
+        sharedNodes.push({
+          id: sharedFolder.folder_id,
+          name: sharedFolder.name,
+          level: 1,
+          nodeId: sharedFolder.folder_id.toString(),
+          sub_classifications: buildFolderTree(descendants as RowDataPacket[], sharedFolder.folder_id, 2)
+        });
+      }
       
-      // Define folder tree node interface
-      interface FolderTreeNode {
-        id: number;
-        name: string;
-        level: number;
-        nodeId: string;
-        sub_classifications: FolderTreeNode[];
-      }
-      
-      // Build the tree recursively with explicit return type
-      const buildTree = (parentId: number | null): FolderTreeNode[] => {
-        const nodes: FolderTreeNode[] = (folders as RowDataPacket[])
-          .filter((folder: RowDataPacket) => 
-            (parentId === null && folder.parent_folder_id === null) || 
-            folder.parent_folder_id === parentId
-          )
-          .map((folder: RowDataPacket) => {
-            const children: FolderTreeNode[] = buildTree(folder.folder_id);
-            return {
-              id: folder.folder_id,
-              name: folder.name,
-              level: parentId === null ? 0 : 1, // Simple level mapping
-              nodeId: folder.folder_id.toString(), // For TreeView
-              sub_classifications: children
-            };
-          });
-          
-        return nodes;
+      return {
+        success: true,
+        tree: [
+          ...tree,
+          {
+            id: SHARED_ROOT_ID,
+            name: 'Shared with me',
+            level: 0,
+            nodeId: SHARED_ROOT_ID,
+            sub_classifications: sharedNodes
+          }
+        ]
       };
-      
-      // Build tree starting from root folders
-      const tree = buildTree(null);
-      
-      // Cache the tree
-      await cacheMiddleware.set(cacheKey, tree);
-      
-      return { success: true, tree };
     } catch (error) {
       console.error('Error getting folder tree:', error);
       return { success: false, error: 'Failed to get folder tree' };
@@ -626,7 +1141,7 @@ export const folderController = {
       // Search folders by name
       const [folders] = await connection.query(
         `SELECT * FROM folders 
-         WHERE user_id = ? AND name LIKE ?
+         WHERE user_id = ? AND name LIKE ? AND deleted_at IS NULL
          ORDER BY name ASC`,
         [userId, `%${searchTerm}%`]
       ) as QueryResult;
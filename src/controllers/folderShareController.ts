@@ -0,0 +1,214 @@
+// src/controllers/folderShareController.ts
+import pool from '../config/database';
+import { getFolderAccess, hasRole } from '../services/folderAccess';
+import { recordAuditEvent } from '../services/auditLog';
+import { FolderRole, FolderShare } from '../types/shareTypes';
+import { AuditClient } from '../types/auditTypes';
+import { RowDataPacket } from 'mysql2';
+
+// Map a folder_shares row (joined with users and user_groups) to the public share shape
+const formatShare = (share: RowDataPacket): FolderShare => ({
+  id: share.share_id,
+  folder_id: share.folder_id,
+  role: share.role,
+  user_id: share.grantee_user_id,
+  username: share.username,
+  group_id: share.grantee_group_id,
+  group_name: share.group_name,
+  created_at: share.created_at
+});
+
+export const folderShareController = {
+  // Share a folder with another user or a group
+  shareFolder: async (
+    userId: number,
+    folderId: number,
+    grantee: { username?: string; groupId?: number },
+    role: FolderRole,
+    client?: AuditClient
+  ) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Only owners can manage shares
+      const access = await getFolderAccess(connection, userId, folderId);
+
+      if (!access || !access.role) {
+        return { success: false, error: 'Folder not found' };
+      }
+
+      if (!hasRole(access.role, 'owner')) {
+        return { success: false, error: 'You do not have permission to share this folder' };
+      }
+
+      let granteeUserId: number | null = null;
+      let granteeGroupId: number | null = null;
+
+      if (grantee.username) {
+        // Resolve the grantee user
+        const [users] = await connection.query(
+          `SELECT user_id FROM users WHERE username = ?`,
+          [grantee.username]
+        ) as [RowDataPacket[], any];
+
+        if (users.length === 0) {
+          return { success: false, error: 'User not found' };
+        }
+
+        granteeUserId = users[0].user_id;
+
+        if (granteeUserId === access.folder.user_id) {
+          return { success: false, error: 'Cannot share a folder with its owner' };
+        }
+      } else if (grantee.groupId) {
+        // The caller must own or belong to the group
+        const [groups] = await connection.query(
+          `SELECT g.group_id FROM user_groups g
+           LEFT JOIN user_group_members m ON m.group_id = g.group_id AND m.user_id = ?
+           WHERE g.group_id = ? AND (g.owner_id = ? OR m.user_id IS NOT NULL)`,
+          [userId, grantee.groupId, userId]
+        ) as [RowDataPacket[], any];
+
+        if (groups.length === 0) {
+          return { success: false, error: 'Group not found' };
+        }
+
+        granteeGroupId = groups[0].group_id;
+      } else {
+        return { success: false, error: 'A username or group ID is required' };
+      }
+
+      // Start transaction
+      await connection.beginTransaction();
+
+      // Create the share, or update the role of an existing one
+      await connection.query(
+        `INSERT INTO folder_shares (folder_id, grantee_user_id, grantee_group_id, role, created_by)
+         VALUES (?, ?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE role = VALUES(role)`,
+        [folderId, granteeUserId, granteeGroupId, role, userId]
+      );
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: access.folder.user_id,
+        action: 'folder.share',
+        folderId,
+        newValue: { user_id: granteeUserId, group_id: granteeGroupId, role }
+      }, client);
+
+      // Commit transaction
+      await connection.commit();
+
+      const [shares] = await connection.query(
+        `SELECT fs.*, u.username, g.name AS group_name
+         FROM folder_shares fs
+         LEFT JOIN users u ON u.user_id = fs.grantee_user_id
+         LEFT JOIN user_groups g ON g.group_id = fs.grantee_group_id
+         WHERE fs.folder_id = ? AND ${granteeUserId ? 'fs.grantee_user_id = ?' : 'fs.grantee_group_id = ?'}`,
+        [folderId, granteeUserId || granteeGroupId]
+      ) as [RowDataPacket[], any];
+
+      return { success: true, share: formatShare(shares[0]) };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error sharing folder:', error);
+      return { success: false, error: 'Failed to share folder' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // List the shares granted on a folder
+  getFolderShares: async (userId: number, folderId: number) => {
+    const connection = await pool.getConnection();
+
+    try {
+      const access = await getFolderAccess(connection, userId, folderId);
+
+      if (!access || !access.role) {
+        return { success: false, error: 'Folder not found' };
+      }
+
+      if (!hasRole(access.role, 'owner')) {
+        return { success: false, error: 'You do not have permission to view shares of this folder' };
+      }
+
+      const [shares] = await connection.query(
+        `SELECT fs.*, u.username, g.name AS group_name
+         FROM folder_shares fs
+         LEFT JOIN users u ON u.user_id = fs.grantee_user_id
+         LEFT JOIN user_groups g ON g.group_id = fs.grantee_group_id
+         WHERE fs.folder_id = ?
+         ORDER BY fs.created_at ASC`,
+        [folderId]
+      ) as [RowDataPacket[], any];
+
+      return { success: true, shares: shares.map(formatShare) };
+    } catch (error) {
+      console.error('Error getting folder shares:', error);
+      return { success: false, error: 'Failed to get folder shares' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Remove a share from a folder
+  removeShare: async (userId: number, folderId: number, shareId: number, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+
+    try {
+      const access = await getFolderAccess(connection, userId, folderId);
+
+      if (!access || !access.role) {
+        return { success: false, error: 'Folder not found' };
+      }
+
+      if (!hasRole(access.role, 'owner')) {
+        return { success: false, error: 'You do not have permission to manage shares of this folder' };
+      }
+
+      const [shares] = await connection.query(
+        `SELECT * FROM folder_shares WHERE share_id = ? AND folder_id = ?`,
+        [shareId, folderId]
+      ) as [RowDataPacket[], any];
+
+      if (shares.length === 0) {
+        return { success: false, error: 'Share not found' };
+      }
+
+      const share = shares[0];
+
+      // Start transaction
+      await connection.beginTransaction();
+
+      await connection.query(
+        `DELETE FROM folder_shares WHERE share_id = ?`,
+        [shareId]
+      );
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: access.folder.user_id,
+        action: 'folder.unshare',
+        folderId,
+        oldValue: { user_id: share.grantee_user_id, group_id: share.grantee_group_id, role: share.role }
+      }, client);
+
+      // Commit transaction
+      await connection.commit();
+
+      return { success: true };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error removing folder share:', error);
+      return { success: false, error: 'Failed to remove folder share' };
+    } finally {
+      connection.release();
+    }
+  }
+};
+
+export default folderShareController;
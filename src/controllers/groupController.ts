@@ -0,0 +1,283 @@
+// src/controllers/groupController.ts
+import pool from '../config/database';
+import { UserGroup } from '../types/shareTypes';
+import { RowDataPacket, OkPacket } from 'mysql2';
+import { recordAuditEvent } from '../services/auditLog';
+import { AuditClient } from '../types/auditTypes';
+
+// Define types for MySQL results
+type QueryResult = [RowDataPacket[] | RowDataPacket[][] | OkPacket | OkPacket[], any];
+
+// Map a user_groups row to the public group shape
+const formatGroup = (group: RowDataPacket): UserGroup => ({
+  id: group.group_id,
+  name: group.name,
+  owner_id: group.owner_id,
+  member_count: Number(group.member_count || 0),
+  created_at: group.created_at
+});
+
+export const groupController = {
+  // Create a group owned by the user
+  createGroup: async (userId: number, name: string, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Check if the user already has a group with this name
+      const [existingGroups] = await connection.query(
+        `SELECT group_id FROM user_groups WHERE owner_id = ? AND name = ?`,
+        [userId, name]
+      ) as [RowDataPacket[], any];
+
+      if (existingGroups.length > 0) {
+        return { success: false, error: 'A group with this name already exists' };
+      }
+
+      // Start transaction
+      await connection.beginTransaction();
+
+      const [result] = await connection.query(
+        `INSERT INTO user_groups (owner_id, name) VALUES (?, ?)`,
+        [userId, name]
+      ) as QueryResult;
+
+      const groupId = (result as OkPacket).insertId;
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: userId,
+        action: 'group.create',
+        newValue: { group_id: groupId, name }
+      }, client);
+
+      // Commit transaction
+      await connection.commit();
+
+      return {
+        success: true,
+        group: { id: groupId, name, owner_id: userId, member_count: 0, created_at: new Date() }
+      };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error creating group:', error);
+      return { success: false, error: 'Failed to create group' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // List groups the user owns or belongs to
+  getGroups: async (userId: number) => {
+    const connection = await pool.getConnection();
+
+    try {
+      const [groups] = await connection.query(
+        `SELECT g.*, (SELECT COUNT(*) FROM user_group_members m WHERE m.group_id = g.group_id) AS member_count
+         FROM user_groups g
+         WHERE g.owner_id = ?
+         OR g.group_id IN (SELECT group_id FROM user_group_members WHERE user_id = ?)
+         ORDER BY g.name ASC`,
+        [userId, userId]
+      ) as [RowDataPacket[], any];
+
+      return { success: true, groups: groups.map(formatGroup) };
+    } catch (error) {
+      console.error('Error getting groups:', error);
+      return { success: false, error: 'Failed to get groups' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // List the members of a group
+  getGroupMembers: async (userId: number, groupId: number) => {
+    const connection = await pool.getConnection();
+
+    try {
+      const [groups] = await connection.query(
+        `SELECT g.group_id FROM user_groups g
+         WHERE g.group_id = ?
+         AND (g.owner_id = ? OR g.group_id IN (SELECT group_id FROM user_group_members WHERE user_id = ?))`,
+        [groupId, userId, userId]
+      ) as [RowDataPacket[], any];
+
+      if (groups.length === 0) {
+        return { success: false, error: 'Group not found' };
+      }
+
+      const [members] = await connection.query(
+        `SELECT u.user_id, u.username, m.added_at
+         FROM user_group_members m
+         JOIN users u ON u.user_id = m.user_id
+         WHERE m.group_id = ?
+         ORDER BY u.username ASC`,
+        [groupId]
+      ) as [RowDataPacket[], any];
+
+      return {
+        success: true,
+        members: members.map((member: RowDataPacket) => ({
+          id: member.user_id,
+          username: member.username,
+          added_at: member.added_at
+        }))
+      };
+    } catch (error) {
+      console.error('Error getting group members:', error);
+      return { success: false, error: 'Failed to get group members' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Add a user to a group
+  addMember: async (userId: number, groupId: number, username: string, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Only the group owner can manage members
+      const [groups] = await connection.query(
+        `SELECT group_id FROM user_groups WHERE group_id = ? AND owner_id = ?`,
+        [groupId, userId]
+      ) as [RowDataPacket[], any];
+
+      if (groups.length === 0) {
+        return { success: false, error: 'Group not found' };
+      }
+
+      const [users] = await connection.query(
+        `SELECT user_id, username FROM users WHERE username = ?`,
+        [username]
+      ) as [RowDataPacket[], any];
+
+      if (users.length === 0) {
+        return { success: false, error: 'User not found' };
+      }
+
+      // Start transaction
+      await connection.beginTransaction();
+
+      const [result] = await connection.query(
+        `INSERT IGNORE INTO user_group_members (group_id, user_id) VALUES (?, ?)`,
+        [groupId, users[0].user_id]
+      ) as QueryResult;
+
+      // Adding an existing member changes nothing and isn't recorded
+      if ((result as OkPacket).affectedRows > 0) {
+        await recordAuditEvent(connection, {
+          actorId: userId,
+          ownerId: userId,
+          action: 'group.member_add',
+          newValue: { group_id: groupId, user_id: users[0].user_id, username: users[0].username }
+        }, client);
+      }
+
+      // Commit transaction
+      await connection.commit();
+
+      return { success: true, member: { id: users[0].user_id, username: users[0].username } };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error adding group member:', error);
+      return { success: false, error: 'Failed to add group member' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Remove a user from a group
+  removeMember: async (userId: number, groupId: number, memberId: number, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+
+    try {
+      const [groups] = await connection.query(
+        `SELECT group_id FROM user_groups WHERE group_id = ? AND owner_id = ?`,
+        [groupId, userId]
+      ) as [RowDataPacket[], any];
+
+      if (groups.length === 0) {
+        return { success: false, error: 'Group not found' };
+      }
+
+      // Start transaction
+      await connection.beginTransaction();
+
+      const [result] = await connection.query(
+        `DELETE FROM user_group_members WHERE group_id = ? AND user_id = ?`,
+        [groupId, memberId]
+      ) as QueryResult;
+
+      if ((result as OkPacket).affectedRows === 0) {
+        await connection.rollback();
+        return { success: false, error: 'Member not found' };
+      }
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: userId,
+        action: 'group.member_remove',
+        oldValue: { group_id: groupId, user_id: memberId }
+      }, client);
+
+      // Commit transaction
+      await connection.commit();
+
+      return { success: true };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error removing group member:', error);
+      return { success: false, error: 'Failed to remove group member' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Delete a group (its folder shares are removed with it)
+  deleteGroup: async (userId: number, groupId: number, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Start transaction
+      await connection.beginTransaction();
+
+      const [groups] = await connection.query(
+        `SELECT name FROM user_groups WHERE group_id = ? AND owner_id = ? FOR UPDATE`,
+        [groupId, userId]
+      ) as [RowDataPacket[], any];
+
+      if (groups.length === 0) {
+        await connection.rollback();
+        return { success: false, error: 'Group not found' };
+      }
+
+      await connection.query(
+        `DELETE FROM user_groups WHERE group_id = ?`,
+        [groupId]
+      );
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: userId,
+        action: 'group.delete',
+        oldValue: { group_id: groupId, name: groups[0].name }
+      }, client);
+
+      // Commit transaction
+      await connection.commit();
+
+      return { success: true };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error deleting group:', error);
+      return { success: false, error: 'Failed to delete group' };
+    } finally {
+      connection.release();
+    }
+  }
+};
+
+export default groupController;
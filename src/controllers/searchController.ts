@@ -0,0 +1,311 @@
+// src/controllers/searchController.ts
+import pool from '../config/database';
+import { getFolderAccess, getFolderPaths, getSharedFolderIds, hasRole } from '../services/folderAccess';
+import { SearchCursor, SearchFilters } from '../types/searchTypes';
+import {
+  buildSnippet,
+  getSnippetWord,
+  SNIPPET_EXCERPT_LEAD,
+  SNIPPET_EXCERPT_LENGTH
+} from '../utils/searchSnippet';
+import { RowDataPacket } from 'mysql2';
+
+// A value bound to a search query placeholder; lists of folder IDs fill `IN (?)`
+type SearchQueryValue = string | number | Date | null | (number | null)[];
+
+// Escape the wildcard characters of a LIKE pattern
+const escapeLike = (value: string): string => {
+  return value.replace(/[\\%_]/g, '\\$&');
+};
+
+/**
+ * Encode the position after a search result as an opaque cursor
+ * @param hit The last result of a page
+ * @param sort The field the results are sorted by
+ */
+export const encodeSearchCursor = (hit: RowDataPacket, sort: SearchFilters['sort']): string => {
+  const value = hit[sort] instanceof Date ? hit[sort].toISOString() : hit[sort];
+  return Buffer.from(JSON.stringify({ value, kind: hit.kind, id: hit.id })).toString('base64url');
+};
+
+/**
+ * Decode a cursor created by encodeSearchCursor
+ * @returns The cursor, or null if it is malformed
+ */
+export const decodeSearchCursor = (cursor: string): SearchCursor | null => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+
+    if (
+      (typeof decoded.value !== 'string' && typeof decoded.value !== 'number') ||
+      (decoded.kind !== 'file' && decoded.kind !== 'folder') ||
+      !Number.isInteger(decoded.id)
+    ) {
+      return null;
+    }
+
+    return { value: decoded.value, kind: decoded.kind, id: decoded.id };
+  } catch {
+    return null;
+  }
+};
+
+export const searchController = {
+  // Search files and folders the user can view by name and metadata, one page at a time
+  search: async (userId: number, filters: SearchFilters) => {
+    const connection = await pool.getConnection();
+
+    try {
+      const sharedFolderIds = await getSharedFolderIds(connection, userId);
+
+      const fileConditions = ['f.deleted_at IS NULL'];
+      const fileValues: SearchQueryValue[] = [];
+      const folderConditions = ['fo.deleted_at IS NULL'];
+      const folderValues: SearchQueryValue[] = [];
+
+      if (filters.folderId !== undefined) {
+        // Scope to a folder subtree the user can view
+        const access = await getFolderAccess(connection, userId, filters.folderId);
+
+        if (!access || !hasRole(access.role, 'viewer')) {
+          return { success: false, error: 'Folder not found' };
+        }
+
+        const [subtree] = await connection.query(
+          `WITH RECURSIVE subtree AS (
+             SELECT folder_id FROM folders WHERE folder_id = ?
+             UNION ALL
+             SELECT f.folder_id FROM folders f
+             JOIN subtree s ON f.parent_folder_id = s.folder_id
+             WHERE f.deleted_at IS NULL
+           )
+           SELECT folder_id FROM subtree`,
+          [filters.folderId]
+        ) as [RowDataPacket[], any];
+
+        const subtreeIds: number[] = subtree.map((folder: RowDataPacket) => folder.folder_id);
+
+        fileConditions.push('f.folder_id IN (?)');
+        fileValues.push(subtreeIds);
+        folderConditions.push('fo.parent_folder_id IN (?)');
+        folderValues.push(subtreeIds);
+      } else {
+        // The user's own items and everything in folders shared with them
+        const sharedIds = sharedFolderIds.length > 0 ? sharedFolderIds : [null];
+
+        fileConditions.push('(f.user_id = ? OR f.folder_id IN (?))');
+        fileValues.push(userId, sharedIds);
+        folderConditions.push('(fo.user_id = ? OR fo.folder_id IN (?))');
+        folderValues.push(userId, sharedIds);
+      }
+
+      if (filters.query) {
+        fileConditions.push('f.name LIKE ?');
+        fileValues.push(`%${escapeLike(filters.query)}%`);
+        folderConditions.push('fo.name LIKE ?');
+        folderValues.push(`%${escapeLike(filters.query)}%`);
+      }
+
+      // Filters on file properties leave folders out
+      if (filters.mimeType) {
+        const mimeType = filters.mimeType.replace(/\*$/, '');
+        fileConditions.push(mimeType.endsWith('/') ? 'f.mime_type LIKE ?' : 'f.mime_type = ?');
+        fileValues.push(mimeType.endsWith('/') ? `${escapeLike(mimeType)}%` : mimeType);
+      }
+
+      if (filters.extension) {
+        fileConditions.push('f.name LIKE ?');
+        fileValues.push(`%.${escapeLike(filters.extension.replace(/^\./, ''))}`);
+      }
+
+      if (filters.minSize !== undefined) {
+        fileConditions.push('f.size >= ?');
+        fileValues.push(filters.minSize);
+      }
+
+      if (filters.maxSize !== undefined) {
+        fileConditions.push('f.size <= ?');
+        fileValues.push(filters.maxSize);
+      }
+
+      const fileOnly = !!filters.mimeType || !!filters.extension ||
+        filters.minSize !== undefined || filters.maxSize !== undefined;
+
+      // Date ranges apply to both files and folders
+      const dateFilters: [Date | undefined, string][] = [
+        [filters.createdAfter, 'created_at >= ?'],
+        [filters.createdBefore, 'created_at <= ?'],
+        [filters.updatedAfter, 'updated_at >= ?'],
+        [filters.updatedBefore, 'updated_at <= ?']
+      ];
+
+      for (const [date, condition] of dateFilters) {
+        if (date) {
+          fileConditions.push(`f.${condition}`);
+          fileValues.push(date);
+          folderConditions.push(`fo.${condition}`);
+          folderValues.push(date);
+        }
+      }
+
+      const selects: string[] = [];
+      const values: SearchQueryValue[] = [];
+
+      if (filters.type !== 'folder') {
+        selects.push(
+          `SELECT 'file' AS kind, f.file_id AS id, f.name, f.size, f.mime_type, f.folder_id AS parent_id,
+             f.checksum, f.created_at, f.updated_at
+           FROM files f WHERE ${fileConditions.join(' AND ')}`
+        );
+        values.push(...fileValues);
+      }
+
+      if (filters.type !== 'file' && !fileOnly) {
+        selects.push(
+          `SELECT 'folder' AS kind, fo.folder_id AS id, fo.name, 0 AS size, NULL AS mime_type,
+             fo.parent_folder_id AS parent_id, NULL AS checksum, fo.created_at, fo.updated_at
+           FROM folders fo WHERE ${folderConditions.join(' AND ')}`
+        );
+        values.push(...folderValues);
+      }
+
+      if (selects.length === 0) {
+        return { success: true, results: [], next_cursor: null };
+      }
+
+      // Keyset pagination: continue after the last result of the previous page,
+      // with kind and ID breaking ties between equal sort values
+      const direction = filters.order === 'desc' ? 'DESC' : 'ASC';
+      const comparison = filters.order === 'desc' ? '<' : '>';
+      let cursorCondition = '';
+
+      if (filters.cursor) {
+        const cursorValue = filters.sort === 'created_at' || filters.sort === 'updated_at'
+          ? new Date(filters.cursor.value)
+          : filters.cursor.value;
+
+        cursorCondition = `WHERE (hits.${filters.sort} ${comparison} ?
+          OR (hits.${filters.sort} = ? AND (hits.kind ${comparison} ?
+            OR (hits.kind = ? AND hits.id ${comparison} ?))))`;
+        values.push(cursorValue, cursorValue, filters.cursor.kind, filters.cursor.kind, filters.cursor.id);
+      }
+
+      // One extra row tells whether there is another page
+      const [hits] = await connection.query(
+        `SELECT * FROM (${selects.join(' UNION ALL ')}) AS hits
+         ${cursorCondition}
+         ORDER BY hits.${filters.sort} ${direction}, hits.kind ${direction}, hits.id ${direction}
+         LIMIT ?`,
+        [...values, filters.limit + 1]
+      ) as [RowDataPacket[], any];
+
+      const page = hits.slice(0, filters.limit);
+      const nextCursor = hits.length > filters.limit
+        ? encodeSearchCursor(page[page.length - 1], filters.sort)
+        : null;
+
+      // Breadcrumbs of the folders that contain the results
+      const parentIds = [...new Set(page
+        .map((hit: RowDataPacket) => hit.parent_id)
+        .filter((parentId: number | null) => parentId !== null))] as number[];
+      const paths = await getFolderPaths(connection, userId, parentIds, sharedFolderIds);
+
+      return {
+        success: true,
+        results: page.map((hit: RowDataPacket) => ({
+          type: hit.kind,
+          id: hit.id,
+          name: hit.name,
+          size: hit.kind === 'file' ? hit.size : null,
+          mime_type: hit.mime_type,
+          parent_folder_id: hit.parent_id,
+          checksum: hit.checksum,
+          created_at: hit.created_at,
+          updated_at: hit.updated_at,
+          path: hit.parent_id ? paths.get(hit.parent_id) || [] : []
+        })),
+        next_cursor: nextCursor
+      };
+    } catch (error) {
+      console.error('Error searching:', error);
+      return { success: false, error: 'Failed to search' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Search the text of the files the user can view, best matches first
+  searchContent: async (userId: number, query: string, options: { limit: number; offset: number }) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Files in folders shared with the user are searched along with their own
+      const sharedFolderIds = await getSharedFolderIds(connection, userId);
+
+      const filters = `MATCH(c.content) AGAINST (? IN NATURAL LANGUAGE MODE)
+        AND f.deleted_at IS NULL
+        AND (f.user_id = ? OR f.folder_id IN (?))`;
+      const filterValues = [query, userId, sharedFolderIds.length > 0 ? sharedFolderIds : [null]];
+      const snippetWord = getSnippetWord(query);
+
+      const [counts] = await connection.query(
+        `SELECT COUNT(*) AS total
+         FROM file_contents c
+         JOIN files f ON f.file_id = c.file_id
+         WHERE ${filters}`,
+        filterValues
+      ) as [RowDataPacket[], any];
+
+      // Rank the matches first, then load only an excerpt of each text around its first match
+      const [files] = await connection.query(
+        `SELECT f.*, r.score, CHAR_LENGTH(c.content) AS content_length,
+           GREATEST(LOCATE(?, c.content) - ?, 1) AS excerpt_start,
+           SUBSTRING(c.content, GREATEST(LOCATE(?, c.content) - ?, 1), ?) AS excerpt
+         FROM (
+           SELECT c.file_id, MATCH(c.content) AGAINST (? IN NATURAL LANGUAGE MODE) AS score
+           FROM file_contents c
+           JOIN files f ON f.file_id = c.file_id
+           WHERE ${filters}
+           ORDER BY score DESC, f.file_id ASC
+           LIMIT ? OFFSET ?
+         ) r
+         JOIN files f ON f.file_id = r.file_id
+         JOIN file_contents c ON c.file_id = r.file_id
+         ORDER BY r.score DESC, f.file_id ASC`,
+        [
+          snippetWord, SNIPPET_EXCERPT_LEAD,
+          snippetWord, SNIPPET_EXCERPT_LEAD, SNIPPET_EXCERPT_LENGTH,
+          query, ...filterValues, options.limit, options.offset
+        ]
+      ) as [RowDataPacket[], any];
+
+      return {
+        success: true,
+        total: Number(counts[0].total),
+        results: files.map((file: RowDataPacket) => ({
+          id: file.file_id,
+          name: file.name,
+          size: file.size,
+          mime_type: file.mime_type,
+          folder_id: file.folder_id,
+          checksum: file.checksum,
+          created_at: file.created_at,
+          updated_at: file.updated_at,
+          score: Number(file.score),
+          snippet: buildSnippet(file.excerpt, query, {
+            before: file.excerpt_start > 1,
+            after: file.excerpt_start - 1 + SNIPPET_EXCERPT_LENGTH < file.content_length
+          }),
+          type: 'file' // For frontend search results
+        }))
+      };
+    } catch (error) {
+      console.error('Error searching file contents:', error);
+      return { success: false, error: 'Failed to search file contents' };
+    } finally {
+      connection.release();
+    }
+  }
+};
+
+export default searchController;
@@ -0,0 +1,428 @@
+// src/controllers/shareLinkController.ts
+import pool from '../config/database';
+import { fileController } from './fileController';
+import { folderController } from './folderController';
+import { getFileAccess, getFolderAccess, hasRole, isFolderInSubtree } from '../services/folderAccess';
+import { generateToken, hashToken } from '../services/tokenService';
+import { recordAuditEvent } from '../services/auditLog';
+import { DownloadableFile, FolderContentsOptions } from '../types/fileTypes';
+import { ShareLink } from '../types/shareTypes';
+import { AuditClient } from '../types/auditTypes';
+import { RowDataPacket, OkPacket } from 'mysql2';
+
+// Define types for MySQL results
+type QueryResult = [RowDataPacket[] | RowDataPacket[][] | OkPacket | OkPacket[], any];
+
+// Number of leading token characters kept in clear text so owners can tell links apart
+const DISPLAY_PREFIX_LENGTH = 6;
+
+// Map a share_links row (joined with files and folders) to the public link shape
+const formatLink = (link: RowDataPacket): ShareLink => ({
+  id: link.link_id,
+  type: link.file_id ? 'file' : 'folder',
+  file_id: link.file_id,
+  folder_id: link.folder_id,
+  name: link.file_name || link.folder_name,
+  token_prefix: link.token_prefix,
+  has_password: !!link.password_hash,
+  expires_at: link.expires_at,
+  max_downloads: link.max_downloads,
+  download_count: link.download_count,
+  created_at: link.created_at
+});
+
+// Look up an active link by token and check its password, expiry and download limit
+const resolveLink = async (token: string, password: string | undefined) => {
+  const connection = await pool.getConnection();
+
+  try {
+    const [links] = await connection.query(
+      `SELECT sl.*, f.name AS file_name, fo.name AS folder_name,
+       (sl.expires_at IS NOT NULL AND sl.expires_at <= NOW()) AS expired
+       FROM share_links sl
+       LEFT JOIN files f ON f.file_id = sl.file_id
+       LEFT JOIN folders fo ON fo.folder_id = sl.folder_id
+       WHERE sl.token_hash = ? AND sl.revoked_at IS NULL`,
+      [hashToken(token)]
+    ) as [RowDataPacket[], any];
+
+    if (links.length === 0) {
+      return { success: false as const, error: 'Share link not found', code: 'NOT_FOUND' };
+    }
+
+    const link = links[0];
+
+    if (link.expired) {
+      return { success: false as const, error: 'Share link has expired', code: 'EXPIRED' };
+    }
+
+    if (link.max_downloads !== null && link.download_count >= link.max_downloads) {
+      return { success: false as const, error: 'Share link download limit reached', code: 'EXPIRED' };
+    }
+
+    if (link.password_hash) {
+      if (!password) {
+        return { success: false as const, error: 'Password required', code: 'PASSWORD_REQUIRED' };
+      }
+
+      const passwordValid = await Bun.password.verify(password, link.password_hash).catch(() => false);
+      if (!passwordValid) {
+        return { success: false as const, error: 'Invalid password', code: 'PASSWORD_REQUIRED' };
+      }
+    }
+
+    return { success: true as const, link };
+  } finally {
+    connection.release();
+  }
+};
+
+export const shareLinkController = {
+  // Create a public share link for a file or folder
+  createLink: async (
+    userId: number,
+    target: { fileId?: number; folderId?: number },
+    options: { password?: string; expiresAt?: Date | null; maxDownloads?: number | null },
+    client?: AuditClient
+  ) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Only owners of an item can publish it
+      let ownerId: number;
+      if (target.fileId) {
+        const access = await getFileAccess(connection, userId, target.fileId);
+
+        if (!access || !access.role) {
+          return { success: false, error: 'File not found' };
+        }
+
+        if (!hasRole(access.role, 'owner')) {
+          return { success: false, error: 'You do not have permission to share this file' };
+        }
+
+        ownerId = access.file.user_id;
+      } else if (target.folderId) {
+        const access = await getFolderAccess(connection, userId, target.folderId);
+
+        if (!access || !access.role) {
+          return { success: false, error: 'Folder not found' };
+        }
+
+        if (!hasRole(access.role, 'owner')) {
+          return { success: false, error: 'You do not have permission to share this folder' };
+        }
+
+        ownerId = access.folder.user_id;
+      } else {
+        return { success: false, error: 'A file ID or folder ID is required' };
+      }
+
+      if (options.expiresAt && options.expiresAt.getTime() <= Date.now()) {
+        return { success: false, error: 'Expiry date must be in the future' };
+      }
+
+      if (options.maxDownloads !== undefined && options.maxDownloads !== null && options.maxDownloads < 1) {
+        return { success: false, error: 'Maximum downloads must be at least 1' };
+      }
+
+      const token = generateToken(24);
+      const passwordHash = options.password
+        ? await Bun.password.hash(options.password, { algorithm: 'bcrypt', cost: 10 })
+        : null;
+
+      // Start transaction
+      await connection.beginTransaction();
+
+      const [result] = await connection.query(
+        `INSERT INTO share_links
+         (user_id, file_id, folder_id, token_hash, token_prefix, password_hash, expires_at, max_downloads)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          userId,
+          target.fileId || null,
+          target.fileId ? null : target.folderId,
+          hashToken(token),
+          token.substring(0, DISPLAY_PREFIX_LENGTH),
+          passwordHash,
+          options.expiresAt || null,
+          options.maxDownloads || null
+        ]
+      ) as QueryResult;
+
+      const linkId = (result as OkPacket).insertId;
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId,
+        action: 'share_link.create',
+        fileId: target.fileId || null,
+        folderId: target.fileId ? null : target.folderId,
+        newValue: {
+          link_id: linkId,
+          has_password: !!passwordHash,
+          expires_at: options.expiresAt || null,
+          max_downloads: options.maxDownloads || null
+        }
+      }, client);
+
+      // Commit transaction
+      await connection.commit();
+
+      const [links] = await connection.query(
+        `SELECT sl.*, f.name AS file_name, fo.name AS folder_name
+         FROM share_links sl
+         LEFT JOIN files f ON f.file_id = sl.file_id
+         LEFT JOIN folders fo ON fo.folder_id = sl.folder_id
+         WHERE sl.link_id = ?`,
+        [linkId]
+      ) as [RowDataPacket[], any];
+
+      return {
+        success: true,
+        link: formatLink(links[0]),
+        // Plain-text token is only returned here and cannot be retrieved later
+        token,
+        path: `/s/${token}`
+      };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error creating share link:', error);
+      return { success: false, error: 'Failed to create share link' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // List a user's active share links
+  getLinks: async (userId: number) => {
+    const connection = await pool.getConnection();
+
+    try {
+      const [links] = await connection.query(
+        `SELECT sl.*, f.name AS file_name, fo.name AS folder_name
+         FROM share_links sl
+         LEFT JOIN files f ON f.file_id = sl.file_id
+         LEFT JOIN folders fo ON fo.folder_id = sl.folder_id
+         WHERE sl.user_id = ? AND sl.revoked_at IS NULL
+         AND (sl.expires_at IS NULL OR sl.expires_at > NOW())
+         AND (sl.max_downloads IS NULL OR sl.download_count < sl.max_downloads)
+         ORDER BY sl.created_at DESC`,
+        [userId]
+      ) as [RowDataPacket[], any];
+
+      return { success: true, links: links.map(formatLink) };
+    } catch (error) {
+      console.error('Error getting share links:', error);
+      return { success: false, error: 'Failed to get share links' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Revoke a share link
+  revokeLink: async (userId: number, linkId: number, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Start transaction
+      await connection.beginTransaction();
+
+      const [links] = await connection.query(
+        `SELECT sl.*, COALESCE(f.user_id, fo.user_id) AS owner_id
+         FROM share_links sl
+         LEFT JOIN files f ON f.file_id = sl.file_id
+         LEFT JOIN folders fo ON fo.folder_id = sl.folder_id
+         WHERE sl.link_id = ? AND sl.user_id = ? AND sl.revoked_at IS NULL
+         FOR UPDATE`,
+        [linkId, userId]
+      ) as [RowDataPacket[], any];
+
+      if (links.length === 0) {
+        await connection.rollback();
+        return { success: false, error: 'Share link not found' };
+      }
+
+      const link = links[0];
+
+      await connection.query(
+        `UPDATE share_links SET revoked_at = NOW() WHERE link_id = ?`,
+        [linkId]
+      );
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: link.owner_id,
+        action: 'share_link.revoke',
+        fileId: link.file_id,
+        folderId: link.folder_id,
+        oldValue: { link_id: linkId }
+      }, client);
+
+      // Commit transaction
+      await connection.commit();
+
+      return { success: true };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error revoking share link:', error);
+      return { success: false, error: 'Failed to revoke share link' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Describe a link: file details, or a read-only listing of a folder in the linked tree
+  getLinkContents: async (
+    token: string,
+    password: string | undefined,
+    folderId: number | null,
+    options: FolderContentsOptions
+  ) => {
+    try {
+      const resolved = await resolveLink(token, password);
+
+      if (!resolved.success) {
+        return resolved;
+      }
+
+      const link = resolved.link;
+
+      if (link.file_id) {
+        const result = await fileController.getFileDetails(link.user_id, link.file_id);
+
+        if (!result.success) {
+          return { success: false, error: 'Share link not found', code: 'NOT_FOUND' };
+        }
+
+        const { id, name, size, mime_type, updated_at } = result.file;
+        return {
+          success: true,
+          type: 'file',
+          expires_at: link.expires_at,
+          file: { id, name, size, mime_type, updated_at }
+        };
+      }
+
+      // Listings are limited to the linked folder and its descendants
+      const targetFolderId = folderId || link.folder_id;
+      if (targetFolderId !== link.folder_id) {
+        const connection = await pool.getConnection();
+
+        try {
+          if (!(await isFolderInSubtree(connection, targetFolderId, link.folder_id))) {
+            return { success: false, error: 'Folder not found', code: 'NOT_FOUND' };
+          }
+        } finally {
+          connection.release();
+        }
+      }
+
+      // List contents as the link creator sees them, so revoked access also disables the link
+      const result = await folderController.getFolderContents(link.user_id, targetFolderId, options, false);
+
+      if (!result.success) {
+        return { success: false, error: 'Folder not found', code: 'NOT_FOUND' };
+      }
+
+      return {
+        success: true,
+        type: 'folder',
+        expires_at: link.expires_at,
+        folder: { id: targetFolderId, root_id: link.folder_id, name: link.folder_name },
+        contents: result.contents,
+        pagination: result.pagination
+      };
+    } catch (error) {
+      console.error('Error getting share link contents:', error);
+      return { success: false, error: 'Failed to get share link contents' };
+    }
+  },
+
+  // Open the linked file, or a file inside the linked folder tree, for download.
+  // The download isn't counted here: only full downloads count, see countDownload.
+  downloadFromLink: async (
+    token: string,
+    password: string | undefined,
+    fileId: number | null,
+    client?: AuditClient
+  ): Promise<{ success: boolean; error?: string; code?: string; file?: DownloadableFile; linkId?: number }> => {
+    try {
+      const resolved = await resolveLink(token, password);
+
+      if (!resolved.success) {
+        return resolved;
+      }
+
+      const link = resolved.link;
+      let targetFileId: number;
+
+      if (link.file_id) {
+        targetFileId = link.file_id;
+      } else {
+        if (!fileId) {
+          return { success: false, error: 'File ID is required for folder links', code: 'NOT_FOUND' };
+        }
+
+        const connection = await pool.getConnection();
+
+        try {
+          // The file must live inside the linked folder tree
+          const [files] = await connection.query(
+            `SELECT folder_id FROM files WHERE file_id = ?`,
+            [fileId]
+          ) as [RowDataPacket[], any];
+
+          if (files.length === 0 || !files[0].folder_id ||
+            !(await isFolderInSubtree(connection, files[0].folder_id, link.folder_id))) {
+            return { success: false, error: 'File not found', code: 'NOT_FOUND' };
+          }
+        } finally {
+          connection.release();
+        }
+
+        targetFileId = fileId;
+      }
+
+      // Serve through the regular download path, acting as the link creator
+      const result = await fileController.downloadFile(link.user_id, targetFileId, client, link.link_id);
+
+      if (!result.success) {
+        return { success: false, error: 'File not found', code: 'NOT_FOUND' };
+      }
+
+      return { ...result, linkId: link.link_id };
+    } catch (error) {
+      console.error('Error downloading from share link:', error);
+      return { success: false, error: 'Failed to download file' };
+    }
+  },
+
+  // Count a full download of a link, unless the limit was reached by a concurrent request
+  countDownload: async (linkId: number) => {
+    const connection = await pool.getConnection();
+
+    try {
+      const [updateResult] = await connection.query(
+        `UPDATE share_links SET download_count = download_count + 1
+         WHERE link_id = ? AND (max_downloads IS NULL OR download_count < max_downloads)`,
+        [linkId]
+      ) as QueryResult;
+
+      if ((updateResult as OkPacket).affectedRows === 0) {
+        return { success: false, error: 'Share link download limit reached', code: 'EXPIRED' };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error counting share link download:', error);
+      return { success: false, error: 'Failed to download file' };
+    } finally {
+      connection.release();
+    }
+  }
+};
+
+export default shareLinkController;
@@ -0,0 +1,395 @@
+// src/controllers/tagController.ts
+import pool from '../config/database';
+import { PoolConnection } from 'mysql2/promise';
+import { RowDataPacket, OkPacket } from 'mysql2';
+import { getFileAccess, getFolderAccess, getSharedFolderIds, hasRole } from '../services/folderAccess';
+import { getItemTags } from '../services/itemTags';
+import { recordAuditEvent } from '../services/auditLog';
+import { AuditClient } from '../types/auditTypes';
+import { Tag, TagSelection } from '../types/tagTypes';
+
+// Define types for MySQL results
+type QueryResult = [RowDataPacket[] | RowDataPacket[][] | OkPacket | OkPacket[], any];
+
+// Map a tags row to the public tag shape
+const formatTag = (tag: RowDataPacket): Tag => ({
+  id: tag.tag_id,
+  name: tag.name,
+  file_count: Number(tag.file_count || 0),
+  folder_count: Number(tag.folder_count || 0),
+  created_at: tag.created_at
+});
+
+// Check that all the given tags belong to the user
+const ownsTags = async (connection: PoolConnection, userId: number, tagIds: number[]): Promise<boolean> => {
+  const uniqueTagIds = [...new Set(tagIds)];
+
+  const [tags] = await connection.query(
+    `SELECT tag_id FROM tags WHERE user_id = ? AND tag_id IN (?)`,
+    [userId, uniqueTagIds]
+  ) as [RowDataPacket[], any];
+
+  return tags.length === uniqueTagIds.length;
+};
+
+export const tagController = {
+  // Create a tag
+  createTag: async (userId: number, name: string, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Check if the user already has a tag with this name
+      const [existingTags] = await connection.query(
+        `SELECT tag_id FROM tags WHERE user_id = ? AND name = ?`,
+        [userId, name]
+      ) as [RowDataPacket[], any];
+
+      if (existingTags.length > 0) {
+        return { success: false, error: 'A tag with this name already exists' };
+      }
+
+      // Start transaction
+      await connection.beginTransaction();
+
+      const [result] = await connection.query(
+        `INSERT INTO tags (user_id, name) VALUES (?, ?)`,
+        [userId, name]
+      ) as QueryResult;
+
+      const tagId = (result as OkPacket).insertId;
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: userId,
+        action: 'tag.create',
+        newValue: { tag_id: tagId, name }
+      }, client);
+
+      // Commit transaction
+      await connection.commit();
+
+      return {
+        success: true,
+        tag: { id: tagId, name, file_count: 0, folder_count: 0, created_at: new Date() }
+      };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error creating tag:', error);
+      return { success: false, error: 'Failed to create tag' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // List the user's tags with the number of active files and folders carrying each
+  getTags: async (userId: number) => {
+    const connection = await pool.getConnection();
+
+    try {
+      const [tags] = await connection.query(
+        `SELECT t.*,
+           (SELECT COUNT(*) FROM file_tags ft JOIN files f ON f.file_id = ft.file_id
+            WHERE ft.tag_id = t.tag_id AND f.deleted_at IS NULL) AS file_count,
+           (SELECT COUNT(*) FROM folder_tags ft JOIN folders f ON f.folder_id = ft.folder_id
+            WHERE ft.tag_id = t.tag_id AND f.deleted_at IS NULL) AS folder_count
+         FROM tags t
+         WHERE t.user_id = ?
+         ORDER BY t.name ASC`,
+        [userId]
+      ) as [RowDataPacket[], any];
+
+      return { success: true, tags: tags.map(formatTag) };
+    } catch (error) {
+      console.error('Error getting tags:', error);
+      return { success: false, error: 'Failed to get tags' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Rename a tag
+  renameTag: async (userId: number, tagId: number, name: string, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+
+    try {
+      const [tags] = await connection.query(
+        `SELECT name FROM tags WHERE tag_id = ? AND user_id = ?`,
+        [tagId, userId]
+      ) as [RowDataPacket[], any];
+
+      if (tags.length === 0) {
+        return { success: false, error: 'Tag not found' };
+      }
+
+      // Check if the user already has another tag with the new name
+      const [existingTags] = await connection.query(
+        `SELECT tag_id FROM tags WHERE user_id = ? AND name = ? AND tag_id != ?`,
+        [userId, name, tagId]
+      ) as [RowDataPacket[], any];
+
+      if (existingTags.length > 0) {
+        return { success: false, error: 'A tag with this name already exists' };
+      }
+
+      // Start transaction
+      await connection.beginTransaction();
+
+      await connection.query(
+        `UPDATE tags SET name = ? WHERE tag_id = ?`,
+        [name, tagId]
+      );
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: userId,
+        action: 'tag.rename',
+        oldValue: { tag_id: tagId, name: tags[0].name },
+        newValue: { tag_id: tagId, name }
+      }, client);
+
+      // Commit transaction
+      await connection.commit();
+
+      return { success: true, tag: { id: tagId, name } };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error renaming tag:', error);
+      return { success: false, error: 'Failed to rename tag' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Delete a tag; it is removed from all files and folders
+  deleteTag: async (userId: number, tagId: number, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Start transaction
+      await connection.beginTransaction();
+
+      const [tags] = await connection.query(
+        `SELECT name FROM tags WHERE tag_id = ? AND user_id = ? FOR UPDATE`,
+        [tagId, userId]
+      ) as [RowDataPacket[], any];
+
+      if (tags.length === 0) {
+        await connection.rollback();
+        return { success: false, error: 'Tag not found' };
+      }
+
+      await connection.query(`DELETE FROM tags WHERE tag_id = ?`, [tagId]);
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: userId,
+        action: 'tag.delete',
+        oldValue: { tag_id: tagId, name: tags[0].name }
+      }, client);
+
+      // Commit transaction
+      await connection.commit();
+
+      return { success: true };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error deleting tag:', error);
+      return { success: false, error: 'Failed to delete tag' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Put tags on files and folders. Tags are personal, so viewing an item is enough to tag it.
+  attachTags: async (userId: number, selection: TagSelection, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Start transaction
+      await connection.beginTransaction();
+
+      if (!(await ownsTags(connection, userId, selection.tagIds))) {
+        await connection.rollback();
+        return { success: false, error: 'Tag not found' };
+      }
+
+      // Check the caller can view every item before tagging any of them
+      for (const fileId of selection.fileIds) {
+        const access = await getFileAccess(connection, userId, fileId);
+
+        if (!access || !hasRole(access.role, 'viewer')) {
+          await connection.rollback();
+          return { success: false, error: `File ${fileId} not found` };
+        }
+      }
+
+      for (const folderId of selection.folderIds) {
+        const access = await getFolderAccess(connection, userId, folderId);
+
+        if (!access || !hasRole(access.role, 'viewer')) {
+          await connection.rollback();
+          return { success: false, error: `Folder ${folderId} not found` };
+        }
+      }
+
+      // Items that already carry a tag keep it
+      for (const tagId of selection.tagIds) {
+        for (const fileId of selection.fileIds) {
+          await connection.query(
+            `INSERT IGNORE INTO file_tags (tag_id, file_id) VALUES (?, ?)`,
+            [tagId, fileId]
+          );
+        }
+
+        for (const folderId of selection.folderIds) {
+          await connection.query(
+            `INSERT IGNORE INTO folder_tags (tag_id, folder_id) VALUES (?, ?)`,
+            [tagId, folderId]
+          );
+        }
+      }
+
+      // A selection is recorded as one event
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: userId,
+        action: 'tag.attach',
+        newValue: { tag_ids: selection.tagIds, file_ids: selection.fileIds, folder_ids: selection.folderIds }
+      }, client);
+
+      // Commit transaction
+      await connection.commit();
+
+      return { success: true };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error attaching tags:', error);
+      return { success: false, error: 'Failed to attach tags' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Remove tags from files and folders
+  detachTags: async (userId: number, selection: TagSelection, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+
+    try {
+      if (!(await ownsTags(connection, userId, selection.tagIds))) {
+        return { success: false, error: 'Tag not found' };
+      }
+
+      // Start transaction
+      await connection.beginTransaction();
+
+      if (selection.fileIds.length > 0) {
+        await connection.query(
+          `DELETE FROM file_tags WHERE tag_id IN (?) AND file_id IN (?)`,
+          [selection.tagIds, selection.fileIds]
+        );
+      }
+
+      if (selection.folderIds.length > 0) {
+        await connection.query(
+          `DELETE FROM folder_tags WHERE tag_id IN (?) AND folder_id IN (?)`,
+          [selection.tagIds, selection.folderIds]
+        );
+      }
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: userId,
+        action: 'tag.detach',
+        oldValue: { tag_ids: selection.tagIds, file_ids: selection.fileIds, folder_ids: selection.folderIds }
+      }, client);
+
+      // Commit transaction
+      await connection.commit();
+
+      return { success: true };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error detaching tags:', error);
+      return { success: false, error: 'Failed to detach tags' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // List the files and folders carrying all (or any) of the given tags that the user can still see
+  getTaggedItems: async (userId: number, tagIds: number[], match: 'all' | 'any') => {
+    const connection = await pool.getConnection();
+
+    try {
+      if (!(await ownsTags(connection, userId, tagIds))) {
+        return { success: false, error: 'Tag not found' };
+      }
+
+      const uniqueTagIds = [...new Set(tagIds)];
+      const requiredCount = match === 'all' ? uniqueTagIds.length : 1;
+
+      // Items in folders shared with the user are included as long as the share exists
+      const sharedFolderIds = await getSharedFolderIds(connection, userId);
+      const visibleFolderIds = sharedFolderIds.length > 0 ? sharedFolderIds : [null];
+
+      const [files] = await connection.query(
+        `SELECT f.file_id, f.name, f.folder_id, f.size, f.mime_type, f.created_at, f.updated_at
+         FROM files f
+         JOIN file_tags ft ON ft.file_id = f.file_id
+         WHERE ft.tag_id IN (?) AND f.deleted_at IS NULL
+         AND (f.user_id = ? OR f.folder_id IN (?))
+         GROUP BY f.file_id
+         HAVING COUNT(DISTINCT ft.tag_id) >= ?
+         ORDER BY f.name ASC`,
+        [uniqueTagIds, userId, visibleFolderIds, requiredCount]
+      ) as [RowDataPacket[], any];
+
+      const [folders] = await connection.query(
+        `SELECT f.folder_id, f.name, f.parent_folder_id, f.created_at, f.updated_at
+         FROM folders f
+         JOIN folder_tags ft ON ft.folder_id = f.folder_id
+         WHERE ft.tag_id IN (?) AND f.deleted_at IS NULL
+         AND (f.user_id = ? OR f.folder_id IN (?))
+         GROUP BY f.folder_id
+         HAVING COUNT(DISTINCT ft.tag_id) >= ?
+         ORDER BY f.name ASC`,
+        [uniqueTagIds, userId, visibleFolderIds, requiredCount]
+      ) as [RowDataPacket[], any];
+
+      const fileTags = await getItemTags(connection, userId, 'file', files.map(file => file.file_id));
+      const folderTags = await getItemTags(connection, userId, 'folder', folders.map(folder => folder.folder_id));
+
+      return {
+        success: true,
+        folders: folders.map((folder: RowDataPacket) => ({
+          id: folder.folder_id,
+          name: folder.name,
+          parent_folder_id: folder.parent_folder_id,
+          created_at: folder.created_at,
+          updated_at: folder.updated_at,
+          tags: folderTags.get(folder.folder_id) || []
+        })),
+        files: files.map((file: RowDataPacket) => ({
+          id: file.file_id,
+          name: file.name,
+          folder_id: file.folder_id,
+          size: file.size,
+          mime_type: file.mime_type,
+          created_at: file.created_at,
+          updated_at: file.updated_at,
+          tags: fileTags.get(file.file_id) || []
+        }))
+      };
+    } catch (error) {
+      console.error('Error getting tagged items:', error);
+      return { success: false, error: 'Failed to get tagged items' };
+    } finally {
+      connection.release();
+    }
+  }
+};
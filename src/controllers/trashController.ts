@@ -0,0 +1,568 @@
+// src/controllers/trashController.ts
+import pool from '../config/database';
+import { cacheMiddleware } from '../config/redis';
+import { BlobReference, releaseBlobReference, removeUnreferencedBlobs } from '../services/blobStore';
+import { releaseStorage } from '../services/storageQuota';
+import { recordAuditEvent } from '../services/auditLog';
+import { publishChange } from '../services/changeNotifications';
+import { AuditClient } from '../types/auditTypes';
+import { PoolConnection } from 'mysql2/promise';
+import { RowDataPacket } from 'mysql2';
+
+// Number of days items stay in the trash before the purge job removes them
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+// Record the permanent deletion of trashed folders and files (the items put in the trash,
+// not the contents that went with them); the actor is null for the purge job
+const recordPurgeEvents = async (
+  connection: PoolConnection,
+  actorId: number | null,
+  folders: RowDataPacket[],
+  files: RowDataPacket[],
+  client?: AuditClient
+): Promise<void> => {
+  for (const folder of folders) {
+    await recordAuditEvent(connection, {
+      actorId,
+      ownerId: folder.user_id,
+      action: 'folder.purge',
+      folderId: folder.folder_id,
+      oldValue: { name: folder.name, parent_folder_id: folder.parent_folder_id }
+    }, client);
+  }
+
+  for (const file of files) {
+    await recordAuditEvent(connection, {
+      actorId,
+      ownerId: file.user_id,
+      action: 'file.purge',
+      fileId: file.file_id,
+      folderId: file.folder_id,
+      oldValue: { name: file.name }
+    }, client);
+  }
+};
+
+// Get the folder an item should be restored into: its original parent if it is still
+// active, otherwise the owner's Root folder
+const getRestoreTarget = async (
+  connection: PoolConnection,
+  userId: number,
+  parentFolderId: number | null
+): Promise<number | null> => {
+  if (parentFolderId) {
+    const [parents] = await connection.query(
+      `SELECT folder_id FROM folders WHERE folder_id = ? AND deleted_at IS NULL`,
+      [parentFolderId]
+    ) as [RowDataPacket[], any];
+
+    if (parents.length > 0) {
+      return parentFolderId;
+    }
+  }
+
+  const [roots] = await connection.query(
+    `SELECT folder_id FROM folders
+     WHERE user_id = ? AND parent_folder_id IS NULL AND name = 'Root' AND deleted_at IS NULL
+     ORDER BY folder_id ASC LIMIT 1`,
+    [userId]
+  ) as [RowDataPacket[], any];
+
+  return roots.length > 0 ? roots[0].folder_id : null;
+};
+
+// Delete the rows of trashed files and folders (including everything below those folders)
+// and return the blobs they referenced, to be removed once the transaction commits
+const destroyItems = async (
+  connection: PoolConnection,
+  folderIds: number[],
+  fileIds: number[]
+): Promise<BlobReference[]> => {
+  let subtreeFolderIds: number[] = [];
+
+  if (folderIds.length > 0) {
+    const [folders] = await connection.query(
+      `WITH RECURSIVE subtree AS (
+         SELECT folder_id FROM folders WHERE folder_id IN (?)
+         UNION ALL
+         SELECT f.folder_id FROM folders f
+         JOIN subtree s ON f.parent_folder_id = s.folder_id
+       )
+       SELECT DISTINCT folder_id FROM subtree`,
+      [folderIds]
+    ) as [RowDataPacket[], any];
+
+    subtreeFolderIds = folders.map((folder: RowDataPacket) => folder.folder_id);
+  }
+
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (fileIds.length > 0) {
+    conditions.push('file_id IN (?)');
+    params.push(fileIds);
+  }
+
+  if (subtreeFolderIds.length > 0) {
+    conditions.push('folder_id IN (?)');
+    params.push(subtreeFolderIds);
+  }
+
+  const blobs: BlobReference[] = [];
+
+  if (conditions.length > 0) {
+    const [files] = await connection.query(
+      `SELECT file_id, user_id, file_path, checksum, size FROM files WHERE ${conditions.join(' OR ')}`,
+      params
+    ) as [RowDataPacket[], any];
+
+    if (files.length > 0) {
+      const allFileIds = files.map((file: RowDataPacket) => file.file_id);
+
+      const [versions] = await connection.query(
+        `SELECT v.file_path, v.checksum, v.size, f.user_id
+         FROM file_versions v
+         JOIN files f ON f.file_id = v.file_id
+         WHERE v.file_id IN (?)`,
+        [allFileIds]
+      ) as [RowDataPacket[], any];
+
+      for (const blob of [...files, ...versions]) {
+        const reference = { checksum: blob.checksum, file_path: blob.file_path };
+        await releaseBlobReference(connection, reference);
+        blobs.push(reference);
+      }
+
+      // The freed bytes no longer count against their owners' quotas
+      const freedBytes = new Map<number, number>();
+      for (const blob of [...files, ...versions]) {
+        freedBytes.set(blob.user_id, (freedBytes.get(blob.user_id) || 0) + Number(blob.size));
+      }
+
+      for (const [ownerId, bytes] of freedBytes) {
+        await releaseStorage(connection, ownerId, bytes);
+      }
+
+      // Versions and share links are removed by their foreign keys
+      await connection.query(
+        `DELETE FROM files WHERE file_id IN (?)`,
+        [allFileIds]
+      );
+    }
+  }
+
+  if (folderIds.length > 0) {
+    // Subfolders are removed by the parent folder foreign key
+    await connection.query(
+      `DELETE FROM folders WHERE folder_id IN (?)`,
+      [folderIds]
+    );
+  }
+
+  return blobs;
+};
+
+export const trashController = {
+  // List the items a user has moved to the trash (contents of trashed folders are not listed separately)
+  getTrash: async (userId: number) => {
+    const connection = await pool.getConnection();
+
+    try {
+      const [folders] = await connection.query(
+        `SELECT f.*, p.name AS parent_name,
+         (f.deleted_at + INTERVAL ? DAY) AS purge_at
+         FROM folders f
+         LEFT JOIN folders p ON p.folder_id = f.parent_folder_id
+         WHERE f.user_id = ? AND f.deleted_at IS NOT NULL AND f.trashed_with_folder_id IS NULL
+         ORDER BY f.deleted_at DESC`,
+        [TRASH_RETENTION_DAYS, userId]
+      ) as [RowDataPacket[], any];
+
+      const [files] = await connection.query(
+        `SELECT f.*, p.name AS parent_name,
+         (f.deleted_at + INTERVAL ? DAY) AS purge_at
+         FROM files f
+         LEFT JOIN folders p ON p.folder_id = f.folder_id
+         WHERE f.user_id = ? AND f.deleted_at IS NOT NULL AND f.trashed_with_folder_id IS NULL
+         ORDER BY f.deleted_at DESC`,
+        [TRASH_RETENTION_DAYS, userId]
+      ) as [RowDataPacket[], any];
+
+      return {
+        success: true,
+        trash: {
+          folders: folders.map((folder: RowDataPacket) => ({
+            id: folder.folder_id,
+            name: folder.name,
+            parent_folder_id: folder.parent_folder_id,
+            parent_name: folder.parent_name,
+            deleted_at: folder.deleted_at,
+            purge_at: folder.purge_at
+          })),
+          files: files.map((file: RowDataPacket) => ({
+            id: file.file_id,
+            name: file.name,
+            size: file.size,
+            mime_type: file.mime_type,
+            folder_id: file.folder_id,
+            parent_name: file.parent_name,
+            deleted_at: file.deleted_at,
+            purge_at: file.purge_at
+          }))
+        }
+      };
+    } catch (error) {
+      console.error('Error getting trash:', error);
+      return { success: false, error: 'Failed to get trash' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Restore a file to its original folder, or to Root if that folder is gone
+  restoreFile: async (userId: number, fileId: number, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Start transaction
+      await connection.beginTransaction();
+
+      const [files] = await connection.query(
+        `SELECT * FROM files
+         WHERE file_id = ? AND user_id = ? AND deleted_at IS NOT NULL AND trashed_with_folder_id IS NULL`,
+        [fileId, userId]
+      ) as [RowDataPacket[], any];
+
+      if (files.length === 0) {
+        await connection.rollback();
+        return { success: false, error: 'File not found in trash' };
+      }
+
+      const file = files[0];
+      const targetFolderId = await getRestoreTarget(connection, userId, file.folder_id);
+
+      // Check if an active file with the same name exists in the destination
+      const [existingFiles] = await connection.query(
+        `SELECT file_id FROM files
+         WHERE user_id = ? AND folder_id <=> ? AND name = ? AND deleted_at IS NULL`,
+        [userId, targetFolderId, file.name]
+      ) as [RowDataPacket[], any];
+
+      if (existingFiles.length > 0) {
+        await connection.rollback();
+        return { success: false, error: 'A file with this name already exists in the destination folder' };
+      }
+
+      await connection.query(
+        `UPDATE files SET deleted_at = NULL, trashed_with_folder_id = NULL, folder_id = ?
+         WHERE file_id = ?`,
+        [targetFolderId, fileId]
+      );
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: userId,
+        action: 'file.restore',
+        fileId,
+        folderId: targetFolderId,
+        newValue: { name: file.name, folder_id: targetFolderId }
+      }, client);
+
+      // Clear caches
+      await cacheMiddleware.delete(`file:${fileId}`);
+      if (targetFolderId) {
+        await cacheMiddleware.delete(`folder:${targetFolderId}:contents`);
+        await cacheMiddleware.delete(`folder:${targetFolderId}:files`);
+      }
+
+      // Commit transaction
+      await connection.commit();
+
+      publishChange({ type: 'file.created', actorId: userId, fileId });
+
+      return {
+        success: true,
+        file: { id: fileId, name: file.name, folder_id: targetFolderId }
+      };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error restoring file:', error);
+      return { success: false, error: 'Failed to restore file' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Restore a folder and the contents trashed with it, to its original parent or to Root
+  restoreFolder: async (userId: number, folderId: number, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Start transaction
+      await connection.beginTransaction();
+
+      const [folders] = await connection.query(
+        `SELECT * FROM folders
+         WHERE folder_id = ? AND user_id = ? AND deleted_at IS NOT NULL AND trashed_with_folder_id IS NULL`,
+        [folderId, userId]
+      ) as [RowDataPacket[], any];
+
+      if (folders.length === 0) {
+        await connection.rollback();
+        return { success: false, error: 'Folder not found in trash' };
+      }
+
+      const folder = folders[0];
+
+      // Top-level folders stay at the top level
+      const targetFolderId = folder.parent_folder_id
+        ? await getRestoreTarget(connection, userId, folder.parent_folder_id)
+        : null;
+
+      // Check if an active folder with the same name exists in the destination
+      const [existingFolders] = await connection.query(
+        `SELECT folder_id FROM folders
+         WHERE user_id = ? AND parent_folder_id <=> ? AND name = ? AND deleted_at IS NULL`,
+        [userId, targetFolderId, folder.name]
+      ) as [RowDataPacket[], any];
+
+      if (existingFolders.length > 0) {
+        await connection.rollback();
+        return { success: false, error: 'A folder with this name already exists in the destination folder' };
+      }
+
+      await connection.query(
+        `UPDATE folders SET deleted_at = NULL, trashed_with_folder_id = NULL, parent_folder_id = ?
+         WHERE folder_id = ?`,
+        [targetFolderId, folderId]
+      );
+
+      // Bring back the contents that were trashed along with the folder
+      await connection.query(
+        `UPDATE folders SET deleted_at = NULL, trashed_with_folder_id = NULL
+         WHERE trashed_with_folder_id = ?`,
+        [folderId]
+      );
+
+      await connection.query(
+        `UPDATE files SET deleted_at = NULL, trashed_with_folder_id = NULL
+         WHERE trashed_with_folder_id = ?`,
+        [folderId]
+      );
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: userId,
+        action: 'folder.restore',
+        folderId,
+        newValue: { name: folder.name, parent_folder_id: targetFolderId }
+      }, client);
+
+      // Clear caches
+      await cacheMiddleware.delete(`folder:${folderId}`);
+      if (targetFolderId) {
+        await cacheMiddleware.delete(`folder:${targetFolderId}:subfolders`);
+        await cacheMiddleware.delete(`folder:${targetFolderId}:contents`);
+      }
+
+      await cacheMiddleware.delete(`user:${userId}:folders`);
+      await cacheMiddleware.deleteByPattern(`user:${userId}:folder_tree*`);
+
+      // Commit transaction
+      await connection.commit();
+
+      publishChange({ type: 'folder.created', actorId: userId, folderId });
+
+      return {
+        success: true,
+        folder: { id: folderId, name: folder.name, parent_folder_id: targetFolderId }
+      };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error restoring folder:', error);
+      return { success: false, error: 'Failed to restore folder' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Permanently delete a trashed file and its previous versions
+  deleteFile: async (userId: number, fileId: number, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Start transaction
+      await connection.beginTransaction();
+
+      const [files] = await connection.query(
+        `SELECT file_id, user_id, folder_id, name FROM files
+         WHERE file_id = ? AND user_id = ? AND deleted_at IS NOT NULL AND trashed_with_folder_id IS NULL`,
+        [fileId, userId]
+      ) as [RowDataPacket[], any];
+
+      if (files.length === 0) {
+        await connection.rollback();
+        return { success: false, error: 'File not found in trash' };
+      }
+
+      await recordPurgeEvents(connection, userId, [], files, client);
+
+      const blobs = await destroyItems(connection, [], [fileId]);
+
+      // Commit transaction
+      await connection.commit();
+
+      // Remove blobs that are no longer used once the rows are gone
+      await removeUnreferencedBlobs(blobs);
+
+      return { success: true };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error permanently deleting file:', error);
+      return { success: false, error: 'Failed to delete file' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Permanently delete a trashed folder and everything inside it
+  deleteFolder: async (userId: number, folderId: number, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Start transaction
+      await connection.beginTransaction();
+
+      const [folders] = await connection.query(
+        `SELECT folder_id, user_id, parent_folder_id, name FROM folders
+         WHERE folder_id = ? AND user_id = ? AND deleted_at IS NOT NULL AND trashed_with_folder_id IS NULL`,
+        [folderId, userId]
+      ) as [RowDataPacket[], any];
+
+      if (folders.length === 0) {
+        await connection.rollback();
+        return { success: false, error: 'Folder not found in trash' };
+      }
+
+      await recordPurgeEvents(connection, userId, folders, [], client);
+
+      const blobs = await destroyItems(connection, [folderId], []);
+
+      // Commit transaction
+      await connection.commit();
+
+      // Remove blobs that are no longer used once the rows are gone
+      await removeUnreferencedBlobs(blobs);
+
+      return { success: true };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error permanently deleting folder:', error);
+      return { success: false, error: 'Failed to delete folder' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Permanently delete everything in a user's trash
+  emptyTrash: async (userId: number, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Start transaction
+      await connection.beginTransaction();
+
+      const [folders] = await connection.query(
+        `SELECT folder_id, user_id, parent_folder_id, name FROM folders
+         WHERE user_id = ? AND deleted_at IS NOT NULL AND trashed_with_folder_id IS NULL`,
+        [userId]
+      ) as [RowDataPacket[], any];
+
+      const [files] = await connection.query(
+        `SELECT file_id, user_id, folder_id, name FROM files
+         WHERE user_id = ? AND deleted_at IS NOT NULL AND trashed_with_folder_id IS NULL`,
+        [userId]
+      ) as [RowDataPacket[], any];
+
+      await recordPurgeEvents(connection, userId, folders, files, client);
+
+      const blobs = await destroyItems(
+        connection,
+        folders.map((folder: RowDataPacket) => folder.folder_id),
+        files.map((file: RowDataPacket) => file.file_id)
+      );
+
+      // Commit transaction
+      await connection.commit();
+
+      // Remove blobs that are no longer used once the rows are gone
+      await removeUnreferencedBlobs(blobs);
+
+      return {
+        success: true,
+        deleted: { folders: folders.length, files: files.length }
+      };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error emptying trash:', error);
+      return { success: false, error: 'Failed to empty trash' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Permanently delete items of all users that have been in the trash for longer than the retention period
+  purgeExpired: async (retentionDays: number = TRASH_RETENTION_DAYS) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Start transaction
+      await connection.beginTransaction();
+
+      const [folders] = await connection.query(
+        `SELECT folder_id, user_id, parent_folder_id, name FROM folders
+         WHERE deleted_at < NOW() - INTERVAL ? DAY AND trashed_with_folder_id IS NULL`,
+        [retentionDays]
+      ) as [RowDataPacket[], any];
+
+      const [files] = await connection.query(
+        `SELECT file_id, user_id, folder_id, name FROM files
+         WHERE deleted_at < NOW() - INTERVAL ? DAY AND trashed_with_folder_id IS NULL`,
+        [retentionDays]
+      ) as [RowDataPacket[], any];
+
+      await recordPurgeEvents(connection, null, folders, files);
+
+      const blobs = await destroyItems(
+        connection,
+        folders.map((folder: RowDataPacket) => folder.folder_id),
+        files.map((file: RowDataPacket) => file.file_id)
+      );
+
+      // Commit transaction
+      await connection.commit();
+
+      // Remove blobs that are no longer used once the rows are gone
+      await removeUnreferencedBlobs(blobs);
+
+      return {
+        success: true,
+        deleted: { folders: folders.length, files: files.length }
+      };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error purging trash:', error);
+      return { success: false, error: 'Failed to purge trash' };
+    } finally {
+      connection.release();
+    }
+  }
+};
+
+export default trashController;
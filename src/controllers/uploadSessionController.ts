@@ -0,0 +1,536 @@
+// src/controllers/uploadSessionController.ts
+import pool from '../config/database';
+import { deleteUploadChunks, saveUploadChunk, stageUploadChunks } from '../services/fileStorage';
+import { getFolderAccess, hasRole } from '../services/folderAccess';
+import { saveFileRecord } from '../services/fileRecords';
+import { removeUnreferencedBlobs, storeStagedBlob, StoredBlob } from '../services/blobStore';
+import { hasStorageFor, reserveStorage, QUOTA_EXCEEDED } from '../services/storageQuota';
+import { queueThumbnails } from '../services/thumbnailService';
+import { queueContentIndexing } from '../services/contentIndex';
+import { resolveUploadMetadata, saveCustomMetadata } from '../services/customMetadata';
+import { recordAuditEvent } from '../services/auditLog';
+import { publishChange } from '../services/changeNotifications';
+import { MAX_FILE_SIZE, UploadSession } from '../types/fileTypes';
+import { CustomMetadata } from '../types/metadataTypes';
+import { AuditClient } from '../types/auditTypes';
+import { validateFileExtension, validateFileUpload } from '../utils/fileValidator';
+import { createHash, randomUUID } from 'crypto';
+import { RowDataPacket, OkPacket } from 'mysql2';
+
+// Define types for MySQL results
+type QueryResult = [RowDataPacket[] | RowDataPacket[][] | OkPacket | OkPacket[], any];
+
+// Chunk size used when the client does not ask for one, and the allowed range
+const DEFAULT_CHUNK_SIZE = Number(process.env.UPLOAD_CHUNK_SIZE) || 5 * 1024 * 1024;
+const MIN_CHUNK_SIZE = 256 * 1024;
+const MAX_CHUNK_SIZE = 50 * 1024 * 1024;
+
+// Sessions expire after this many hours without receiving a chunk
+export const UPLOAD_SESSION_TTL_HOURS = Number(process.env.UPLOAD_SESSION_TTL_HOURS) || 24;
+
+// Map an upload_sessions row and its received chunk indexes to the public session shape
+const formatSession = (session: RowDataPacket, receivedChunks: number[]): UploadSession => {
+  const received = new Set(receivedChunks);
+  const missingChunks: number[] = [];
+
+  for (let chunkIndex = 0; chunkIndex < session.chunk_count; chunkIndex++) {
+    if (!received.has(chunkIndex)) {
+      missingChunks.push(chunkIndex);
+    }
+  }
+
+  return {
+    id: session.session_id,
+    name: session.name,
+    size: session.size,
+    mime_type: session.mime_type,
+    folder_id: session.folder_id,
+    chunk_size: session.chunk_size,
+    chunk_count: session.chunk_count,
+    received_chunks: receivedChunks,
+    missing_chunks: missingChunks,
+    metadata: getSessionMetadata(session),
+    expires_at: session.expires_at,
+    created_at: session.created_at
+  };
+};
+
+// Get the custom metadata sent when a session was created; JSON columns are returned
+// parsed by MySQL but as text by MariaDB
+const getSessionMetadata = (session: RowDataPacket): CustomMetadata => {
+  if (!session.metadata) {
+    return {};
+  }
+
+  return typeof session.metadata === 'string' ? JSON.parse(session.metadata) : session.metadata;
+};
+
+// Get the expected size of a chunk; only the last chunk may be shorter
+const getExpectedChunkSize = (session: RowDataPacket, chunkIndex: number): number => {
+  return chunkIndex < session.chunk_count - 1
+    ? session.chunk_size
+    : session.size - session.chunk_size * (session.chunk_count - 1);
+};
+
+export const uploadSessionController = {
+  // Start a resumable upload of a file into a folder
+  createSession: async (
+    userId: number,
+    options: {
+      name: string;
+      size: number;
+      folderId?: number | null;
+      chunkSize?: number;
+      metadata?: CustomMetadata;
+    },
+    client?: AuditClient
+  ) => {
+    const connection = await pool.getConnection();
+
+    try {
+      const folderId = options.folderId || null;
+
+      // Check the caller can upload to the target folder
+      let ownerId = userId;
+      if (folderId) {
+        const access = await getFolderAccess(connection, userId, folderId);
+
+        if (!access || !access.role) {
+          return { success: false, error: 'Folder not found' };
+        }
+
+        if (!hasRole(access.role, 'editor')) {
+          return { success: false, error: 'You do not have permission to upload to this folder' };
+        }
+
+        ownerId = access.folder.user_id;
+      }
+
+      if (options.size > MAX_FILE_SIZE) {
+        return { success: false, error: `File too large. Maximum size is ${MAX_FILE_SIZE / (1024 * 1024)}MB.` };
+      }
+
+      // The content is checked against the extension when the first chunk arrives
+      const extensionCheck = validateFileExtension(options.name);
+      if (!extensionCheck.isValid) {
+        return { success: false, error: extensionCheck.error };
+      }
+
+      // An empty file has no chunks, so its type is detected now
+      let mimeType: string | null = null;
+      if (options.size === 0) {
+        const validation = validateFileUpload(options, new Uint8Array(0));
+
+        if (!validation.isValid) {
+          return { success: false, error: validation.error };
+        }
+
+        mimeType = validation.mimeType || null;
+      }
+
+      // Check the metadata against the folder's schema; it is checked again when the upload completes
+      const metadata = await resolveUploadMetadata(connection, ownerId, folderId, options.name, options.metadata);
+
+      if (!metadata.entries) {
+        return { success: false, error: metadata.error };
+      }
+
+      // Fail early if the file can't fit; the quota is enforced again when the upload completes
+      if (!(await hasStorageFor(connection, ownerId, options.size))) {
+        return { success: false, error: 'Storage quota exceeded', code: QUOTA_EXCEEDED };
+      }
+
+      const chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
+
+      if (chunkSize < MIN_CHUNK_SIZE || chunkSize > MAX_CHUNK_SIZE) {
+        return {
+          success: false,
+          error: `Chunk size must be between ${MIN_CHUNK_SIZE} and ${MAX_CHUNK_SIZE} bytes`
+        };
+      }
+
+      const sessionId = randomUUID();
+      const chunkCount = Math.ceil(options.size / chunkSize);
+
+      // Start transaction
+      await connection.beginTransaction();
+
+      await connection.query(
+        `INSERT INTO upload_sessions
+         (session_id, user_id, folder_id, name, mime_type, size, chunk_size, chunk_count, metadata, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, NOW() + INTERVAL ? HOUR)`,
+        [
+          sessionId,
+          userId,
+          folderId,
+          options.name,
+          mimeType,
+          options.size,
+          chunkSize,
+          chunkCount,
+          options.metadata ? JSON.stringify(options.metadata) : null,
+          UPLOAD_SESSION_TTL_HOURS
+        ]
+      );
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId,
+        action: 'upload_session.create',
+        folderId,
+        newValue: { session_id: sessionId, name: options.name, size: options.size }
+      }, client);
+
+      // Commit transaction
+      await connection.commit();
+
+      const [sessions] = await connection.query(
+        `SELECT * FROM upload_sessions WHERE session_id = ?`,
+        [sessionId]
+      ) as [RowDataPacket[], any];
+
+      return { success: true, session: formatSession(sessions[0], []) };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error creating upload session:', error);
+      return { success: false, error: 'Failed to create upload session' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Get an upload session, including which chunks have been received
+  getSession: async (userId: number, sessionId: string) => {
+    const connection = await pool.getConnection();
+
+    try {
+      const [sessions] = await connection.query(
+        `SELECT * FROM upload_sessions WHERE session_id = ? AND user_id = ? AND expires_at > NOW()`,
+        [sessionId, userId]
+      ) as [RowDataPacket[], any];
+
+      if (sessions.length === 0) {
+        return { success: false, error: 'Upload session not found' };
+      }
+
+      const [chunks] = await connection.query(
+        `SELECT chunk_index FROM upload_session_chunks WHERE session_id = ? ORDER BY chunk_index ASC`,
+        [sessionId]
+      ) as [RowDataPacket[], any];
+
+      return {
+        success: true,
+        session: formatSession(sessions[0], chunks.map((chunk: RowDataPacket) => chunk.chunk_index))
+      };
+    } catch (error) {
+      console.error('Error getting upload session:', error);
+      return { success: false, error: 'Failed to get upload session' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Store one chunk of an upload after checking its size and SHA-256 checksum.
+  // Sending a chunk again replaces the earlier copy.
+  uploadChunk: async (
+    userId: number,
+    sessionId: string,
+    chunkIndex: number,
+    data: Buffer,
+    checksum: string
+  ) => {
+    const connection = await pool.getConnection();
+
+    try {
+      const [sessions] = await connection.query(
+        `SELECT * FROM upload_sessions WHERE session_id = ? AND user_id = ? AND expires_at > NOW()`,
+        [sessionId, userId]
+      ) as [RowDataPacket[], any];
+
+      if (sessions.length === 0) {
+        return { success: false, error: 'Upload session not found' };
+      }
+
+      const session = sessions[0];
+
+      if (chunkIndex < 0 || chunkIndex >= session.chunk_count) {
+        return { success: false, error: `Chunk index must be between 0 and ${session.chunk_count - 1}` };
+      }
+
+      const expectedSize = getExpectedChunkSize(session, chunkIndex);
+      if (data.length !== expectedSize) {
+        return { success: false, error: `Chunk ${chunkIndex} must be ${expectedSize} bytes, received ${data.length}` };
+      }
+
+      const actualChecksum = createHash('sha256').update(data).digest('hex');
+      if (actualChecksum !== checksum.toLowerCase()) {
+        return { success: false, error: 'Chunk checksum mismatch' };
+      }
+
+      // The first chunk holds the file's leading bytes: check the content matches
+      // the extension and record the detected MIME type
+      if (chunkIndex === 0) {
+        const validation = validateFileUpload({ name: session.name, size: Number(session.size) }, data);
+
+        if (!validation.isValid) {
+          return { success: false, error: validation.error };
+        }
+
+        await connection.query(
+          `UPDATE upload_sessions SET mime_type = ? WHERE session_id = ?`,
+          [validation.mimeType, sessionId]
+        );
+      }
+
+      await saveUploadChunk(sessionId, chunkIndex, data);
+
+      await connection.query(
+        `INSERT INTO upload_session_chunks (session_id, chunk_index, size, checksum)
+         VALUES (?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE size = VALUES(size), checksum = VALUES(checksum), received_at = NOW()`,
+        [sessionId, chunkIndex, data.length, actualChecksum]
+      );
+
+      // Activity keeps the session alive
+      await connection.query(
+        `UPDATE upload_sessions SET expires_at = NOW() + INTERVAL ? HOUR WHERE session_id = ?`,
+        [UPLOAD_SESSION_TTL_HOURS, sessionId]
+      );
+
+      return { success: true, chunk: { index: chunkIndex, size: data.length, checksum: actualChecksum } };
+    } catch (error) {
+      console.error('Error uploading chunk:', error);
+      return { success: false, error: 'Failed to upload chunk' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Assemble the received chunks into a file and add it to the target folder
+  completeSession: async (userId: number, sessionId: string, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+    let storedBlob: StoredBlob | null = null;
+
+    try {
+      // Start transaction
+      await connection.beginTransaction();
+
+      // Lock the session so it can only be completed once
+      const [sessions] = await connection.query(
+        `SELECT * FROM upload_sessions
+         WHERE session_id = ? AND user_id = ? AND expires_at > NOW()
+         FOR UPDATE`,
+        [sessionId, userId]
+      ) as [RowDataPacket[], any];
+
+      if (sessions.length === 0) {
+        await connection.rollback();
+        return { success: false, error: 'Upload session not found' };
+      }
+
+      const session = sessions[0];
+
+      const [chunks] = await connection.query(
+        `SELECT COUNT(*) AS received FROM upload_session_chunks WHERE session_id = ?`,
+        [sessionId]
+      ) as [RowDataPacket[], any];
+
+      if (Number(chunks[0].received) < session.chunk_count) {
+        await connection.rollback();
+        return { success: false, error: 'Not all chunks have been received' };
+      }
+
+      // Access is checked again, since it may have changed while the upload was in progress
+      let ownerId = userId;
+      if (session.folder_id) {
+        const access = await getFolderAccess(connection, userId, session.folder_id);
+
+        if (!access || !hasRole(access.role, 'editor')) {
+          await connection.rollback();
+          return { success: false, error: 'Folder not found' };
+        }
+
+        ownerId = access.folder.user_id;
+      }
+
+      // The folder's schema may have changed while the upload was in progress
+      const metadata = await resolveUploadMetadata(
+        connection,
+        ownerId,
+        session.folder_id,
+        session.name,
+        getSessionMetadata(session)
+      );
+
+      if (!metadata.entries) {
+        await connection.rollback();
+        return { success: false, error: metadata.error };
+      }
+
+      // Count the upload against the owner's quota
+      if (!(await reserveStorage(connection, ownerId, session.size))) {
+        await connection.rollback();
+        return { success: false, error: 'Storage quota exceeded', code: QUOTA_EXCEEDED };
+      }
+
+      // Assemble the chunks and store them; content that is already stored is shared
+      const staged = await stageUploadChunks(sessionId, session.chunk_count);
+      storedBlob = await storeStagedBlob(connection, staged);
+
+      // Record the file, or a new version of an existing file with the same name
+      const { fileId: fileDbId, created } = await saveFileRecord(connection, ownerId, session.folder_id, {
+        name: session.name,
+        filePath: storedBlob.filePath,
+        checksum: storedBlob.hash,
+        mimeType: session.mime_type,
+        size: session.size
+      });
+
+      await saveCustomMetadata(connection, fileDbId, metadata.entries);
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId,
+        action: 'file.upload',
+        fileId: fileDbId,
+        folderId: session.folder_id,
+        newValue: { name: session.name, size: session.size, checksum: storedBlob.hash }
+      }, client);
+
+      await connection.query(
+        `DELETE FROM upload_sessions WHERE session_id = ?`,
+        [sessionId]
+      );
+
+      // Commit transaction
+      await connection.commit();
+
+      queueThumbnails(storedBlob.filePath, session.mime_type);
+      queueContentIndexing(fileDbId);
+      publishChange({ type: created ? 'file.created' : 'file.updated', actorId: userId, fileId: fileDbId });
+
+      await deleteUploadChunks(sessionId);
+
+      // Get file details
+      const [files] = await connection.query(
+        `SELECT * FROM files WHERE file_id = ?`,
+        [fileDbId]
+      ) as [RowDataPacket[], any];
+
+      return {
+        success: true,
+        file: {
+          id: files[0].file_id,
+          name: files[0].name,
+          size: files[0].size,
+          mime_type: files[0].mime_type,
+          version: files[0].version,
+          checksum: files[0].checksum,
+          created_at: files[0].created_at,
+          updated_at: files[0].updated_at
+        }
+      };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+
+      // Remove the blob if it was only written for this upload
+      if (storedBlob) {
+        await removeUnreferencedBlobs([{ checksum: storedBlob.hash, file_path: storedBlob.filePath }]);
+      }
+
+      console.error('Error completing upload session:', error);
+      return { success: false, error: 'Failed to complete upload' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Abandon an upload session and discard its chunks
+  cancelSession: async (userId: number, sessionId: string, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Start transaction
+      await connection.beginTransaction();
+
+      // Sessions in shared folders belong to the folder tree's owner
+      const [sessions] = await connection.query(
+        `SELECT s.folder_id, s.name, s.size, COALESCE(f.user_id, s.user_id) AS owner_id
+         FROM upload_sessions s
+         LEFT JOIN folders f ON f.folder_id = s.folder_id
+         WHERE s.session_id = ? AND s.user_id = ?
+         FOR UPDATE`,
+        [sessionId, userId]
+      ) as [RowDataPacket[], any];
+
+      if (sessions.length === 0) {
+        await connection.rollback();
+        return { success: false, error: 'Upload session not found' };
+      }
+
+      await connection.query(
+        `DELETE FROM upload_sessions WHERE session_id = ?`,
+        [sessionId]
+      );
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: sessions[0].owner_id,
+        action: 'upload_session.cancel',
+        folderId: sessions[0].folder_id,
+        oldValue: { session_id: sessionId, name: sessions[0].name, size: Number(sessions[0].size) }
+      }, client);
+
+      // Commit transaction
+      await connection.commit();
+
+      await deleteUploadChunks(sessionId);
+
+      return { success: true };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error cancelling upload session:', error);
+      return { success: false, error: 'Failed to cancel upload session' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Delete expired sessions of all users and their chunks
+  purgeExpired: async () => {
+    const connection = await pool.getConnection();
+
+    try {
+      const [sessions] = await connection.query(
+        `SELECT session_id FROM upload_sessions WHERE expires_at <= NOW()`
+      ) as [RowDataPacket[], any];
+
+      let deleted = 0;
+
+      for (const session of sessions) {
+        // Skip sessions that received a chunk since they were selected
+        const [result] = await connection.query(
+          `DELETE FROM upload_sessions WHERE session_id = ? AND expires_at <= NOW()`,
+          [session.session_id]
+        ) as QueryResult;
+
+        if ((result as OkPacket).affectedRows > 0) {
+          await deleteUploadChunks(session.session_id);
+          deleted++;
+        }
+      }
+
+      return { success: true, deleted };
+    } catch (error) {
+      console.error('Error purging upload sessions:', error);
+      return { success: false, error: 'Failed to purge upload sessions' };
+    } finally {
+      connection.release();
+    }
+  }
+};
+
+export default uploadSessionController;
@@ -0,0 +1,620 @@
+// src/controllers/webhookController.ts
+import pool from '../config/database';
+import { randomUUID } from 'crypto';
+import { OkPacket, RowDataPacket } from 'mysql2';
+import { getFolderAccess, hasRole } from '../services/folderAccess';
+import { generateToken } from '../services/tokenService';
+import { recordAuditEvent } from '../services/auditLog';
+import {
+  BLOCKED_TARGET_ERROR,
+  getRetryDelaySeconds,
+  isBlockedWebhookTarget,
+  sendWebhook,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_TIMEOUT_MS
+} from '../services/webhooks';
+import { AuditClient } from '../types/auditTypes';
+import {
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_PING_EVENT,
+  WebhookEventType,
+  WebhookPayload
+} from '../types/webhookTypes';
+
+// Define types for MySQL results
+type QueryResult = [RowDataPacket[] | RowDataPacket[][] | OkPacket | OkPacket[], any];
+
+// Most webhooks a user can have
+const MAX_WEBHOOKS_PER_USER = 25;
+
+// Longest accepted receiver URL
+const MAX_WEBHOOK_URL_LENGTH = 2048;
+
+// Prefix that identifies webhook signing secrets
+const WEBHOOK_SECRET_PREFIX = 'whsec_';
+
+// Deliveries sent per run of the delivery job
+const DELIVERY_BATCH_SIZE = 50;
+
+// Webhooks sent to at the same time by one run of the delivery job
+const DELIVERY_CONCURRENCY = 8;
+
+// Most deliveries of one webhook sent per run, so a webhook with a backlog can't take a whole run
+const MAX_DELIVERIES_PER_WEBHOOK = 10;
+
+// Map a webhooks row to the public webhook shape
+const formatWebhook = (webhook: RowDataPacket): Webhook => ({
+  id: webhook.webhook_id,
+  url: webhook.url,
+  folder_id: webhook.folder_id,
+  events: webhook.event_types.split(','),
+  active: Boolean(webhook.active),
+  created_at: webhook.created_at,
+  updated_at: webhook.updated_at
+});
+
+// Map a webhook_deliveries row to the public delivery shape
+const formatDelivery = (delivery: RowDataPacket, includePayload = false): WebhookDelivery => ({
+  id: Number(delivery.delivery_id),
+  event_id: delivery.event_id,
+  event_type: delivery.event_type,
+  status: delivery.status,
+  attempts: delivery.attempts,
+  next_attempt_at: delivery.status === 'pending' ? delivery.next_attempt_at : null,
+  last_attempt_at: delivery.last_attempt_at,
+  response_status: delivery.response_status,
+  last_error: delivery.last_error,
+  created_at: delivery.created_at,
+  delivered_at: delivery.delivered_at,
+  ...(includePayload ? { payload: JSON.parse(delivery.payload) } : {})
+});
+
+// Check a receiver URL; returns an error message if it can't be used. Hosts that can't be
+// resolved yet are accepted; every delivery checks the address again.
+const checkWebhookUrl = async (url: string): Promise<string | null> => {
+  if (url.length > MAX_WEBHOOK_URL_LENGTH) {
+    return `URL must be at most ${MAX_WEBHOOK_URL_LENGTH} characters`;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Invalid URL';
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return 'URL must use http or https';
+  }
+
+  const blocked = await isBlockedWebhookTarget(url).catch(() => false);
+  return blocked ? BLOCKED_TARGET_ERROR : null;
+};
+
+// Check event types; returns an error message if any is unknown
+const checkEventTypes = (events: string[]): string | null => {
+  if (events.length === 0) {
+    return 'At least one event type is required';
+  }
+
+  const unknownEvents = events.filter(event => !WEBHOOK_EVENT_TYPES.includes(event as WebhookEventType));
+  return unknownEvents.length === 0
+    ? null
+    : `Invalid event types. Allowed event types: ${WEBHOOK_EVENT_TYPES.join(', ')}.`;
+};
+
+// Claim a due delivery so another server instance doesn't send it at the same time.
+// Returns false if it was claimed or sent already.
+const claimDelivery = async (deliveryId: number): Promise<boolean> => {
+  const connection = await pool.getConnection();
+
+  try {
+    const [claim] = await connection.query(
+      `UPDATE webhook_deliveries
+       SET next_attempt_at = NOW(3) + INTERVAL ? SECOND
+       WHERE delivery_id = ? AND status = 'pending' AND next_attempt_at <= NOW(3)`,
+      [Math.ceil(WEBHOOK_TIMEOUT_MS / 1000) + 30, deliveryId]
+    ) as QueryResult;
+
+    return (claim as OkPacket).affectedRows > 0;
+  } finally {
+    connection.release();
+  }
+};
+
+// Make one attempt at a delivery and record its outcome. Failed deliveries are retried
+// with exponential backoff until they run out of attempts, unless retry is off.
+// No connection is held while waiting for the receiver.
+// Returns the status of the delivery after the attempt.
+const attemptDelivery = async (delivery: RowDataPacket, retry: boolean): Promise<WebhookDeliveryStatus> => {
+  const result = await sendWebhook(delivery.url, delivery.secret, {
+    id: Number(delivery.delivery_id),
+    eventId: delivery.event_id,
+    eventType: delivery.event_type,
+    payload: delivery.payload
+  });
+
+  const attempts = delivery.attempts + 1;
+  const connection = await pool.getConnection();
+
+  try {
+    if (!result.error) {
+      await connection.query(
+        `UPDATE webhook_deliveries
+         SET status = 'succeeded', attempts = ?, last_attempt_at = NOW(3), delivered_at = NOW(3),
+           response_status = ?, last_error = NULL
+         WHERE delivery_id = ?`,
+        [attempts, result.status, delivery.delivery_id]
+      );
+      return 'succeeded';
+    }
+
+    const status: WebhookDeliveryStatus = retry && attempts < WEBHOOK_MAX_ATTEMPTS ? 'pending' : 'failed';
+
+    await connection.query(
+      `UPDATE webhook_deliveries
+       SET status = ?, attempts = ?, last_attempt_at = NOW(3),
+         next_attempt_at = NOW(3) + INTERVAL ? SECOND, response_status = ?, last_error = ?
+       WHERE delivery_id = ?`,
+      [status, attempts, getRetryDelaySeconds(attempts), result.status, result.error, delivery.delivery_id]
+    );
+
+    return status;
+  } finally {
+    connection.release();
+  }
+};
+
+export const webhookController = {
+  // Subscribe a URL to events of the user's folder tree, or of a folder subtree
+  createWebhook: async (
+    userId: number,
+    options: { url: string; events: string[]; folderId?: number | null },
+    client?: AuditClient
+  ) => {
+    const connection = await pool.getConnection();
+
+    try {
+      const urlError = await checkWebhookUrl(options.url);
+      if (urlError) {
+        return { success: false, error: urlError };
+      }
+
+      const eventsError = checkEventTypes(options.events);
+      if (eventsError) {
+        return { success: false, error: eventsError };
+      }
+
+      // Viewing a folder is enough to hear about changes in it
+      const folderId = options.folderId || null;
+      let ownerId = userId;
+      if (folderId) {
+        const access = await getFolderAccess(connection, userId, folderId);
+
+        if (!access || !hasRole(access.role, 'viewer')) {
+          return { success: false, error: 'Folder not found' };
+        }
+
+        ownerId = access.folder.user_id;
+      }
+
+      const [counts] = await connection.query(
+        `SELECT COUNT(*) AS count FROM webhooks WHERE user_id = ?`,
+        [userId]
+      ) as [RowDataPacket[], any];
+
+      if (Number(counts[0].count) >= MAX_WEBHOOKS_PER_USER) {
+        return { success: false, error: `You can have at most ${MAX_WEBHOOKS_PER_USER} webhooks` };
+      }
+
+      const secret = `${WEBHOOK_SECRET_PREFIX}${generateToken()}`;
+      const events = [...new Set(options.events)];
+
+      // Start transaction
+      await connection.beginTransaction();
+
+      // The secret is kept in clear text because every request is signed with it
+      const [result] = await connection.query(
+        `INSERT INTO webhooks (user_id, folder_id, url, secret, event_types) VALUES (?, ?, ?, ?, ?)`,
+        [userId, folderId, options.url, secret, events.join(',')]
+      ) as QueryResult;
+
+      const webhookId = (result as OkPacket).insertId;
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId,
+        action: 'webhook.create',
+        folderId,
+        newValue: { webhook_id: webhookId, url: options.url, events }
+      }, client);
+
+      // Commit transaction
+      await connection.commit();
+
+      const [webhooks] = await connection.query(
+        `SELECT * FROM webhooks WHERE webhook_id = ?`,
+        [webhookId]
+      ) as [RowDataPacket[], any];
+
+      return {
+        success: true,
+        webhook: formatWebhook(webhooks[0]),
+        // Signing secret is only returned here and cannot be retrieved later
+        secret
+      };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error creating webhook:', error);
+      return { success: false, error: 'Failed to create webhook' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // List the user's webhooks
+  getWebhooks: async (userId: number) => {
+    const connection = await pool.getConnection();
+
+    try {
+      const [webhooks] = await connection.query(
+        `SELECT * FROM webhooks WHERE user_id = ? ORDER BY created_at DESC`,
+        [userId]
+      ) as [RowDataPacket[], any];
+
+      return { success: true, webhooks: webhooks.map(formatWebhook) };
+    } catch (error) {
+      console.error('Error getting webhooks:', error);
+      return { success: false, error: 'Failed to get webhooks' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Change the URL or events of a webhook, or pause and resume it
+  updateWebhook: async (
+    userId: number,
+    webhookId: number,
+    changes: { url?: string; events?: string[]; active?: boolean },
+    client?: AuditClient
+  ) => {
+    const connection = await pool.getConnection();
+
+    try {
+      if (changes.url !== undefined) {
+        const urlError = await checkWebhookUrl(changes.url);
+        if (urlError) {
+          return { success: false, error: urlError };
+        }
+      }
+
+      if (changes.events !== undefined) {
+        const eventsError = checkEventTypes(changes.events);
+        if (eventsError) {
+          return { success: false, error: eventsError };
+        }
+      }
+
+      // Start transaction
+      await connection.beginTransaction();
+
+      const [webhooks] = await connection.query(
+        `SELECT w.*, COALESCE(f.user_id, w.user_id) AS owner_id
+         FROM webhooks w
+         LEFT JOIN folders f ON f.folder_id = w.folder_id
+         WHERE w.webhook_id = ? AND w.user_id = ?
+         FOR UPDATE`,
+        [webhookId, userId]
+      ) as [RowDataPacket[], any];
+
+      if (webhooks.length === 0) {
+        await connection.rollback();
+        return { success: false, error: 'Webhook not found' };
+      }
+
+      const current = formatWebhook(webhooks[0]);
+      const updated = {
+        url: changes.url ?? current.url,
+        events: changes.events ? [...new Set(changes.events)] : current.events,
+        active: changes.active ?? current.active
+      };
+
+      await connection.query(
+        `UPDATE webhooks SET url = ?, event_types = ?, active = ? WHERE webhook_id = ?`,
+        [updated.url, updated.events.join(','), updated.active, webhookId]
+      );
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: webhooks[0].owner_id,
+        action: 'webhook.update',
+        folderId: current.folder_id,
+        oldValue: { webhook_id: webhookId, url: current.url, events: current.events, active: current.active },
+        newValue: { webhook_id: webhookId, ...updated }
+      }, client);
+
+      // Commit transaction
+      await connection.commit();
+
+      const [updatedWebhooks] = await connection.query(
+        `SELECT * FROM webhooks WHERE webhook_id = ?`,
+        [webhookId]
+      ) as [RowDataPacket[], any];
+
+      return { success: true, webhook: formatWebhook(updatedWebhooks[0]) };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error updating webhook:', error);
+      return { success: false, error: 'Failed to update webhook' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Delete a webhook along with its delivery log
+  deleteWebhook: async (userId: number, webhookId: number, client?: AuditClient) => {
+    const connection = await pool.getConnection();
+
+    try {
+      // Start transaction
+      await connection.beginTransaction();
+
+      const [webhooks] = await connection.query(
+        `SELECT w.*, COALESCE(f.user_id, w.user_id) AS owner_id
+         FROM webhooks w
+         LEFT JOIN folders f ON f.folder_id = w.folder_id
+         WHERE w.webhook_id = ? AND w.user_id = ?
+         FOR UPDATE`,
+        [webhookId, userId]
+      ) as [RowDataPacket[], any];
+
+      if (webhooks.length === 0) {
+        await connection.rollback();
+        return { success: false, error: 'Webhook not found' };
+      }
+
+      await connection.query(`DELETE FROM webhooks WHERE webhook_id = ?`, [webhookId]);
+
+      await recordAuditEvent(connection, {
+        actorId: userId,
+        ownerId: webhooks[0].owner_id,
+        action: 'webhook.delete',
+        folderId: webhooks[0].folder_id,
+        oldValue: { webhook_id: webhookId, url: webhooks[0].url, events: webhooks[0].event_types.split(',') }
+      }, client);
+
+      // Commit transaction
+      await connection.commit();
+
+      return { success: true };
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error deleting webhook:', error);
+      return { success: false, error: 'Failed to delete webhook' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Send a ping event to a webhook right away and report how the receiver responded
+  testWebhook: async (userId: number, webhookId: number) => {
+    let delivery: RowDataPacket;
+    let connection = await pool.getConnection();
+
+    try {
+      const [webhooks] = await connection.query(
+        `SELECT * FROM webhooks WHERE webhook_id = ? AND user_id = ?`,
+        [webhookId, userId]
+      ) as [RowDataPacket[], any];
+
+      if (webhooks.length === 0) {
+        return { success: false, error: 'Webhook not found' };
+      }
+
+      const webhook = webhooks[0];
+      const payload: WebhookPayload = {
+        id: randomUUID(),
+        type: WEBHOOK_PING_EVENT,
+        created_at: new Date().toISOString(),
+        data: { webhook_id: webhookId }
+      };
+
+      // The ping is logged like any other delivery, but isn't retried
+      const [result] = await connection.query(
+        `INSERT INTO webhook_deliveries (webhook_id, event_id, event_type, payload) VALUES (?, ?, ?, ?)`,
+        [webhookId, payload.id, WEBHOOK_PING_EVENT, JSON.stringify(payload)]
+      ) as QueryResult;
+
+      delivery = {
+        ...webhook,
+        delivery_id: (result as OkPacket).insertId,
+        event_id: payload.id,
+        event_type: WEBHOOK_PING_EVENT,
+        payload: JSON.stringify(payload),
+        attempts: 0
+      } as RowDataPacket;
+    } catch (error) {
+      console.error('Error testing webhook:', error);
+      return { success: false, error: 'Failed to test webhook' };
+    } finally {
+      connection.release();
+    }
+
+    // Sent without holding a connection, so a slow receiver doesn't tie one up
+    try {
+      await attemptDelivery(delivery, false);
+    } catch (error) {
+      console.error('Error testing webhook:', error);
+      return { success: false, error: 'Failed to test webhook' };
+    }
+
+    connection = await pool.getConnection();
+
+    try {
+      const [deliveries] = await connection.query(
+        `SELECT * FROM webhook_deliveries WHERE delivery_id = ?`,
+        [delivery.delivery_id]
+      ) as [RowDataPacket[], any];
+
+      return { success: true, delivery: formatDelivery(deliveries[0], true) };
+    } catch (error) {
+      console.error('Error testing webhook:', error);
+      return { success: false, error: 'Failed to test webhook' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // List the deliveries of a webhook, newest first
+  getDeliveries: async (
+    userId: number,
+    webhookId: number,
+    options: { status?: WebhookDeliveryStatus; limit: number; offset: number }
+  ) => {
+    const connection = await pool.getConnection();
+
+    try {
+      const [webhooks] = await connection.query(
+        `SELECT webhook_id FROM webhooks WHERE webhook_id = ? AND user_id = ?`,
+        [webhookId, userId]
+      ) as [RowDataPacket[], any];
+
+      if (webhooks.length === 0) {
+        return { success: false, error: 'Webhook not found' };
+      }
+
+      const statusFilter = options.status ? 'AND status = ?' : '';
+      const params: any[] = options.status ? [webhookId, options.status] : [webhookId];
+
+      const [deliveries] = await connection.query(
+        `SELECT * FROM webhook_deliveries
+         WHERE webhook_id = ? ${statusFilter}
+         ORDER BY created_at DESC, delivery_id DESC
+         LIMIT ? OFFSET ?`,
+        [...params, options.limit, options.offset]
+      ) as [RowDataPacket[], any];
+
+      const [counts] = await connection.query(
+        `SELECT COUNT(*) AS total FROM webhook_deliveries WHERE webhook_id = ? ${statusFilter}`,
+        params
+      ) as [RowDataPacket[], any];
+
+      return {
+        success: true,
+        deliveries: deliveries.map(delivery => formatDelivery(delivery, true)),
+        pagination: {
+          offset: options.offset,
+          limit: options.limit,
+          total: Number(counts[0].total)
+        }
+      };
+    } catch (error) {
+      console.error('Error getting webhook deliveries:', error);
+      return { success: false, error: 'Failed to get webhook deliveries' };
+    } finally {
+      connection.release();
+    }
+  },
+
+  // Send the deliveries that are due, for all users.
+  // Webhooks are served side by side, each one's deliveries in order. A webhook whose receiver
+  // fails is skipped for the rest of the run, so a dead receiver only holds up its own deliveries.
+  deliverPending: async () => {
+    let deliveries: RowDataPacket[];
+    const connection = await pool.getConnection();
+
+    try {
+      [deliveries] = await connection.query(
+        `SELECT * FROM (
+           SELECT d.delivery_id, d.webhook_id, d.event_id, d.event_type, d.payload, d.attempts,
+             d.next_attempt_at, w.url, w.secret,
+             ROW_NUMBER() OVER (PARTITION BY d.webhook_id ORDER BY d.next_attempt_at, d.delivery_id) AS position
+           FROM webhook_deliveries d
+           JOIN webhooks w ON w.webhook_id = d.webhook_id
+           WHERE d.status = 'pending' AND d.next_attempt_at <= NOW(3) AND w.active = TRUE
+         ) due
+         WHERE due.position <= ?
+         ORDER BY due.next_attempt_at ASC, due.delivery_id ASC
+         LIMIT ?`,
+        [MAX_DELIVERIES_PER_WEBHOOK, DELIVERY_BATCH_SIZE]
+      ) as [RowDataPacket[], any];
+    } catch (error) {
+      console.error('Error delivering webhooks:', error);
+      return { success: false, error: 'Failed to deliver webhooks' };
+    } finally {
+      connection.release();
+    }
+
+    // Group the deliveries by webhook, keeping their order
+    const queues = new Map<number, RowDataPacket[]>();
+    for (const delivery of deliveries) {
+      const queue = queues.get(delivery.webhook_id) || [];
+      queue.push(delivery);
+      queues.set(delivery.webhook_id, queue);
+    }
+
+    const pending = [...queues.values()];
+    let delivered = 0;
+    let failed = 0;
+
+    // Each worker sends the deliveries of one webhook at a time
+    const runWorker = async () => {
+      for (let queue = pending.shift(); queue; queue = pending.shift()) {
+        for (const delivery of queue) {
+          if (!(await claimDelivery(delivery.delivery_id))) {
+            continue;
+          }
+
+          const status = await attemptDelivery(delivery, true);
+
+          if (status === 'succeeded') {
+            delivered++;
+            continue;
+          }
+
+          if (status === 'failed') {
+            failed++;
+          }
+          break;
+        }
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: Math.min(DELIVERY_CONCURRENCY, pending.length) }, runWorker));
+
+      return { success: true, delivered, failed };
+    } catch (error) {
+      console.error('Error delivering webhooks:', error);
+      return { success: false, error: 'Failed to deliver webhooks' };
+    }
+  },
+
+  // Delete finished deliveries older than the retention period, for all users
+  purgeDeliveries: async (retentionDays: number) => {
+    const connection = await pool.getConnection();
+
+    try {
+      const [result] = await connection.query(
+        `DELETE FROM webhook_deliveries
+         WHERE status != 'pending' AND created_at < NOW(3) - INTERVAL ? DAY`,
+        [retentionDays]
+      ) as QueryResult;
+
+      return { success: true, deleted: (result as OkPacket).affectedRows };
+    } catch (error) {
+      console.error('Error purging webhook deliveries:', error);
+      return { success: false, error: 'Failed to purge webhook deliveries' };
+    } finally {
+      connection.release();
+    }
+  }
+};
+
+export default webhookController;
@@ -1,11 +1,30 @@
 // src/index.ts
 import { Elysia } from 'elysia';
 import { swagger } from '@elysiajs/swagger';
+import { authRoutes } from './routes/authRoutes';
+import { apiTokenRoutes } from './routes/apiTokenRoutes';
+import { accountRoutes } from './routes/accountRoutes';
+import { groupRoutes } from './routes/groupRoutes';
+import { shareLinkRoutes } from './routes/shareLinkRoutes';
+import { publicShareRoutes } from './routes/publicShareRoutes';
 import { fileRoutes } from './routes/fileRoutes';
 import { folderRoutes } from './routes/folderRoutes';
+import { uploadSessionRoutes } from './routes/uploadSessionRoutes';
+import { trashRoutes } from './routes/trashRoutes';
+import { searchRoutes } from './routes/searchRoutes';
+import { tagRoutes } from './routes/tagRoutes';
+import { auditRoutes } from './routes/auditRoutes';
+import { webhookRoutes } from './routes/webhookRoutes';
+import { changeRoutes } from './routes/changeRoutes';
 import { testConnection, initDatabase } from './config/database';
 import { testRedisConnection } from './config/redis';
-import { initializeStorage } from './services/fileStorage';
+import { initializeStorage } from './config/storage';
+import { startTrashPurgeJob } from './services/trashPurgeJob';
+import { startUploadSessionCleanupJob } from './services/uploadSessionCleanupJob';
+import { startWebhookDeliveryJob } from './services/webhookDeliveryJob';
+import { startChangeNotifications } from './services/changeNotifications';
+import { setAuditServer } from './services/auditLog';
+import { isJwtSecretConfigured } from './services/tokenService';
 
 // Server configuration
 const PORT = process.env.PORT || 5000;
@@ -21,8 +40,20 @@ const app = new Elysia()
         description: 'API for the CMED Emporium file management system'
       },
       tags: [
+        { name: 'auth', description: 'Authentication' },
+        { name: 'tokens', description: 'API token management' },
+        { name: 'account', description: 'Current user account and storage usage' },
+        { name: 'groups', description: 'User groups for folder sharing' },
+        { name: 'share-links', description: 'Public share links' },
         { name: 'files', description: 'File operations' },
-        { name: 'folders', description: 'Folder operations' }
+        { name: 'uploads', description: 'Resumable chunked uploads' },
+        { name: 'folders', description: 'Folder operations' },
+        { name: 'trash', description: 'Trash bin' },
+        { name: 'search', description: 'Search' },
+        { name: 'tags', description: 'Tags on files and folders' },
+        { name: 'audit', description: 'Audit log of file and folder operations' },
+        { name: 'webhooks', description: 'Outgoing webhooks for file and folder events' },
+        { name: 'changes', description: 'Real-time change notifications' }
       ]
     }
   }))
@@ -32,7 +63,7 @@ const app = new Elysia()
     if (request.method === 'OPTIONS') {
       set.headers['Access-Control-Allow-Origin'] = '*';
       set.headers['Access-Control-Allow-Methods'] = 'GET, POST, PUT, DELETE, PATCH, OPTIONS';
-      set.headers['Access-Control-Allow-Headers'] = 'Content-Type, Authorization';
+      set.headers['Access-Control-Allow-Headers'] = 'Content-Type, Authorization, X-API-Key, X-Share-Password, X-Chunk-Checksum';
       set.status = 204;
       return '';
     }
@@ -58,8 +89,21 @@ const app = new Elysia()
     timestamp: new Date().toISOString()
   }))
   // API routes
+  .use(authRoutes)
+  .use(apiTokenRoutes)
+  .use(accountRoutes)
+  .use(groupRoutes)
+  .use(shareLinkRoutes)
+  .use(publicShareRoutes)
   .use(fileRoutes)
+  .use(uploadSessionRoutes)
   .use(folderRoutes)
+  .use(trashRoutes)
+  .use(searchRoutes)
+  .use(tagRoutes)
+  .use(auditRoutes)
+  .use(webhookRoutes)
+  .use(changeRoutes)
   // Default 404 route
   .all('*', ({ set }) => {
     set.status = 404;
@@ -68,6 +112,12 @@ const app = new Elysia()
 
 // Startup function
 const startup = async () => {
+  // Refuse to sign tokens with the public development secret
+  if (!isJwtSecretConfigured()) {
+    console.error('JWT_SECRET is not set (set NODE_ENV=development to use the development secret). Exiting...');
+    process.exit(1);
+  }
+  
   // Test database connection
   const dbConnected = await testConnection();
   if (!dbConnected) {
@@ -96,8 +146,23 @@ const startup = async () => {
     process.exit(1);
   }
   
+  // Start purging expired trash
+  startTrashPurgeJob();
+  
+  // Start removing abandoned upload sessions
+  startUploadSessionCleanupJob();
+  
+  // Start sending queued webhook deliveries
+  startWebhookDeliveryJob();
+  
+  // Start receiving changes from all server instances for real-time notifications
+  startChangeNotifications();
+  
   // Start server
-  app.listen(3002, () => {
+  app.listen(3002, (server) => {
+    // Client addresses in the audit log come from the server
+    setAuditServer(server);
+    
     console.log(`🚀 Server is running at http://localhost:${PORT}`);
     console.log(`📚 Swagger documentation: http://localhost:${PORT}/swagger`);
   });
@@ -0,0 +1,21 @@
+// src/routes/accountRoutes.ts
+import { Elysia } from 'elysia';
+import { accountController } from '../controllers/accountController';
+import { authMiddleware, requireScope } from '../middleware/authMiddleware';
+
+export const accountRoutes = new Elysia({ prefix: '/api/me', scoped: true })
+  .use(authMiddleware)
+
+  // Get storage usage
+  .get('/usage', async ({ set, userId }) => {
+    const result = await accountController.getUsage(userId);
+
+    if (!result.success) {
+      set.status = 404;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireScope('files:read')
+  });
@@ -0,0 +1,73 @@
+// src/routes/apiTokenRoutes.ts
+import { Elysia, t } from 'elysia';
+import { apiTokenController } from '../controllers/apiTokenController';
+import { authMiddleware, requireSession } from '../middleware/authMiddleware';
+
+export const apiTokenRoutes = new Elysia({ prefix: '/api/tokens', scoped: true })
+  .use(authMiddleware)
+
+  // Create an API token
+  .post('/', async ({ body, set, userId, client }) => {
+    const { name, scopes, expiresAt } = body;
+
+    if (!name.trim()) {
+      set.status = 400;
+      return { success: false, error: 'Token name is required' };
+    }
+
+    const expiryDate = expiresAt ? new Date(expiresAt) : null;
+
+    if (expiryDate && isNaN(expiryDate.getTime())) {
+      set.status = 400;
+      return { success: false, error: 'Invalid expiry date' };
+    }
+
+    const result = await apiTokenController.createToken(userId, name.trim(), scopes, expiryDate, client);
+
+    if (!result.success) {
+      set.status = 400;
+      return result;
+    }
+
+    set.status = 201;
+    return result;
+  }, {
+    beforeHandle: requireSession,
+    body: t.Object({
+      name: t.String({ maxLength: 255 }),
+      scopes: t.Array(t.String()),
+      expiresAt: t.Optional(t.String())
+    })
+  })
+
+  // List API tokens
+  .get('/', async ({ userId }) => {
+    const result = await apiTokenController.listTokens(userId);
+    return result;
+  }, {
+    beforeHandle: requireSession
+  })
+
+  // Revoke an API token
+  .delete('/:tokenId', async ({ params, set, userId, client }) => {
+    const tokenId = parseInt(params.tokenId);
+
+    if (isNaN(tokenId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid token ID' };
+    }
+
+    const result = await apiTokenController.revokeToken(userId, tokenId, client);
+
+    if (!result.success) {
+      set.status = 404;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireSession,
+    params: t.Object({
+      tokenId: t.String()
+    })
+  });
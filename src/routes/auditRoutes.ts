@@ -0,0 +1,136 @@
+// src/routes/auditRoutes.ts
+import { Elysia, t } from 'elysia';
+import { auditController } from '../controllers/auditController';
+import { authMiddleware, requireScope } from '../middleware/authMiddleware';
+import { AUDIT_ACTIONS, AuditAction, AuditEventFilters } from '../types/auditTypes';
+
+// Page size limits for audit event listings
+const DEFAULT_AUDIT_LIMIT = 100;
+const MAX_AUDIT_LIMIT = 1000;
+
+// Query parameters accepted by both the listing and the export
+const auditFilterQuery = {
+  action: t.Optional(t.String()),
+  actorId: t.Optional(t.String()),
+  fileId: t.Optional(t.String()),
+  folderId: t.Optional(t.String()),
+  from: t.Optional(t.String()),
+  to: t.Optional(t.String())
+};
+
+// Parse an optional ID query parameter; NaN if it is invalid
+const parseId = (value: string | undefined): number | null => {
+  if (value === undefined) {
+    return null;
+  }
+  return /^\d+$/.test(value) ? parseInt(value) : NaN;
+};
+
+/**
+ * Get the filters of an audit log query from its query parameters
+ * @param query The query parameters; action is a comma-separated list
+ * @returns The filters, or an error message
+ */
+const parseAuditFilters = (query: {
+  action?: string;
+  actorId?: string;
+  fileId?: string;
+  folderId?: string;
+  from?: string;
+  to?: string;
+}): { filters?: AuditEventFilters; error?: string } => {
+  const actions = query.action ? query.action.split(',').map(action => action.trim()).filter(Boolean) : [];
+  const unknownAction = actions.find(action => !AUDIT_ACTIONS.includes(action as AuditAction));
+
+  if (unknownAction) {
+    return { error: `Unknown action "${unknownAction}". Allowed actions: ${AUDIT_ACTIONS.join(', ')}.` };
+  }
+
+  const actorId = parseId(query.actorId);
+  const fileId = parseId(query.fileId);
+  const folderId = parseId(query.folderId);
+
+  if (Number.isNaN(actorId) || Number.isNaN(fileId) || Number.isNaN(folderId)) {
+    return { error: 'actorId, fileId and folderId must be non-negative integers' };
+  }
+
+  const from = query.from ? new Date(query.from) : null;
+  const to = query.to ? new Date(query.to) : null;
+
+  if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+    return { error: 'Dates must be in ISO 8601 format' };
+  }
+
+  return {
+    filters: { actions: actions as AuditAction[], actorId, fileId, folderId, from, to }
+  };
+};
+
+export const auditRoutes = new Elysia({ prefix: '/api/audit', scoped: true })
+  .use(authMiddleware)
+
+  // List audit events of the user's folder trees and the user's own actions
+  .get('/', async ({ query, set, userId }) => {
+    const { filters, error } = parseAuditFilters(query);
+
+    if (!filters) {
+      set.status = 400;
+      return { success: false, error };
+    }
+
+    const limit = query.limit !== undefined ? parseInt(query.limit) : DEFAULT_AUDIT_LIMIT;
+    const offset = query.offset !== undefined ? parseInt(query.offset) : 0;
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_AUDIT_LIMIT || isNaN(offset) || offset < 0) {
+      set.status = 400;
+      return {
+        success: false,
+        error: `limit must be between 1 and ${MAX_AUDIT_LIMIT} and offset must not be negative`
+      };
+    }
+
+    const result = await auditController.getEvents(userId, filters, { limit, offset });
+
+    if (!result.success) {
+      set.status = 500;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireScope('audit:read'),
+    query: t.Object({
+      ...auditFilterQuery,
+      limit: t.Optional(t.String()),
+      offset: t.Optional(t.String())
+    })
+  })
+
+  // Export audit events as CSV
+  .get('/export', async ({ query, set, userId }) => {
+    const { filters, error } = parseAuditFilters(query);
+
+    if (!filters) {
+      set.status = 400;
+      return { success: false, error };
+    }
+
+    const result = await auditController.exportEvents(userId, filters);
+
+    if (!result.success || result.csv === undefined) {
+      set.status = result.error === 'Failed to export audit events' ? 500 : 400;
+      return result;
+    }
+
+    return new Response(result.csv, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="audit-log.csv"',
+        'X-Content-Type-Options': 'nosniff'
+      }
+    });
+  }, {
+    beforeHandle: requireScope('audit:read'),
+    query: t.Object(auditFilterQuery)
+  });
@@ -0,0 +1,77 @@
+// src/routes/authRoutes.ts
+import { Elysia, t } from 'elysia';
+import { authController } from '../controllers/authController';
+import { getRequestClient } from '../services/auditLog';
+
+export const authRoutes = new Elysia({ prefix: '/api/auth' })
+  // Register a new user
+  .post('/register', async ({ body, headers, request, set }) => {
+    const { username, email, password } = body;
+
+    const result = await authController.register(
+      username.trim(),
+      email.trim(),
+      password,
+      getRequestClient(request, headers)
+    );
+
+    if (!result.success) {
+      set.status = 400;
+      return result;
+    }
+
+    set.status = 201;
+    return result;
+  }, {
+    body: t.Object({
+      username: t.String({ minLength: 1, maxLength: 255 }),
+      email: t.String({ minLength: 3, maxLength: 255 }),
+      password: t.String()
+    })
+  })
+
+  // Log in
+  .post('/login', async ({ body, headers, request, set }) => {
+    const { username, password } = body;
+
+    const result = await authController.login(username.trim(), password, getRequestClient(request, headers));
+
+    if (!result.success) {
+      set.status = 401;
+      return result;
+    }
+
+    return result;
+  }, {
+    body: t.Object({
+      username: t.String(),
+      password: t.String()
+    })
+  })
+
+  // Refresh an access token
+  .post('/refresh', async ({ body, set }) => {
+    const result = await authController.refresh(body.refreshToken);
+
+    if (!result.success) {
+      set.status = 401;
+      return result;
+    }
+
+    return result;
+  }, {
+    body: t.Object({
+      refreshToken: t.String()
+    })
+  })
+
+  // Log out
+  .post('/logout', async ({ body, headers, request }) => {
+    const result = await authController.logout(body.refreshToken, getRequestClient(request, headers));
+
+    return result;
+  }, {
+    body: t.Object({
+      refreshToken: t.String()
+    })
+  });
@@ -0,0 +1,49 @@
+// src/routes/changeRoutes.ts
+import { Elysia, t } from 'elysia';
+import { changeController } from '../controllers/changeController';
+import { authMiddleware, requireScope } from '../middleware/authMiddleware';
+
+export const changeRoutes = new Elysia({ prefix: '/api/changes', scoped: true })
+  .use(authMiddleware)
+
+  // Stream changes to the user's tree or to some folders as server-sent events
+  .get('/stream', async ({ query, set, userId }) => {
+    const folderIds = query.folderIds
+      ? query.folderIds.split(',').map(folderId => folderId.trim()).filter(Boolean)
+      : [];
+
+    if (folderIds.some(folderId => !/^\d+$/.test(folderId))) {
+      set.status = 400;
+      return { success: false, error: 'folderIds must be a comma-separated list of folder IDs' };
+    }
+
+    const result = await changeController.openStream(userId, {
+      tree: query.tree === 'true',
+      folderIds: folderIds.map(folderId => parseInt(folderId))
+    });
+
+    if (!result.success || !result.stream) {
+      set.status = result.code === 'TOO_MANY_STREAMS' ? 429
+        : result.error === 'Folder not found' ? 404
+        : result.error === 'Failed to open change stream' ? 500
+        : 400;
+      return result;
+    }
+
+    return new Response(result.stream, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        // Keep nginx from buffering the stream
+        'X-Accel-Buffering': 'no'
+      }
+    });
+  }, {
+    beforeHandle: [requireScope('folders:read'), requireScope('files:read')],
+    query: t.Object({
+      tree: t.Optional(t.String()),
+      folderIds: t.Optional(t.String())
+    })
+  });
@@ -1,14 +1,26 @@
 // src/routes/fileRoutes.ts
 import { Elysia, t } from 'elysia';
 import { fileController } from '../controllers/fileController';
+import { fileVersionController } from '../controllers/fileVersionController';
+import { archiveController } from '../controllers/archiveController';
 import { UploadedFile } from '../types/fileTypes';
+import { sendArchive, sendFile } from '../utils/fileResponse';
+import { authMiddleware, requireScope } from '../middleware/authMiddleware';
+import { QUOTA_EXCEEDED } from '../services/storageQuota';
+import { BLOB_NOT_FOUND } from '../services/blobStore';
+import { ARCHIVE_LIMIT_EXCEEDED, ARCHIVE_TOO_LARGE, createZipStream } from '../services/zipArchive';
+import {
+  customMetadataChanges,
+  customMetadataValues,
+  INVALID_METADATA_FIELD_ERROR,
+  parseMetadataField
+} from '../utils/customMetadataBody';
 
-// Mock user ID for demonstration (replace with actual auth in production)
-const MOCK_USER_ID = 1;
+export const fileRoutes = new Elysia({ prefix: '/api/files', scoped: true })
+  .use(authMiddleware)
 
-export const fileRoutes = new Elysia({ prefix: '/api/files' })
   // Upload a file
-  .post('/upload', async ({ body, set }) => {
+  .post('/upload', async ({ body, set, userId, client }) => {
     const { file, folderId } = body as { file: UploadedFile; folderId?: number };
     
     if (!file) {
@@ -16,27 +28,39 @@ export const fileRoutes = new Elysia({ prefix: '/api/files' })
       return { success: false, error: 'No file provided' };
     }
     
+    // Custom metadata is sent as a JSON string
+    const metadata = parseMetadataField(body.metadata);
+    
+    if (!metadata) {
+      set.status = 400;
+      return { success: false, error: INVALID_METADATA_FIELD_ERROR };
+    }
+    
     const result = await fileController.uploadFile(
-      MOCK_USER_ID,
+      userId,
       file,
-      folderId || null
+      folderId || null,
+      metadata,
+      client
     );
     
     if (!result.success) {
-      set.status = 400;
+      set.status = result.code === QUOTA_EXCEEDED ? 413 : 400;
       return result;
     }
     
     return result;
   }, {
+    beforeHandle: requireScope('files:write'),
     body: t.Object({
       file: t.Any(),
-      folderId: t.Optional(t.Number())
+      folderId: t.Optional(t.Number()),
+      metadata: t.Optional(t.String())
     })
   })
 
   // Upload multiple files
-  .post('/upload/multiple', async ({ body, set }) => {
+  .post('/upload/multiple', async ({ body, set, userId, client }) => {
     const { files, folderId } = body as { files: UploadedFile[]; folderId?: number };
     
     if (!files || !Array.isArray(files) || files.length === 0) {
@@ -44,22 +68,116 @@ export const fileRoutes = new Elysia({ prefix: '/api/files' })
       return { success: false, error: 'No files provided' };
     }
     
+    // Custom metadata is sent as a JSON string and given to every file
+    const metadata = parseMetadataField(body.metadata);
+    
+    if (!metadata) {
+      set.status = 400;
+      return { success: false, error: INVALID_METADATA_FIELD_ERROR };
+    }
+    
     const result = await fileController.uploadMultipleFiles(
-      MOCK_USER_ID,
+      userId,
       files,
-      folderId || null
+      folderId || null,
+      metadata,
+      client
     );
     
+    if (!result.success) {
+      set.status = result.code === QUOTA_EXCEEDED ? 413 : 400;
+      return result;
+    }
+    
     return result;
   }, {
+    beforeHandle: requireScope('files:write'),
     body: t.Object({
       files: t.Array(t.Any()),
+      folderId: t.Optional(t.Number()),
+      metadata: t.Optional(t.String())
+    })
+  })
+
+  // Upload a ZIP archive and extract it into a folder
+  .post('/upload/extract', async ({ body, set, userId, client }) => {
+    const { file, folderId } = body as { file: UploadedFile; folderId?: number };
+    
+    if (!file) {
+      set.status = 400;
+      return { success: false, error: 'No file provided' };
+    }
+    
+    const result = await archiveController.extractArchive(userId, file, folderId || null, client);
+    
+    if (!result.success) {
+      set.status = result.code === ARCHIVE_LIMIT_EXCEEDED ? 413 : 400;
+      return result;
+    }
+    
+    return result;
+  }, {
+    beforeHandle: [requireScope('files:write'), requireScope('folders:write')],
+    body: t.Object({
+      file: t.Any(),
       folderId: t.Optional(t.Number())
     })
   })
 
+  // Create a file from content already stored on the server
+  .post('/upload/by-checksum', async ({ body, set, userId, client }) => {
+    const result = await fileController.uploadFromChecksum(
+      userId,
+      { checksum: body.checksum, name: body.name, metadata: body.metadata },
+      body.folderId || null,
+      client
+    );
+    
+    if (!result.success) {
+      set.status = result.code === QUOTA_EXCEEDED ? 413 : result.code === BLOB_NOT_FOUND ? 404 : 400;
+      return result;
+    }
+    
+    return result;
+  }, {
+    beforeHandle: requireScope('files:write'),
+    body: t.Object({
+      checksum: t.String({ pattern: '^[0-9a-fA-F]{64}$' }),
+      name: t.String({ minLength: 1, maxLength: 255 }),
+      folderId: t.Optional(t.Number()),
+      metadata: t.Optional(customMetadataValues)
+    })
+  })
+
+  // Download selected files and folders as a ZIP archive
+  .post('/download-zip', async ({ body, set, userId, client }) => {
+    const fileIds = body.fileIds || [];
+    const folderIds = body.folderIds || [];
+    
+    if (fileIds.length === 0 && folderIds.length === 0) {
+      set.status = 400;
+      return { success: false, error: 'No files or folders selected' };
+    }
+    
+    const result = await archiveController.getSelectionArchive(userId, { fileIds, folderIds }, client);
+    
+    if (!result.success || !result.archive) {
+      set.status = result.code === ARCHIVE_TOO_LARGE ? 413 : result.error === 'Failed to prepare archive' ? 500 : 404;
+      return result;
+    }
+    
+    // The archive is written while it is sent
+    return sendArchive(result.archive.name, createZipStream(result.archive.entries));
+  }, {
+    beforeHandle: requireScope('files:read'),
+    body: t.Object({
+      fileIds: t.Optional(t.Array(t.Integer(), { maxItems: 1000 })),
+      folderIds: t.Optional(t.Array(t.Integer(), { maxItems: 1000 }))
+    })
+  })
+
   // Download a file
-  .get('/:fileId/download', async ({ params, set }) => {
+  .get('/:fileId/download', async ({ params, query, headers, set, userId, client }) => {
     const fileId = parseInt(params.fileId);
     
     if (isNaN(fileId)) {
@@ -67,26 +185,54 @@ export const fileRoutes = new Elysia({ prefix: '/api/files' })
       return { success: false, error: 'Invalid file ID' };
     }
     
-    const result = await fileController.downloadFile(MOCK_USER_ID, fileId);
+    const result = await fileController.downloadFile(userId, fileId, client);
     
     if (!result.success || !result.file) {
       set.status = 404;
       return { success: false, error: 'File not found' };
     }
     
-    // Set content type and disposition headers
-    set.headers['Content-Type'] = result.file.mime_type || 'application/octet-stream';
-    set.headers['Content-Disposition'] = `attachment; filename="${encodeURIComponent(result.file.name)}"`;
+    // Stream the file, honouring range and conditional request headers
+    return sendFile(headers, result.file, query.disposition);
+  }, {
+    beforeHandle: requireScope('files:read'),
+    params: t.Object({
+      fileId: t.String()
+    }),
+    query: t.Object({
+      disposition: t.Optional(t.Union([t.Literal('inline'), t.Literal('attachment')]))
+    })
+  })
+
+  // Get a thumbnail of an image or PDF
+  .get('/:fileId/thumbnail', async ({ params, query, headers, set, userId }) => {
+    const fileId = parseInt(params.fileId);
+    
+    if (isNaN(fileId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid file ID' };
+    }
+    
+    const result = await fileController.getThumbnail(userId, fileId, query.size || 'medium');
+    
+    if (!result.success || !result.file) {
+      set.status = result.error === 'Failed to get thumbnail' ? 500 : 404;
+      return { success: false, error: result.error };
+    }
     
-    return result.file.data;
+    return sendFile(headers, result.file, 'inline');
   }, {
+    beforeHandle: requireScope('files:read'),
     params: t.Object({
       fileId: t.String()
+    }),
+    query: t.Object({
+      size: t.Optional(t.Union([t.Literal('small'), t.Literal('medium'), t.Literal('large')]))
     })
   })
 
   // Get file details
-  .get('/:fileId', async ({ params, set }) => {
+  .get('/:fileId', async ({ params, set, userId }) => {
     const fileId = parseInt(params.fileId);
     
     if (isNaN(fileId)) {
@@ -94,7 +240,7 @@ export const fileRoutes = new Elysia({ prefix: '/api/files' })
       return { success: false, error: 'Invalid file ID' };
     }
     
-    const result = await fileController.getFileDetails(MOCK_USER_ID, fileId);
+    const result = await fileController.getFileDetails(userId, fileId);
     
     if (!result.success) {
       set.status = 404;
@@ -103,13 +249,119 @@ export const fileRoutes = new Elysia({ prefix: '/api/files' })
     
     return result;
   }, {
+    beforeHandle: requireScope('files:read'),
+    params: t.Object({
+      fileId: t.String()
+    })
+  })
+
+  // Replace the custom metadata of a file
+  .put('/:fileId/metadata', async ({ params, body, set, userId, client }) => {
+    const fileId = parseInt(params.fileId);
+    
+    if (isNaN(fileId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid file ID' };
+    }
+    
+    const result = await fileController.updateMetadata(userId, fileId, body.metadata, true, client);
+    
+    if (!result.success) {
+      set.status = result.error === 'File not found' ? 404 : 400;
+      return result;
+    }
+    
+    return result;
+  }, {
+    beforeHandle: requireScope('files:write'),
     params: t.Object({
       fileId: t.String()
+    }),
+    body: t.Object({
+      metadata: customMetadataValues
+    })
+  })
+
+  // Change some custom metadata fields of a file
+  .patch('/:fileId/metadata', async ({ params, body, set, userId, client }) => {
+    const fileId = parseInt(params.fileId);
+    
+    if (isNaN(fileId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid file ID' };
+    }
+    
+    const result = await fileController.updateMetadata(userId, fileId, body.metadata, false, client);
+    
+    if (!result.success) {
+      set.status = result.error === 'File not found' ? 404 : 400;
+      return result;
+    }
+    
+    return result;
+  }, {
+    beforeHandle: requireScope('files:write'),
+    params: t.Object({
+      fileId: t.String()
+    }),
+    body: t.Object({
+      metadata: customMetadataChanges
     })
   })
 
   // Delete a file
-  .delete('/:fileId', async ({ params, set }) => {
+  .delete('/:fileId', async ({ params, set, userId, client }) => {
+    const fileId = parseInt(params.fileId);
+    
+    if (isNaN(fileId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid file ID' };
+    }
+    
+    const result = await fileController.deleteFile(userId, fileId, client);
+    
+    if (!result.success) {
+      set.status = 404;
+      return result;
+    }
+    
+    return result;
+  }, {
+    beforeHandle: requireScope('files:write'),
+    params: t.Object({
+      fileId: t.String()
+    })
+  })
+
+  // Rename a file
+  .patch('/:fileId/rename', async ({ params, body, set, userId, client }) => {
+    const fileId = parseInt(params.fileId);
+    
+    if (isNaN(fileId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid file ID' };
+    }
+    
+    const result = await fileController.renameFile(userId, fileId, body.name, client);
+    
+    if (!result.success) {
+      set.status = 404;
+      return result;
+    }
+    
+    return result;
+  }, {
+    beforeHandle: requireScope('files:write'),
+    params: t.Object({
+      fileId: t.String()
+    }),
+    body: t.Object({
+      name: t.String({ minLength: 1, maxLength: 255 })
+    })
+  })
+
+  // Move a file to another folder
+  .patch('/:fileId/move', async ({ params, body, set, userId, client }) => {
     const fileId = parseInt(params.fileId);
     
     if (isNaN(fileId)) {
@@ -117,7 +369,7 @@ export const fileRoutes = new Elysia({ prefix: '/api/files' })
       return { success: false, error: 'Invalid file ID' };
     }
     
-    const result = await fileController.deleteFile(MOCK_USER_ID, fileId);
+    const result = await fileController.moveFile(userId, fileId, body.folderId, client);
     
     if (!result.success) {
       set.status = 404;
@@ -126,20 +378,173 @@ export const fileRoutes = new Elysia({ prefix: '/api/files' })
     
     return result;
   }, {
+    beforeHandle: requireScope('files:write'),
+    params: t.Object({
+      fileId: t.String()
+    }),
+    body: t.Object({
+      folderId: t.Union([t.Number(), t.Null()])
+    })
+  })
+
+  // Copy a file
+  .post('/:fileId/copy', async ({ params, body, set, userId, client }) => {
+    const fileId = parseInt(params.fileId);
+    
+    if (isNaN(fileId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid file ID' };
+    }
+    
+    const result = await fileController.copyFile(userId, fileId, body.folderId, body.name, client);
+    
+    if (!result.success) {
+      set.status = result.code === QUOTA_EXCEEDED ? 413 : 404;
+      return result;
+    }
+    
+    return result;
+  }, {
+    beforeHandle: requireScope('files:write'),
     params: t.Object({
       fileId: t.String()
+    }),
+    body: t.Object({
+      folderId: t.Union([t.Number(), t.Null()]),
+      name: t.Optional(t.String({ minLength: 1, maxLength: 255 }))
     })
   })
 
   // Search files
-  .get('/search/:term', async ({ params }) => {
+  .get('/search/:term', async ({ params, userId }) => {
     const { term } = params;
     
-    const result = await fileController.searchFiles(MOCK_USER_ID, term);
+    const result = await fileController.searchFiles(userId, term);
     
     return result;
   }, {
+    beforeHandle: requireScope('files:read'),
     params: t.Object({
       term: t.String()
     })
-  });
\ No newline at end of file
+  })
+
+  // List file versions
+  .get('/:fileId/versions', async ({ params, set, userId }) => {
+    const fileId = parseInt(params.fileId);
+    
+    if (isNaN(fileId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid file ID' };
+    }
+    
+    const result = await fileVersionController.getVersions(userId, fileId);
+    
+    if (!result.success) {
+      set.status = 404;
+      return result;
+    }
+    
+    return result;
+  }, {
+    beforeHandle: requireScope('files:read'),
+    params: t.Object({
+      fileId: t.String()
+    })
+  })
+
+  // Download a previous version of a file
+  .get('/:fileId/versions/:versionId/download', async ({ params, query, headers, set, userId, client }) => {
+    const fileId = parseInt(params.fileId);
+    const versionId = parseInt(params.versionId);
+    
+    if (isNaN(fileId) || isNaN(versionId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid file or version ID' };
+    }
+    
+    const result = await fileVersionController.downloadVersion(userId, fileId, versionId, client);
+    
+    if (!result.success || !result.file) {
+      set.status = 404;
+      return { success: false, error: result.error };
+    }
+    
+    return sendFile(headers, result.file, query.disposition);
+  }, {
+    beforeHandle: requireScope('files:read'),
+    params: t.Object({
+      fileId: t.String(),
+      versionId: t.String()
+    }),
+    query: t.Object({
+      disposition: t.Optional(t.Union([t.Literal('inline'), t.Literal('attachment')]))
+    })
+  })
+
+  // Restore a previous version of a file
+  .post('/:fileId/versions/:versionId/restore', async ({ params, set, userId, client }) => {
+    const fileId = parseInt(params.fileId);
+    const versionId = parseInt(params.versionId);
+    
+    if (isNaN(fileId) || isNaN(versionId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid file or version ID' };
+    }
+    
+    const result = await fileVersionController.restoreVersion(userId, fileId, versionId, client);
+    
+    if (!result.success) {
+      set.status = 404;
+      return result;
+    }
+    
+    return result;
+  }, {
+    beforeHandle: requireScope('files:write'),
+    params: t.Object({
+      fileId: t.String(),
+      versionId: t.String()
+    })
+  })
+
+  // Prune previous versions by count and/or age
+  .delete('/:fileId/versions', async ({ params, query, set, userId, client }) => {
+    const fileId = parseInt(params.fileId);
+    const keep = query.keep !== undefined ? parseInt(query.keep) : undefined;
+    const olderThanDays = query.olderThanDays !== undefined ? parseInt(query.olderThanDays) : undefined;
+    
+    if (isNaN(fileId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid file ID' };
+    }
+    
+    if (keep === undefined && olderThanDays === undefined) {
+      set.status = 400;
+      return { success: false, error: 'Specify keep and/or olderThanDays' };
+    }
+    
+    if ((keep !== undefined && (isNaN(keep) || keep < 0)) ||
+      (olderThanDays !== undefined && (isNaN(olderThanDays) || olderThanDays < 0))) {
+      set.status = 400;
+      return { success: false, error: 'keep and olderThanDays must be non-negative numbers' };
+    }
+    
+    const result = await fileVersionController.pruneVersions(userId, fileId, { keep, olderThanDays }, client);
+    
+    if (!result.success) {
+      set.status = 404;
+      return result;
+    }
+    
+    return result;
+  }, {
+    beforeHandle: requireScope('files:write'),
+    params: t.Object({
+      fileId: t.String()
+    }),
+    query: t.Object({
+      keep: t.Optional(t.String()),
+      olderThanDays: t.Optional(t.String())
+    })
+  });
@@ -1,13 +1,25 @@
 // src/routes/folderRoutes.ts
 import { Elysia, t } from 'elysia';
 import { folderController } from '../controllers/folderController';
+import { folderShareController } from '../controllers/folderShareController';
+import { archiveController } from '../controllers/archiveController';
+import { SHARED_ROOT_ID } from '../types/shareTypes';
+import { authMiddleware, requireScope } from '../middleware/authMiddleware';
+import { QUOTA_EXCEEDED } from '../services/storageQuota';
+import { ARCHIVE_TOO_LARGE, createZipStream } from '../services/zipArchive';
+import { sendArchive } from '../utils/fileResponse';
+import { metadataFieldBody } from '../utils/customMetadataBody';
+import {
+  folderContentsQuery,
+  INVALID_CONTENTS_PAGE_ERROR,
+  parseFolderContentsOptions
+} from '../utils/folderContentsQuery';
 
-// Mock user ID for demonstration (replace with actual auth in production)
-const MOCK_USER_ID = 1;
+export const folderRoutes = new Elysia({ prefix: '/api/folders', scoped: true })
+  .use(authMiddleware)
 
-export const folderRoutes = new Elysia({ prefix: '/api/folders' })
   // Create a folder
-  .post('/', async ({ body, set }) => {
+  .post('/', async ({ body, set, userId, client }) => {
     const { name, parentFolderId } = body as { name: string; parentFolderId?: number };
     
     if (!name) {
@@ -16,9 +28,10 @@ export const folderRoutes = new Elysia({ prefix: '/api/folders' })
     }
     
     const result = await folderController.createFolder(
-      MOCK_USER_ID,
+      userId,
       name,
-      parentFolderId || null
+      parentFolderId || null,
+      client
     );
     
     if (!result.success) {
@@ -28,6 +41,7 @@ export const folderRoutes = new Elysia({ prefix: '/api/folders' })
     
     return result;
   }, {
+    beforeHandle: requireScope('folders:write'),
     body: t.Object({
       name: t.String(),
       parentFolderId: t.Optional(t.Number())
@@ -35,7 +49,7 @@ export const folderRoutes = new Elysia({ prefix: '/api/folders' })
   })
 
   // Get folder details
-  .get('/:folderId', async ({ params, set }) => {
+  .get('/:folderId', async ({ params, set, userId }) => {
     const folderId = params.folderId === 'root' ? null : parseInt(params.folderId);
     
     if (params.folderId !== 'root' && isNaN(folderId as number)) {
@@ -45,7 +59,7 @@ export const folderRoutes = new Elysia({ prefix: '/api/folders' })
     
     if (folderId === null) {
       // Get the root folder
-      const rootFolderResult = await folderController.getSubfolders(MOCK_USER_ID, null);
+      const rootFolderResult = await folderController.getSubfolders(userId, null);
       
       if (!rootFolderResult.success || !rootFolderResult.subfolders || rootFolderResult.subfolders.length === 0) {
         set.status = 404;
@@ -64,7 +78,7 @@ export const folderRoutes = new Elysia({ prefix: '/api/folders' })
       };
     }
     
-    const result = await folderController.getFolderDetails(MOCK_USER_ID, folderId);
+    const result = await folderController.getFolderDetails(userId, folderId);
     
     if (!result.success) {
       set.status = 404;
@@ -73,13 +87,19 @@ export const folderRoutes = new Elysia({ prefix: '/api/folders' })
     
     return result;
   }, {
+    beforeHandle: requireScope('folders:read'),
     params: t.Object({
       folderId: t.String()
     })
   })
 
   // Get folder contents (files and subfolders)
-  .get('/:folderId/contents', async ({ params, set }) => {
+  .get('/:folderId/contents', async ({ params, query, set, userId }) => {
+    // The "Shared with me" virtual root lists folders other users have shared
+    if (params.folderId === SHARED_ROOT_ID) {
+      return await folderController.getSharedWithMe(userId);
+    }
+    
     const folderId = params.folderId === 'root' ? null : parseInt(params.folderId);
     
     if (params.folderId !== 'root' && isNaN(folderId as number)) {
@@ -87,7 +107,14 @@ export const folderRoutes = new Elysia({ prefix: '/api/folders' })
       return { success: false, error: 'Invalid folder ID' };
     }
     
-    const result = await folderController.getFolderContents(MOCK_USER_ID, folderId);
+    const options = parseFolderContentsOptions(query);
+    
+    if (!options) {
+      set.status = 400;
+      return { success: false, error: INVALID_CONTENTS_PAGE_ERROR };
+    }
+    
+    const result = await folderController.getFolderContents(userId, folderId, options);
     
     if (!result.success) {
       set.status = 404;
@@ -96,13 +123,40 @@ export const folderRoutes = new Elysia({ prefix: '/api/folders' })
     
     return result;
   }, {
+    beforeHandle: requireScope('folders:read'),
+    params: t.Object({
+      folderId: t.String()
+    }),
+    query: t.Object(folderContentsQuery)
+  })
+
+  // Download a folder as a ZIP archive
+  .get('/:folderId/download', async ({ params, set, userId, client }) => {
+    const folderId = parseInt(params.folderId);
+    
+    if (isNaN(folderId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid folder ID' };
+    }
+    
+    const result = await archiveController.getFolderArchive(userId, folderId, client);
+    
+    if (!result.success || !result.archive) {
+      set.status = result.code === ARCHIVE_TOO_LARGE ? 413 : result.error === 'Folder not found' ? 404 : 500;
+      return result;
+    }
+    
+    // The archive is written while it is sent
+    return sendArchive(result.archive.name, createZipStream(result.archive.entries));
+  }, {
+    beforeHandle: [requireScope('folders:read'), requireScope('files:read')],
     params: t.Object({
       folderId: t.String()
     })
   })
 
   // Delete a folder
-  .delete('/:folderId', async ({ params, set }) => {
+  .delete('/:folderId', async ({ params, set, userId, client }) => {
     const folderId = parseInt(params.folderId);
     
     if (isNaN(folderId)) {
@@ -110,7 +164,7 @@ export const folderRoutes = new Elysia({ prefix: '/api/folders' })
       return { success: false, error: 'Invalid folder ID' };
     }
     
-    const result = await folderController.deleteFolder(MOCK_USER_ID, folderId);
+    const result = await folderController.deleteFolder(userId, folderId, client);
     
     if (!result.success) {
       set.status = 404;
@@ -119,13 +173,14 @@ export const folderRoutes = new Elysia({ prefix: '/api/folders' })
     
     return result;
   }, {
+    beforeHandle: requireScope('folders:admin'),
     params: t.Object({
       folderId: t.String()
     })
   })
 
   // Rename a folder
-  .patch('/:folderId/rename', async ({ params, body, set }) => {
+  .patch('/:folderId/rename', async ({ params, body, set, userId, client }) => {
     const folderId = parseInt(params.folderId);
     const { name } = body as { name: string };
     
@@ -139,7 +194,7 @@ export const folderRoutes = new Elysia({ prefix: '/api/folders' })
       return { success: false, error: 'Folder name is required' };
     }
     
-    const result = await folderController.renameFolder(MOCK_USER_ID, folderId, name);
+    const result = await folderController.renameFolder(userId, folderId, name, client);
     
     if (!result.success) {
       set.status = 404;
@@ -148,6 +203,7 @@ export const folderRoutes = new Elysia({ prefix: '/api/folders' })
     
     return result;
   }, {
+    beforeHandle: requireScope('folders:write'),
     params: t.Object({
       folderId: t.String()
     }),
@@ -156,8 +212,40 @@ export const folderRoutes = new Elysia({ prefix: '/api/folders' })
     })
   })
 
+  // Set the custom metadata fields files in a folder must have
+  .put('/:folderId/metadata-schema', async ({ params, body, set, userId, client }) => {
+    const folderId = parseInt(params.folderId);
+    
+    if (isNaN(folderId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid folder ID' };
+    }
+    
+    const result = await folderController.setMetadataSchema(
+      userId,
+      folderId,
+      body.fields.map(field => ({ ...field, required: field.required || false })),
+      client
+    );
+    
+    if (!result.success) {
+      set.status = result.error === 'Folder not found' ? 404 : 400;
+      return result;
+    }
+    
+    return result;
+  }, {
+    beforeHandle: requireScope('folders:admin'),
+    params: t.Object({
+      folderId: t.String()
+    }),
+    body: t.Object({
+      fields: t.Array(metadataFieldBody)
+    })
+  })
+
   // Move a folder
-  .patch('/:folderId/move', async ({ params, body, set }) => {
+  .patch('/:folderId/move', async ({ params, body, set, userId, client }) => {
     const folderId = parseInt(params.folderId);
     const { parentFolderId } = body as { parentFolderId: number | null };
     
@@ -166,7 +254,7 @@ export const folderRoutes = new Elysia({ prefix: '/api/folders' })
       return { success: false, error: 'Invalid folder ID' };
     }
     
-    const result = await folderController.moveFolder(MOCK_USER_ID, folderId, parentFolderId);
+    const result = await folderController.moveFolder(userId, folderId, parentFolderId, client);
     
     if (!result.success) {
       set.status = 404;
@@ -175,6 +263,7 @@ export const folderRoutes = new Elysia({ prefix: '/api/folders' })
     
     return result;
   }, {
+    beforeHandle: requireScope('folders:admin'),
     params: t.Object({
       folderId: t.String()
     }),
@@ -183,21 +272,145 @@ export const folderRoutes = new Elysia({ prefix: '/api/folders' })
     })
   })
 
+  // Copy a folder with its subfolders and files
+  .post('/:folderId/copy', async ({ params, body, set, userId, client }) => {
+    const folderId = parseInt(params.folderId);
+    
+    if (isNaN(folderId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid folder ID' };
+    }
+    
+    const result = await folderController.copyFolder(userId, folderId, body.parentFolderId, body.name, client);
+    
+    if (!result.success) {
+      set.status = result.code === QUOTA_EXCEEDED ? 413 : 404;
+      return result;
+    }
+    
+    return result;
+  }, {
+    beforeHandle: [requireScope('folders:write'), requireScope('files:write')],
+    params: t.Object({
+      folderId: t.String()
+    }),
+    body: t.Object({
+      parentFolderId: t.Union([t.Number(), t.Null()]),
+      name: t.Optional(t.String({ minLength: 1, maxLength: 255 }))
+    })
+  })
+
   // Get folder tree for sidebar
-  .get('/tree', async () => {
-    const result = await folderController.getFolderTree(MOCK_USER_ID);
+  .get('/tree', async ({ userId }) => {
+    const result = await folderController.getFolderTree(userId);
     return result;
+  }, {
+    beforeHandle: requireScope('folders:read')
   })
 
   // Search folders
-  .get('/search/:term', async ({ params }) => {
+  .get('/search/:term', async ({ params, userId }) => {
     const { term } = params;
     
-    const result = await folderController.searchFolders(MOCK_USER_ID, term);
+    const result = await folderController.searchFolders(userId, term);
     
     return result;
   }, {
+    beforeHandle: requireScope('folders:read'),
     params: t.Object({
       term: t.String()
     })
-  });
\ No newline at end of file
+  })
+
+  // Get folders shared with the current user
+  .get('/shared', async ({ userId }) => {
+    const result = await folderController.getSharedWithMe(userId);
+    return result;
+  }, {
+    beforeHandle: requireScope('folders:read')
+  })
+
+  // Share a folder with a user or group
+  .post('/:folderId/shares', async ({ params, body, set, userId, client }) => {
+    const folderId = parseInt(params.folderId);
+    const { username, groupId, role } = body;
+    
+    if (isNaN(folderId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid folder ID' };
+    }
+    
+    if (!username && !groupId) {
+      set.status = 400;
+      return { success: false, error: 'A username or group ID is required' };
+    }
+    
+    const result = await folderShareController.shareFolder(userId, folderId, { username, groupId }, role, client);
+    
+    if (!result.success) {
+      set.status = 404;
+      return result;
+    }
+    
+    return result;
+  }, {
+    beforeHandle: requireScope('folders:admin'),
+    params: t.Object({
+      folderId: t.String()
+    }),
+    body: t.Object({
+      username: t.Optional(t.String()),
+      groupId: t.Optional(t.Number()),
+      role: t.Union([t.Literal('viewer'), t.Literal('editor'), t.Literal('owner')])
+    })
+  })
+
+  // List the shares of a folder
+  .get('/:folderId/shares', async ({ params, set, userId }) => {
+    const folderId = parseInt(params.folderId);
+    
+    if (isNaN(folderId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid folder ID' };
+    }
+    
+    const result = await folderShareController.getFolderShares(userId, folderId);
+    
+    if (!result.success) {
+      set.status = 404;
+      return result;
+    }
+    
+    return result;
+  }, {
+    beforeHandle: requireScope('folders:admin'),
+    params: t.Object({
+      folderId: t.String()
+    })
+  })
+
+  // Remove a share from a folder
+  .delete('/:folderId/shares/:shareId', async ({ params, set, userId, client }) => {
+    const folderId = parseInt(params.folderId);
+    const shareId = parseInt(params.shareId);
+    
+    if (isNaN(folderId) || isNaN(shareId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid folder or share ID' };
+    }
+    
+    const result = await folderShareController.removeShare(userId, folderId, shareId, client);
+    
+    if (!result.success) {
+      set.status = 404;
+      return result;
+    }
+    
+    return result;
+  }, {
+    beforeHandle: requireScope('folders:admin'),
+    params: t.Object({
+      folderId: t.String(),
+      shareId: t.String()
+    })
+  });
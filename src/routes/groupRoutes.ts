@@ -0,0 +1,141 @@
+// src/routes/groupRoutes.ts
+import { Elysia, t } from 'elysia';
+import { groupController } from '../controllers/groupController';
+import { authMiddleware, requireSession } from '../middleware/authMiddleware';
+
+export const groupRoutes = new Elysia({ prefix: '/api/groups', scoped: true })
+  .use(authMiddleware)
+
+  // Create a group
+  .post('/', async ({ body, set, userId, client }) => {
+    const name = body.name.trim();
+
+    if (!name) {
+      set.status = 400;
+      return { success: false, error: 'Group name is required' };
+    }
+
+    const result = await groupController.createGroup(userId, name, client);
+
+    if (!result.success) {
+      set.status = 400;
+      return result;
+    }
+
+    set.status = 201;
+    return result;
+  }, {
+    beforeHandle: requireSession,
+    body: t.Object({
+      name: t.String({ maxLength: 255 })
+    })
+  })
+
+  // List groups
+  .get('/', async ({ userId }) => {
+    const result = await groupController.getGroups(userId);
+    return result;
+  }, {
+    beforeHandle: requireSession
+  })
+
+  // List group members
+  .get('/:groupId/members', async ({ params, set, userId }) => {
+    const groupId = parseInt(params.groupId);
+
+    if (isNaN(groupId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid group ID' };
+    }
+
+    const result = await groupController.getGroupMembers(userId, groupId);
+
+    if (!result.success) {
+      set.status = 404;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireSession,
+    params: t.Object({
+      groupId: t.String()
+    })
+  })
+
+  // Add a group member
+  .post('/:groupId/members', async ({ params, body, set, userId, client }) => {
+    const groupId = parseInt(params.groupId);
+
+    if (isNaN(groupId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid group ID' };
+    }
+
+    const result = await groupController.addMember(userId, groupId, body.username, client);
+
+    if (!result.success) {
+      set.status = 404;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireSession,
+    params: t.Object({
+      groupId: t.String()
+    }),
+    body: t.Object({
+      username: t.String()
+    })
+  })
+
+  // Remove a group member
+  .delete('/:groupId/members/:memberId', async ({ params, set, userId, client }) => {
+    const groupId = parseInt(params.groupId);
+    const memberId = parseInt(params.memberId);
+
+    if (isNaN(groupId) || isNaN(memberId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid group or member ID' };
+    }
+
+    const result = await groupController.removeMember(userId, groupId, memberId, client);
+
+    if (!result.success) {
+      set.status = 404;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireSession,
+    params: t.Object({
+      groupId: t.String(),
+      memberId: t.String()
+    })
+  })
+
+  // Delete a group
+  .delete('/:groupId', async ({ params, set, userId, client }) => {
+    const groupId = parseInt(params.groupId);
+
+    if (isNaN(groupId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid group ID' };
+    }
+
+    const result = await groupController.deleteGroup(userId, groupId, client);
+
+    if (!result.success) {
+      set.status = 404;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireSession,
+    params: t.Object({
+      groupId: t.String()
+    })
+  });
@@ -0,0 +1,238 @@
+// src/routes/publicShareRoutes.ts
+import { Elysia, t } from 'elysia';
+import { shareLinkController } from '../controllers/shareLinkController';
+import { getRequestClient } from '../services/auditLog';
+import { sendFile } from '../utils/fileResponse';
+import {
+  folderContentsQuery,
+  INVALID_CONTENTS_PAGE_ERROR,
+  parseFolderContentsOptions
+} from '../utils/folderContentsQuery';
+
+// HTTP status for each share link error code
+const LINK_ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  EXPIRED: 410,
+  PASSWORD_REQUIRED: 401
+};
+
+// Passwords are sent in the X-Share-Password header. They are never taken from the URL, which
+// ends up in proxy and access logs; plain browser forms can POST them to the download endpoints.
+const getSharePassword = (headers: Record<string, string | undefined>, body?: { password?: string }) => {
+  return headers['x-share-password'] || body?.password;
+};
+
+/**
+ * Download a file through a link
+ * Only full downloads count towards the link's download limit: range requests and
+ * revalidations (304) of a file the client already has don't.
+ * @param link The link token, the file inside a linked folder, and the password
+ * @param headers The request headers
+ * @param request The request
+ * @param disposition Whether the browser should preview the file or save it
+ * @returns The file response, or the error with its status
+ */
+const sendLinkDownload = async (
+  link: { token: string; fileId: number | null; password: string | undefined },
+  headers: Record<string, string | undefined>,
+  request: Request,
+  disposition: string | undefined
+): Promise<Response | { status: number; error: string | undefined }> => {
+  const result = await shareLinkController.downloadFromLink(
+    link.token,
+    link.password,
+    link.fileId,
+    getRequestClient(request, headers)
+  );
+
+  if (!result.success || !result.file || !result.linkId) {
+    return { status: LINK_ERROR_STATUS[result.code || ''] || 500, error: result.error };
+  }
+
+  const response = sendFile(headers, result.file, disposition === 'inline' ? 'inline' : 'attachment');
+
+  if (response.status === 200) {
+    const counted = await shareLinkController.countDownload(result.linkId);
+
+    if (!counted.success) {
+      return { status: LINK_ERROR_STATUS[counted.code || ''] || 500, error: counted.error };
+    }
+  }
+
+  return response;
+};
+
+// Request body of the POST download endpoints, which browser forms can send
+const downloadBody = t.Object({
+  password: t.Optional(t.String())
+});
+
+// Unauthenticated access to public share links
+export const publicShareRoutes = new Elysia({ prefix: '/s' })
+  // Get the linked file details or the linked folder listing
+  .get('/:token', async ({ params, headers, query, set }) => {
+    const options = parseFolderContentsOptions(query);
+
+    if (!options) {
+      set.status = 400;
+      return { success: false, error: INVALID_CONTENTS_PAGE_ERROR };
+    }
+
+    const result = await shareLinkController.getLinkContents(
+      params.token,
+      getSharePassword(headers),
+      null,
+      options
+    );
+
+    if (!result.success) {
+      set.status = LINK_ERROR_STATUS[result.code || ''] || 500;
+      return result;
+    }
+
+    return result;
+  }, {
+    params: t.Object({
+      token: t.String()
+    }),
+    query: t.Object(folderContentsQuery)
+  })
+
+  // List a subfolder of a linked folder
+  .get('/:token/folders/:folderId', async ({ params, headers, query, set }) => {
+    const folderId = parseInt(params.folderId);
+
+    if (isNaN(folderId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid folder ID' };
+    }
+
+    const options = parseFolderContentsOptions(query);
+
+    if (!options) {
+      set.status = 400;
+      return { success: false, error: INVALID_CONTENTS_PAGE_ERROR };
+    }
+
+    const result = await shareLinkController.getLinkContents(
+      params.token,
+      getSharePassword(headers),
+      folderId,
+      options
+    );
+
+    if (!result.success) {
+      set.status = LINK_ERROR_STATUS[result.code || ''] || 500;
+      return result;
+    }
+
+    return result;
+  }, {
+    params: t.Object({
+      token: t.String(),
+      folderId: t.String()
+    }),
+    query: t.Object(folderContentsQuery)
+  })
+
+  // Download the linked file
+  .get('/:token/download', async ({ params, headers, query, request, set }) => {
+    const result = await sendLinkDownload(
+      { token: params.token, fileId: null, password: getSharePassword(headers) },
+      headers,
+      request,
+      query.disposition
+    );
+
+    if (!(result instanceof Response)) {
+      set.status = result.status;
+      return { success: false, error: result.error };
+    }
+
+    return result;
+  }, {
+    params: t.Object({
+      token: t.String()
+    })
+  })
+
+  // Download the linked file, with the password in a form or JSON body
+  .post('/:token/download', async ({ params, headers, query, body, request, set }) => {
+    const result = await sendLinkDownload(
+      { token: params.token, fileId: null, password: getSharePassword(headers, body) },
+      headers,
+      request,
+      query.disposition
+    );
+
+    if (!(result instanceof Response)) {
+      set.status = result.status;
+      return { success: false, error: result.error };
+    }
+
+    return result;
+  }, {
+    params: t.Object({
+      token: t.String()
+    }),
+    body: downloadBody
+  })
+
+  // Download a file inside a linked folder
+  .get('/:token/files/:fileId/download', async ({ params, headers, query, request, set }) => {
+    const fileId = parseInt(params.fileId);
+
+    if (isNaN(fileId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid file ID' };
+    }
+
+    const result = await sendLinkDownload(
+      { token: params.token, fileId, password: getSharePassword(headers) },
+      headers,
+      request,
+      query.disposition
+    );
+
+    if (!(result instanceof Response)) {
+      set.status = result.status;
+      return { success: false, error: result.error };
+    }
+
+    return result;
+  }, {
+    params: t.Object({
+      token: t.String(),
+      fileId: t.String()
+    })
+  })
+
+  // Download a file inside a linked folder, with the password in a form or JSON body
+  .post('/:token/files/:fileId/download', async ({ params, headers, query, body, request, set }) => {
+    const fileId = parseInt(params.fileId);
+
+    if (isNaN(fileId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid file ID' };
+    }
+
+    const result = await sendLinkDownload(
+      { token: params.token, fileId, password: getSharePassword(headers, body) },
+      headers,
+      request,
+      query.disposition
+    );
+
+    if (!(result instanceof Response)) {
+      set.status = result.status;
+      return { success: false, error: result.error };
+    }
+
+    return result;
+  }, {
+    params: t.Object({
+      token: t.String(),
+      fileId: t.String()
+    }),
+    body: downloadBody
+  });
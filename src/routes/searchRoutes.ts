@@ -0,0 +1,138 @@
+// src/routes/searchRoutes.ts
+import { Elysia, t } from 'elysia';
+import { decodeSearchCursor, searchController } from '../controllers/searchController';
+import { authMiddleware, requireScope } from '../middleware/authMiddleware';
+import { SearchFilters, SEARCH_SORT_FIELDS } from '../types/searchTypes';
+
+// Page size limits for search results
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+
+// Parse an optional non-negative integer query parameter; NaN if it is invalid
+const parseCount = (value: string | undefined): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  return /^\d+$/.test(value) ? parseInt(value) : NaN;
+};
+
+// Parse an optional date query parameter; an invalid date if it can't be parsed
+const parseDate = (value: string | undefined): Date | undefined => {
+  return value === undefined ? undefined : new Date(value);
+};
+
+export const searchRoutes = new Elysia({ prefix: '/api/search', scoped: true })
+  .use(authMiddleware)
+
+  // Search files and folders
+  .get('/', async ({ query, set, userId }) => {
+    const limit = parseCount(query.limit) ?? DEFAULT_SEARCH_LIMIT;
+    const minSize = parseCount(query.minSize);
+    const maxSize = parseCount(query.maxSize);
+    const folderId = parseCount(query.folderId);
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+      set.status = 400;
+      return { success: false, error: `limit must be between 1 and ${MAX_SEARCH_LIMIT}` };
+    }
+
+    if (Number.isNaN(minSize) || Number.isNaN(maxSize) || Number.isNaN(folderId)) {
+      set.status = 400;
+      return { success: false, error: 'minSize, maxSize and folderId must be non-negative integers' };
+    }
+
+    const dates = {
+      createdAfter: parseDate(query.createdAfter),
+      createdBefore: parseDate(query.createdBefore),
+      updatedAfter: parseDate(query.updatedAfter),
+      updatedBefore: parseDate(query.updatedBefore)
+    };
+
+    if (Object.values(dates).some(date => date && isNaN(date.getTime()))) {
+      set.status = 400;
+      return { success: false, error: 'Dates must be in ISO 8601 format' };
+    }
+
+    const cursor = query.cursor ? decodeSearchCursor(query.cursor) : undefined;
+
+    if (cursor === null) {
+      set.status = 400;
+      return { success: false, error: 'Invalid cursor' };
+    }
+
+    const filters: SearchFilters = {
+      query: query.q?.trim() || undefined,
+      type: query.type,
+      mimeType: query.mimeType || undefined,
+      extension: query.extension || undefined,
+      minSize,
+      maxSize,
+      ...dates,
+      folderId,
+      sort: query.sort || 'name',
+      order: query.order || 'asc',
+      limit,
+      cursor
+    };
+
+    const result = await searchController.search(userId, filters);
+
+    if (!result.success) {
+      set.status = result.error === 'Folder not found' ? 404 : 500;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireScope('files:read'),
+    query: t.Object({
+      q: t.Optional(t.String({ maxLength: 255 })),
+      type: t.Optional(t.Union([t.Literal('file'), t.Literal('folder')])),
+      mimeType: t.Optional(t.String({ maxLength: 127 })),
+      extension: t.Optional(t.String({ maxLength: 20 })),
+      minSize: t.Optional(t.String()),
+      maxSize: t.Optional(t.String()),
+      createdAfter: t.Optional(t.String()),
+      createdBefore: t.Optional(t.String()),
+      updatedAfter: t.Optional(t.String()),
+      updatedBefore: t.Optional(t.String()),
+      folderId: t.Optional(t.String()),
+      sort: t.Optional(t.Union(SEARCH_SORT_FIELDS.map(field => t.Literal(field)))),
+      order: t.Optional(t.Union([t.Literal('asc'), t.Literal('desc')])),
+      limit: t.Optional(t.String()),
+      cursor: t.Optional(t.String())
+    })
+  })
+
+  // Search the text of documents
+  .get('/content', async ({ query, set, userId }) => {
+    const searchQuery = query.q.trim();
+    const limit = query.limit !== undefined ? parseInt(query.limit) : DEFAULT_SEARCH_LIMIT;
+    const offset = query.offset !== undefined ? parseInt(query.offset) : 0;
+
+    if (!searchQuery) {
+      set.status = 400;
+      return { success: false, error: 'Search query is required' };
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT || isNaN(offset) || offset < 0) {
+      set.status = 400;
+      return { success: false, error: `limit must be between 1 and ${MAX_SEARCH_LIMIT} and offset must not be negative` };
+    }
+
+    const result = await searchController.searchContent(userId, searchQuery, { limit, offset });
+
+    if (!result.success) {
+      set.status = 500;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireScope('files:read'),
+    query: t.Object({
+      q: t.String({ maxLength: 500 }),
+      limit: t.Optional(t.String()),
+      offset: t.Optional(t.String())
+    })
+  });
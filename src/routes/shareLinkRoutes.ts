@@ -0,0 +1,80 @@
+// src/routes/shareLinkRoutes.ts
+import { Elysia, t } from 'elysia';
+import { shareLinkController } from '../controllers/shareLinkController';
+import { authMiddleware, requireScope } from '../middleware/authMiddleware';
+
+export const shareLinkRoutes = new Elysia({ prefix: '/api/share-links', scoped: true })
+  .use(authMiddleware)
+
+  // Create a share link for a file or folder
+  .post('/', async ({ body, set, userId, client }) => {
+    const { fileId, folderId, password, expiresAt, maxDownloads } = body;
+
+    if (!fileId && !folderId) {
+      set.status = 400;
+      return { success: false, error: 'A file ID or folder ID is required' };
+    }
+
+    const expiryDate = expiresAt ? new Date(expiresAt) : null;
+
+    if (expiryDate && isNaN(expiryDate.getTime())) {
+      set.status = 400;
+      return { success: false, error: 'Invalid expiry date' };
+    }
+
+    const result = await shareLinkController.createLink(
+      userId,
+      { fileId, folderId },
+      { password, expiresAt: expiryDate, maxDownloads },
+      client
+    );
+
+    if (!result.success) {
+      set.status = 400;
+      return result;
+    }
+
+    set.status = 201;
+    return result;
+  }, {
+    beforeHandle: requireScope('files:write'),
+    body: t.Object({
+      fileId: t.Optional(t.Number()),
+      folderId: t.Optional(t.Number()),
+      password: t.Optional(t.String({ minLength: 1 })),
+      expiresAt: t.Optional(t.String()),
+      maxDownloads: t.Optional(t.Number())
+    })
+  })
+
+  // List active share links
+  .get('/', async ({ userId }) => {
+    const result = await shareLinkController.getLinks(userId);
+    return result;
+  }, {
+    beforeHandle: requireScope('files:read')
+  })
+
+  // Revoke a share link
+  .delete('/:linkId', async ({ params, set, userId, client }) => {
+    const linkId = parseInt(params.linkId);
+
+    if (isNaN(linkId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid link ID' };
+    }
+
+    const result = await shareLinkController.revokeLink(userId, linkId, client);
+
+    if (!result.success) {
+      set.status = 404;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireScope('files:write'),
+    params: t.Object({
+      linkId: t.String()
+    })
+  });
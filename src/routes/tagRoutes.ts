@@ -0,0 +1,172 @@
+// src/routes/tagRoutes.ts
+import { Elysia, t } from 'elysia';
+import { tagController } from '../controllers/tagController';
+import { authMiddleware, requireScope } from '../middleware/authMiddleware';
+import { MAX_TAG_NAME_LENGTH } from '../types/tagTypes';
+
+// Most items a single bulk tag request can change
+const MAX_BULK_ITEMS = 1000;
+
+// Body of bulk attach and detach requests
+const tagSelectionBody = t.Object({
+  tagIds: t.Array(t.Integer(), { minItems: 1, maxItems: 100 }),
+  fileIds: t.Optional(t.Array(t.Integer(), { maxItems: MAX_BULK_ITEMS })),
+  folderIds: t.Optional(t.Array(t.Integer(), { maxItems: MAX_BULK_ITEMS }))
+});
+
+export const tagRoutes = new Elysia({ prefix: '/api/tags', scoped: true })
+  .use(authMiddleware)
+
+  // Create a tag
+  .post('/', async ({ body, set, userId, client }) => {
+    const name = body.name.trim();
+
+    if (!name) {
+      set.status = 400;
+      return { success: false, error: 'Tag name is required' };
+    }
+
+    const result = await tagController.createTag(userId, name, client);
+
+    if (!result.success) {
+      set.status = 400;
+      return result;
+    }
+
+    set.status = 201;
+    return result;
+  }, {
+    beforeHandle: requireScope('files:write'),
+    body: t.Object({
+      name: t.String({ maxLength: MAX_TAG_NAME_LENGTH })
+    })
+  })
+
+  // List tags
+  .get('/', async ({ userId }) => {
+    const result = await tagController.getTags(userId);
+    return result;
+  }, {
+    beforeHandle: requireScope('files:read')
+  })
+
+  // List the files and folders carrying the given tags
+  .get('/items', async ({ query, set, userId }) => {
+    const tagIds = query.tagIds.split(',').map(tagId => parseInt(tagId));
+
+    if (tagIds.some(tagId => isNaN(tagId))) {
+      set.status = 400;
+      return { success: false, error: 'tagIds must be a comma-separated list of tag IDs' };
+    }
+
+    const result = await tagController.getTaggedItems(userId, tagIds, query.match || 'all');
+
+    if (!result.success) {
+      set.status = 404;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireScope('files:read'),
+    query: t.Object({
+      tagIds: t.String({ minLength: 1 }),
+      match: t.Optional(t.Union([t.Literal('all'), t.Literal('any')]))
+    })
+  })
+
+  // Put tags on files and folders
+  .post('/attach', async ({ body, set, userId, client }) => {
+    const selection = { tagIds: body.tagIds, fileIds: body.fileIds || [], folderIds: body.folderIds || [] };
+
+    if (selection.fileIds.length === 0 && selection.folderIds.length === 0) {
+      set.status = 400;
+      return { success: false, error: 'No files or folders selected' };
+    }
+
+    const result = await tagController.attachTags(userId, selection, client);
+
+    if (!result.success) {
+      set.status = 404;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireScope('files:write'),
+    body: tagSelectionBody
+  })
+
+  // Remove tags from files and folders
+  .post('/detach', async ({ body, set, userId, client }) => {
+    const selection = { tagIds: body.tagIds, fileIds: body.fileIds || [], folderIds: body.folderIds || [] };
+
+    const result = await tagController.detachTags(userId, selection, client);
+
+    if (!result.success) {
+      set.status = 404;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireScope('files:write'),
+    body: tagSelectionBody
+  })
+
+  // Rename a tag
+  .patch('/:tagId', async ({ params, body, set, userId, client }) => {
+    const tagId = parseInt(params.tagId);
+    const name = body.name.trim();
+
+    if (isNaN(tagId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid tag ID' };
+    }
+
+    if (!name) {
+      set.status = 400;
+      return { success: false, error: 'Tag name is required' };
+    }
+
+    const result = await tagController.renameTag(userId, tagId, name, client);
+
+    if (!result.success) {
+      set.status = result.error === 'Tag not found' ? 404 : 400;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireScope('files:write'),
+    params: t.Object({
+      tagId: t.String()
+    }),
+    body: t.Object({
+      name: t.String({ maxLength: MAX_TAG_NAME_LENGTH })
+    })
+  })
+
+  // Delete a tag
+  .delete('/:tagId', async ({ params, set, userId, client }) => {
+    const tagId = parseInt(params.tagId);
+
+    if (isNaN(tagId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid tag ID' };
+    }
+
+    const result = await tagController.deleteTag(userId, tagId, client);
+
+    if (!result.success) {
+      set.status = 404;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireScope('files:write'),
+    params: t.Object({
+      tagId: t.String()
+    })
+  });
@@ -0,0 +1,131 @@
+// src/routes/trashRoutes.ts
+import { Elysia, t } from 'elysia';
+import { trashController } from '../controllers/trashController';
+import { authMiddleware, requireScope } from '../middleware/authMiddleware';
+
+export const trashRoutes = new Elysia({ prefix: '/api/trash', scoped: true })
+  .use(authMiddleware)
+
+  // List trashed items
+  .get('/', async ({ set, userId }) => {
+    const result = await trashController.getTrash(userId);
+
+    if (!result.success) {
+      set.status = 500;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireScope('files:read')
+  })
+
+  // Restore a file
+  .post('/files/:fileId/restore', async ({ params, set, userId, client }) => {
+    const fileId = parseInt(params.fileId);
+
+    if (isNaN(fileId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid file ID' };
+    }
+
+    const result = await trashController.restoreFile(userId, fileId, client);
+
+    if (!result.success) {
+      set.status = result.error === 'File not found in trash' ? 404 : 400;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireScope('files:write'),
+    params: t.Object({
+      fileId: t.String()
+    })
+  })
+
+  // Restore a folder and its contents
+  .post('/folders/:folderId/restore', async ({ params, set, userId, client }) => {
+    const folderId = parseInt(params.folderId);
+
+    if (isNaN(folderId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid folder ID' };
+    }
+
+    const result = await trashController.restoreFolder(userId, folderId, client);
+
+    if (!result.success) {
+      set.status = result.error === 'Folder not found in trash' ? 404 : 400;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireScope('folders:write'),
+    params: t.Object({
+      folderId: t.String()
+    })
+  })
+
+  // Permanently delete a file
+  .delete('/files/:fileId', async ({ params, set, userId, client }) => {
+    const fileId = parseInt(params.fileId);
+
+    if (isNaN(fileId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid file ID' };
+    }
+
+    const result = await trashController.deleteFile(userId, fileId, client);
+
+    if (!result.success) {
+      set.status = 404;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireScope('files:write'),
+    params: t.Object({
+      fileId: t.String()
+    })
+  })
+
+  // Permanently delete a folder and its contents
+  .delete('/folders/:folderId', async ({ params, set, userId, client }) => {
+    const folderId = parseInt(params.folderId);
+
+    if (isNaN(folderId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid folder ID' };
+    }
+
+    const result = await trashController.deleteFolder(userId, folderId, client);
+
+    if (!result.success) {
+      set.status = 404;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireScope('folders:admin'),
+    params: t.Object({
+      folderId: t.String()
+    })
+  })
+
+  // Empty the trash
+  .delete('/', async ({ set, userId, client }) => {
+    const result = await trashController.emptyTrash(userId, client);
+
+    if (!result.success) {
+      set.status = 500;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireScope('folders:admin')
+  });
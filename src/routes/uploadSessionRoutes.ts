@@ -0,0 +1,156 @@
+// src/routes/uploadSessionRoutes.ts
+import { Elysia, t } from 'elysia';
+import { uploadSessionController } from '../controllers/uploadSessionController';
+import { authMiddleware, requireScope } from '../middleware/authMiddleware';
+import { QUOTA_EXCEEDED } from '../services/storageQuota';
+import { customMetadataValues } from '../utils/customMetadataBody';
+
+// Session IDs are UUIDs; anything else can't match a session
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export const uploadSessionRoutes = new Elysia({ prefix: '/api/uploads', scoped: true })
+  .use(authMiddleware)
+
+  // Start a resumable upload
+  .post('/', async ({ body, set, userId, client }) => {
+    const name = body.name.trim();
+
+    if (!name) {
+      set.status = 400;
+      return { success: false, error: 'File name is required' };
+    }
+
+    const result = await uploadSessionController.createSession(userId, {
+      name,
+      size: body.size,
+      folderId: body.folderId,
+      chunkSize: body.chunkSize,
+      metadata: body.metadata
+    }, client);
+
+    if (!result.success) {
+      set.status = result.code === QUOTA_EXCEEDED ? 413 : result.error === 'Folder not found' ? 404 : 400;
+      return result;
+    }
+
+    set.status = 201;
+    return result;
+  }, {
+    beforeHandle: requireScope('files:write'),
+    body: t.Object({
+      name: t.String({ maxLength: 255 }),
+      size: t.Integer({ minimum: 0 }),
+      folderId: t.Optional(t.Number()),
+      chunkSize: t.Optional(t.Integer()),
+      metadata: t.Optional(customMetadataValues)
+    })
+  })
+
+  // Get an upload session and the chunks received so far
+  .get('/:sessionId', async ({ params, set, userId }) => {
+    if (!SESSION_ID_PATTERN.test(params.sessionId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid upload session ID' };
+    }
+
+    const result = await uploadSessionController.getSession(userId, params.sessionId);
+
+    if (!result.success) {
+      set.status = 404;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireScope('files:write'),
+    params: t.Object({
+      sessionId: t.String()
+    })
+  })
+
+  // Upload a chunk (raw application/octet-stream body, SHA-256 hex digest in X-Chunk-Checksum)
+  .put('/:sessionId/chunks/:chunkIndex', async ({ params, headers, body, set, userId }) => {
+    const chunkIndex = parseInt(params.chunkIndex);
+
+    if (!SESSION_ID_PATTERN.test(params.sessionId) || isNaN(chunkIndex)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid upload session ID or chunk index' };
+    }
+
+    if (!(body instanceof ArrayBuffer)) {
+      set.status = 415;
+      return { success: false, error: 'Chunks must be sent as application/octet-stream' };
+    }
+
+    const checksum = headers['x-chunk-checksum'];
+
+    if (!checksum) {
+      set.status = 400;
+      return { success: false, error: 'X-Chunk-Checksum header is required' };
+    }
+
+    const result = await uploadSessionController.uploadChunk(
+      userId,
+      params.sessionId,
+      chunkIndex,
+      Buffer.from(body),
+      checksum
+    );
+
+    if (!result.success) {
+      set.status = result.error === 'Upload session not found' ? 404 : 400;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireScope('files:write'),
+    params: t.Object({
+      sessionId: t.String(),
+      chunkIndex: t.String()
+    })
+  })
+
+  // Assemble the uploaded chunks into a file
+  .post('/:sessionId/complete', async ({ params, set, userId, client }) => {
+    if (!SESSION_ID_PATTERN.test(params.sessionId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid upload session ID' };
+    }
+
+    const result = await uploadSessionController.completeSession(userId, params.sessionId, client);
+
+    if (!result.success) {
+      set.status = result.code === QUOTA_EXCEEDED ? 413 : result.error === 'Upload session not found' ? 404 : 400;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireScope('files:write'),
+    params: t.Object({
+      sessionId: t.String()
+    })
+  })
+
+  // Cancel an upload and discard its chunks
+  .delete('/:sessionId', async ({ params, set, userId, client }) => {
+    if (!SESSION_ID_PATTERN.test(params.sessionId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid upload session ID' };
+    }
+
+    const result = await uploadSessionController.cancelSession(userId, params.sessionId, client);
+
+    if (!result.success) {
+      set.status = 404;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireScope('files:write'),
+    params: t.Object({
+      sessionId: t.String()
+    })
+  });
@@ -0,0 +1,169 @@
+// src/routes/webhookRoutes.ts
+import { Elysia, t } from 'elysia';
+import { webhookController } from '../controllers/webhookController';
+import { authMiddleware, requireScope } from '../middleware/authMiddleware';
+
+// Page size limits for delivery listings
+const DEFAULT_DELIVERY_LIMIT = 50;
+const MAX_DELIVERY_LIMIT = 500;
+
+export const webhookRoutes = new Elysia({ prefix: '/api/webhooks', scoped: true })
+  .use(authMiddleware)
+
+  // Create a webhook
+  .post('/', async ({ body, set, userId, client }) => {
+    const result = await webhookController.createWebhook(
+      userId,
+      { url: body.url.trim(), events: body.events, folderId: body.folderId },
+      client
+    );
+
+    if (!result.success) {
+      set.status = result.error === 'Folder not found' ? 404 : 400;
+      return result;
+    }
+
+    set.status = 201;
+    return result;
+  }, {
+    beforeHandle: requireScope('webhooks:admin'),
+    body: t.Object({
+      url: t.String({ minLength: 1 }),
+      events: t.Array(t.String()),
+      folderId: t.Optional(t.Number())
+    })
+  })
+
+  // List webhooks
+  .get('/', async ({ userId }) => {
+    const result = await webhookController.getWebhooks(userId);
+    return result;
+  }, {
+    beforeHandle: requireScope('webhooks:admin')
+  })
+
+  // Change a webhook's URL or events, or pause and resume it
+  .patch('/:webhookId', async ({ params, body, set, userId, client }) => {
+    const webhookId = parseInt(params.webhookId);
+
+    if (isNaN(webhookId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid webhook ID' };
+    }
+
+    const result = await webhookController.updateWebhook(
+      userId,
+      webhookId,
+      { url: body.url?.trim(), events: body.events, active: body.active },
+      client
+    );
+
+    if (!result.success) {
+      set.status = result.error === 'Webhook not found' ? 404 : 400;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireScope('webhooks:admin'),
+    params: t.Object({
+      webhookId: t.String()
+    }),
+    body: t.Object({
+      url: t.Optional(t.String({ minLength: 1 })),
+      events: t.Optional(t.Array(t.String())),
+      active: t.Optional(t.Boolean())
+    })
+  })
+
+  // Delete a webhook
+  .delete('/:webhookId', async ({ params, set, userId, client }) => {
+    const webhookId = parseInt(params.webhookId);
+
+    if (isNaN(webhookId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid webhook ID' };
+    }
+
+    const result = await webhookController.deleteWebhook(userId, webhookId, client);
+
+    if (!result.success) {
+      set.status = 404;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireScope('webhooks:admin'),
+    params: t.Object({
+      webhookId: t.String()
+    })
+  })
+
+  // Send a test event to a webhook
+  .post('/:webhookId/test', async ({ params, set, userId }) => {
+    const webhookId = parseInt(params.webhookId);
+
+    if (isNaN(webhookId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid webhook ID' };
+    }
+
+    const result = await webhookController.testWebhook(userId, webhookId);
+
+    if (!result.success) {
+      set.status = result.error === 'Webhook not found' ? 404 : 500;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireScope('webhooks:admin'),
+    params: t.Object({
+      webhookId: t.String()
+    })
+  })
+
+  // List the deliveries of a webhook
+  .get('/:webhookId/deliveries', async ({ params, query, set, userId }) => {
+    const webhookId = parseInt(params.webhookId);
+
+    if (isNaN(webhookId)) {
+      set.status = 400;
+      return { success: false, error: 'Invalid webhook ID' };
+    }
+
+    const limit = query.limit !== undefined ? parseInt(query.limit) : DEFAULT_DELIVERY_LIMIT;
+    const offset = query.offset !== undefined ? parseInt(query.offset) : 0;
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_DELIVERY_LIMIT || isNaN(offset) || offset < 0) {
+      set.status = 400;
+      return {
+        success: false,
+        error: `limit must be between 1 and ${MAX_DELIVERY_LIMIT} and offset must not be negative`
+      };
+    }
+
+    const result = await webhookController.getDeliveries(userId, webhookId, {
+      status: query.status,
+      limit,
+      offset
+    });
+
+    if (!result.success) {
+      set.status = result.error === 'Webhook not found' ? 404 : 500;
+      return result;
+    }
+
+    return result;
+  }, {
+    beforeHandle: requireScope('webhooks:admin'),
+    params: t.Object({
+      webhookId: t.String()
+    }),
+    query: t.Object({
+      status: t.Optional(t.Union([t.Literal('pending'), t.Literal('succeeded'), t.Literal('failed')])),
+      limit: t.Optional(t.String()),
+      offset: t.Optional(t.String())
+    })
+  });
@@ -0,0 +1,75 @@
+// src/scripts/reindexContents.ts
+// Extract the text of files that are missing from the full-text index (uploaded before
+// it existed, or whose background indexing failed) or whose index entry is out of date.
+// Usage: bun run reindex [--all]   (--all re-extracts every file)
+import pool, { initDatabase } from '../config/database';
+import { initializeStorage } from '../config/storage';
+import { indexFileContent } from '../services/contentIndex';
+import { EXTRACTABLE_EXTENSIONS } from '../services/textExtractor';
+import { RowDataPacket } from 'mysql2';
+
+// Number of files loaded per query
+const BATCH_SIZE = 100;
+
+const reindexContents = async (all: boolean) => {
+  await initDatabase();
+
+  if (!(await initializeStorage())) {
+    throw new Error('File storage is not available');
+  }
+
+  const connection = await pool.getConnection();
+  let lastFileId = 0;
+  let indexed = 0;
+  let failed = 0;
+
+  try {
+    while (true) {
+      const [files] = await connection.query(
+        `SELECT f.file_id, f.name
+         FROM files f
+         LEFT JOIN file_contents c ON c.file_id = f.file_id
+         WHERE f.file_id > ? AND (? OR c.file_id IS NULL OR c.file_version != f.version)
+         ORDER BY f.file_id ASC
+         LIMIT ?`,
+        [lastFileId, all, BATCH_SIZE]
+      ) as [RowDataPacket[], any];
+
+      if (files.length === 0) {
+        break;
+      }
+
+      for (const file of files) {
+        lastFileId = file.file_id;
+
+        const extension = file.name.split('.').pop()?.toLowerCase();
+        if (!EXTRACTABLE_EXTENSIONS.includes(extension)) {
+          continue;
+        }
+
+        try {
+          if (await indexFileContent(file.file_id)) {
+            indexed++;
+          }
+        } catch (error) {
+          failed++;
+          console.error(`Failed to index file ${file.file_id} (${file.name}):`, error);
+        }
+      }
+    }
+  } finally {
+    connection.release();
+  }
+
+  console.log(`Indexed ${indexed} file(s), ${failed} failed`);
+};
+
+reindexContents(process.argv.includes('--all'))
+  .then(async () => {
+    await pool.end();
+  })
+  .catch(async error => {
+    console.error('Re-indexing failed:', error);
+    await pool.end();
+    process.exit(1);
+  });
@@ -0,0 +1,78 @@
+// src/services/auditLog.ts
+import { Server } from 'bun';
+import { PoolConnection } from 'mysql2/promise';
+import { queueWebhookEvent } from './webhooks';
+import { AuditClient, AuditEventInput } from '../types/auditTypes';
+
+// Behind a reverse proxy the client address is taken from X-Forwarded-For, which
+// direct clients could otherwise set to anything
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+
+// Longest user agent that is recorded
+const MAX_USER_AGENT_LENGTH = 512;
+
+// The HTTP server, which knows the address of directly connected clients
+let httpServer: Server | null = null;
+
+// Set the HTTP server once it is listening
+export const setAuditServer = (server: Server): void => {
+  httpServer = server;
+};
+
+/**
+ * Get the address and user agent of the client that sent a request
+ * @param request The request
+ * @param headers The request headers
+ * @returns The client details to record with audit events
+ */
+export const getRequestClient = (
+  request: Request,
+  headers: Record<string, string | undefined>
+): AuditClient => {
+  let ipAddress: string | null = null;
+
+  if (TRUST_PROXY && headers['x-forwarded-for']) {
+    ipAddress = headers['x-forwarded-for'].split(',')[0].trim() || null;
+  } else {
+    ipAddress = httpServer?.requestIP(request)?.address || null;
+  }
+
+  return {
+    ipAddress,
+    userAgent: headers['user-agent']?.substring(0, MAX_USER_AGENT_LENGTH) || null
+  };
+};
+
+/**
+ * Append an event to the audit log
+ * Events are written on the connection of the operation they describe, so an event recorded
+ * inside a transaction is only kept if the operation is committed, and an operation fails if
+ * its event can't be written. Webhooks subscribed to the operation are queued the same way.
+ * @param connection The connection of the operation
+ * @param event The operation
+ * @param client Where the request came from, if it came from a client
+ */
+export const recordAuditEvent = async (
+  connection: PoolConnection,
+  event: AuditEventInput,
+  client?: AuditClient
+): Promise<void> => {
+  await connection.query(
+    `INSERT INTO audit_events
+     (actor_user_id, owner_user_id, action, file_id, folder_id, old_value, new_value, ip_address, user_agent)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      event.actorId,
+      event.ownerId,
+      event.action,
+      event.fileId ?? null,
+      event.folderId ?? null,
+      event.oldValue ? JSON.stringify(event.oldValue) : null,
+      event.newValue ? JSON.stringify(event.newValue) : null,
+      client?.ipAddress ?? null,
+      client?.userAgent ?? null
+    ]
+  );
+
+  await queueWebhookEvent(connection, event);
+};
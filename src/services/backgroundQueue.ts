@@ -0,0 +1,35 @@
+// src/services/backgroundQueue.ts
+
+// Most background jobs run at once. Jobs such as text extraction and thumbnails start
+// external processes (pdftotext, pdftoppm) or decode whole files, so uploads of many
+// files are worked through a few at a time.
+const MAX_RUNNING_JOBS = 2;
+
+const waiting: (() => Promise<void>)[] = [];
+let running = 0;
+
+// Start waiting jobs while there are free slots
+const startJobs = () => {
+  while (running < MAX_RUNNING_JOBS && waiting.length > 0) {
+    const job = waiting.shift()!;
+    running++;
+
+    job()
+      .catch(error => {
+        console.error('Background job failed:', error);
+      })
+      .finally(() => {
+        running--;
+        startJobs();
+      });
+  }
+};
+
+/**
+ * Run a job in the background once fewer than MAX_RUNNING_JOBS are running
+ * @param job The job; it should handle its own errors
+ */
+export const queueBackgroundJob = (job: () => Promise<void>): void => {
+  waiting.push(job);
+  startJobs();
+};
@@ -0,0 +1,135 @@
+// src/services/blobStore.ts
+import { PoolConnection } from 'mysql2/promise';
+import { RowDataPacket } from 'mysql2';
+import pool from '../config/database';
+import { commitStagedBlob, deleteFile, getBlobPath, hashContent, writeBlob } from './fileStorage';
+
+// Error code returned by controllers when content referenced by checksum is not available to the caller
+export const BLOB_NOT_FOUND = 'BLOB_NOT_FOUND';
+
+// A stored blob as referenced by files and file versions
+export interface StoredBlob {
+  hash: string;
+  size: number;
+  filePath: string;
+}
+
+// A blob reference as stored on a files or file_versions row.
+// Rows stored before content addressing have no checksum and own their blob outright.
+export interface BlobReference {
+  checksum: string | null;
+  file_path: string;
+}
+
+// Add a reference to a blob, creating its record if this is the first one.
+// This locks the blob row until the transaction ends, so the blob can't be removed meanwhile.
+export const addBlobReference = async (connection: PoolConnection, hash: string, size: number): Promise<void> => {
+  await connection.query(
+    `INSERT INTO blobs (hash, size, ref_count) VALUES (?, ?, 1)
+     ON DUPLICATE KEY UPDATE ref_count = ref_count + 1`,
+    [hash, size]
+  );
+};
+
+// Find a stored blob by checksum, as long as one of the given users already has a file
+// or file version with that content. Knowing a checksum alone does not grant access to content.
+export const findOwnedBlob = async (
+  connection: PoolConnection,
+  hash: string,
+  userIds: number[]
+): Promise<StoredBlob | null> => {
+  const [blobs] = await connection.query(
+    `SELECT b.hash, b.size FROM blobs b
+     WHERE b.hash = ? AND b.ref_count > 0
+     AND (
+       EXISTS (SELECT 1 FROM files f WHERE f.checksum = b.hash AND f.user_id IN (?))
+       OR EXISTS (
+         SELECT 1 FROM file_versions v
+         JOIN files f ON f.file_id = v.file_id
+         WHERE v.checksum = b.hash AND f.user_id IN (?)
+       )
+     )
+     FOR UPDATE`,
+    [hash, userIds, userIds]
+  ) as [RowDataPacket[], any];
+
+  if (blobs.length === 0) {
+    return null;
+  }
+
+  return { hash: blobs[0].hash, size: Number(blobs[0].size), filePath: getBlobPath(blobs[0].hash) };
+};
+
+// Store file contents and add a reference to them. Must run inside a transaction.
+// Content that is already stored is not written again.
+export const storeBlob = async (connection: PoolConnection, data: Buffer): Promise<StoredBlob> => {
+  const hash = hashContent(data);
+
+  // Take the reference first, so a concurrent removal can't delete the blob after it was written
+  await addBlobReference(connection, hash, data.length);
+  const filePath = await writeBlob(hash, data);
+
+  return { hash, size: data.length, filePath };
+};
+
+// Store a staged upload (see stageUploadChunks) and add a reference to it. Must run inside a transaction.
+export const storeStagedBlob = async (
+  connection: PoolConnection,
+  staged: { stagedPath: string; hash: string; size: number }
+): Promise<StoredBlob> => {
+  await addBlobReference(connection, staged.hash, staged.size);
+  const filePath = await commitStagedBlob(staged.stagedPath, staged.hash);
+
+  return { hash: staged.hash, size: staged.size, filePath };
+};
+
+// Drop a reference to a blob. Pass the reference to removeUnreferencedBlobs once the
+// transaction has committed to delete the blob if nothing else uses it.
+export const releaseBlobReference = async (connection: PoolConnection, blob: BlobReference): Promise<void> => {
+  if (blob.checksum) {
+    await connection.query(
+      `UPDATE blobs SET ref_count = ref_count - 1 WHERE hash = ? AND ref_count > 0`,
+      [blob.checksum]
+    );
+  }
+};
+
+// Delete blobs that are no longer referenced from storage
+export const removeUnreferencedBlobs = async (blobs: BlobReference[]): Promise<void> => {
+  for (const blob of blobs) {
+    if (!blob.checksum) {
+      await deleteFile(blob.file_path);
+      continue;
+    }
+
+    const connection = await pool.getConnection();
+
+    try {
+      // Start transaction
+      await connection.beginTransaction();
+
+      // Lock the blob row so a concurrent upload of the same content waits for the removal
+      const [records] = await connection.query(
+        `SELECT ref_count FROM blobs WHERE hash = ? FOR UPDATE`,
+        [blob.checksum]
+      ) as [RowDataPacket[], any];
+
+      if (records.length === 0 || records[0].ref_count === 0) {
+        await deleteFile(getBlobPath(blob.checksum));
+        await connection.query(
+          `DELETE FROM blobs WHERE hash = ?`,
+          [blob.checksum]
+        );
+      }
+
+      // Commit transaction
+      await connection.commit();
+    } catch (error) {
+      // Rollback transaction on error
+      await connection.rollback();
+      console.error('Error removing blob:', error);
+    } finally {
+      connection.release();
+    }
+  }
+};
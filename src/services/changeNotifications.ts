@@ -0,0 +1,272 @@
+// src/services/changeNotifications.ts
+import { randomUUID } from 'crypto';
+import { Redis } from 'ioredis';
+import { PoolConnection } from 'mysql2/promise';
+import { RowDataPacket } from 'mysql2';
+import pool from '../config/database';
+import redisClient from '../config/redis';
+import { getFolderAccess, hasRole } from './folderAccess';
+import { ChangeEvent, ChangeInput, ChangeMessage, ChangeSubscription } from '../types/changeTypes';
+
+// Redis channel every server instance publishes its changes to
+const CHANGES_CHANNEL = 'cmed:changes';
+
+// A client connected to this instance
+interface ChangeListener {
+  subscription: ChangeSubscription;
+  send: (event: ChangeEvent) => void;
+}
+
+const listeners = new Set<ChangeListener>();
+
+// Connection receiving the changes published by all instances; a connection in
+// subscriber mode can't run other commands, so it is separate from the shared client
+let subscriber: Redis | null = null;
+
+// Get folders and all of their ancestors, with their owners
+const getAncestors = async (connection: PoolConnection, folderIds: number[]): Promise<RowDataPacket[]> => {
+  if (folderIds.length === 0) {
+    return [];
+  }
+
+  const [ancestors] = await connection.query(
+    `WITH RECURSIVE ancestors AS (
+       SELECT folder_id, parent_folder_id, user_id FROM folders WHERE folder_id IN (?)
+       UNION
+       SELECT f.folder_id, f.parent_folder_id, f.user_id
+       FROM folders f
+       JOIN ancestors a ON f.folder_id = a.parent_folder_id
+     )
+     SELECT folder_id, user_id FROM ancestors`,
+    [folderIds]
+  ) as [RowDataPacket[], any];
+
+  return ancestors;
+};
+
+/**
+ * Describe a change for subscribed clients
+ * Items in the trash are included, so deletions can be described too.
+ * @param connection A database connection
+ * @param change The change
+ * @returns The message to publish, or null if the item no longer exists
+ */
+const buildChangeMessage = async (connection: PoolConnection, change: ChangeInput): Promise<ChangeMessage | null> => {
+  let event: ChangeEvent;
+  let ownerId: number;
+  let folderId: number | null;
+
+  const base = {
+    id: randomUUID(),
+    created_at: new Date().toISOString(),
+    actor_id: change.actorId,
+    from_folder_id: change.fromFolderId ?? null
+  };
+
+  if (change.fileId !== undefined) {
+    const [files] = await connection.query(
+      `SELECT file_id, user_id, folder_id, name, size, mime_type, version, updated_at FROM files WHERE file_id = ?`,
+      [change.fileId]
+    ) as [RowDataPacket[], any];
+
+    if (files.length === 0) {
+      return null;
+    }
+
+    const file = files[0];
+    ownerId = file.user_id;
+    folderId = file.folder_id;
+    event = {
+      ...base,
+      type: change.type,
+      item: {
+        type: 'file',
+        id: file.file_id,
+        name: file.name,
+        folder_id: file.folder_id,
+        size: Number(file.size),
+        mime_type: file.mime_type,
+        version: file.version,
+        updated_at: file.updated_at
+      }
+    };
+  } else if (change.folderId !== undefined) {
+    const [folders] = await connection.query(
+      `SELECT folder_id, user_id, parent_folder_id, name, updated_at FROM folders WHERE folder_id = ?`,
+      [change.folderId]
+    ) as [RowDataPacket[], any];
+
+    if (folders.length === 0) {
+      return null;
+    }
+
+    const folder = folders[0];
+    ownerId = folder.user_id;
+    folderId = folder.folder_id;
+    event = {
+      ...base,
+      type: change.type,
+      item: {
+        type: 'folder',
+        id: folder.folder_id,
+        name: folder.name,
+        parent_folder_id: folder.parent_folder_id,
+        updated_at: folder.updated_at
+      }
+    };
+  } else {
+    return null;
+  }
+
+  // Subscribers to any folder above the item, where it is now or where it was, see the change.
+  // An item moved into a folder shared with the user changes hands, so both trees see it.
+  const folderIds = [folderId, change.fromFolderId].filter((id): id is number => typeof id === 'number');
+  const ancestors = await getAncestors(connection, folderIds);
+
+  return {
+    event,
+    ownerIds: [...new Set([ownerId, ...ancestors.map(ancestor => ancestor.user_id)])],
+    folderIds: ancestors.map(ancestor => ancestor.folder_id)
+  };
+};
+
+/**
+ * Send a change to the matching clients connected to this instance
+ * Clients listening to a folder shared with them only receive changes while they can still view it.
+ * @param message The published change
+ */
+const dispatchChange = async (message: ChangeMessage): Promise<void> => {
+  const folderIds = new Set(message.folderIds);
+  const shared: { listener: ChangeListener; folderId: number }[] = [];
+
+  for (const listener of listeners) {
+    const { subscription } = listener;
+
+    if (message.ownerIds.includes(subscription.userId)) {
+      if (subscription.tree || subscription.folderIds.some(id => folderIds.has(id))) {
+        listener.send(message.event);
+      }
+      continue;
+    }
+
+    const folderId = subscription.folderIds.find(id => folderIds.has(id));
+
+    if (folderId !== undefined) {
+      shared.push({ listener, folderId });
+    }
+  }
+
+  if (shared.length === 0) {
+    return;
+  }
+
+  const connection = await pool.getConnection();
+
+  try {
+    for (const { listener, folderId } of shared) {
+      const access = await getFolderAccess(connection, listener.subscription.userId, folderId, true);
+
+      if (access && hasRole(access.role, 'viewer')) {
+        listener.send(message.event);
+      }
+    }
+  } finally {
+    connection.release();
+  }
+};
+
+// Send a change to the clients of every instance through Redis. Without Redis the
+// change still reaches the clients of this instance.
+const broadcastChange = async (message: ChangeMessage): Promise<void> => {
+  if (redisClient.status === 'ready') {
+    await redisClient.publish(CHANGES_CHANNEL, JSON.stringify(message));
+
+    // This instance gets its own messages back once it is subscribed
+    if (subscriber?.status === 'ready') {
+      return;
+    }
+  }
+
+  await dispatchChange(message);
+};
+
+/**
+ * Notify subscribed clients of a change to a file or folder
+ * Called after the change is committed. The change is described and published in the
+ * background, so the caller's response isn't held up.
+ * @param change The change
+ */
+export const publishChange = (change: ChangeInput): void => {
+  pool.getConnection()
+    .then(async connection => {
+      let message: ChangeMessage | null;
+
+      try {
+        message = await buildChangeMessage(connection, change);
+      } finally {
+        connection.release();
+      }
+
+      if (message) {
+        await broadcastChange(message);
+      }
+    })
+    .catch(error => {
+      console.error(`Error publishing ${change.type} change:`, error);
+    });
+};
+
+/**
+ * Register a client for changes
+ * @param subscription What the client listens to
+ * @param send Called with each matching change
+ * @returns A function that unregisters the client
+ */
+export const addChangeListener = (
+  subscription: ChangeSubscription,
+  send: (event: ChangeEvent) => void
+): (() => void) => {
+  const listener = { subscription, send };
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Count the clients of a user connected to this instance
+export const countChangeListeners = (userId: number): number => {
+  let count = 0;
+
+  for (const listener of listeners) {
+    if (listener.subscription.userId === userId) {
+      count++;
+    }
+  }
+
+  return count;
+};
+
+// Start receiving the changes published by all instances
+export const startChangeNotifications = () => {
+  subscriber = redisClient.duplicate();
+
+  subscriber.on('message', (channel: string, payload: string) => {
+    if (channel !== CHANGES_CHANNEL) {
+      return;
+    }
+
+    Promise.resolve()
+      .then(() => dispatchChange(JSON.parse(payload)))
+      .catch(error => {
+        console.error('Error dispatching change:', error);
+      });
+  });
+
+  // Subscriptions are restored automatically when the connection comes back
+  subscriber.subscribe(CHANGES_CHANNEL).catch(error => {
+    console.error('Error subscribing to changes:', error);
+  });
+
+  return subscriber;
+};
@@ -0,0 +1,67 @@
+// src/services/contentIndex.ts
+import { RowDataPacket } from 'mysql2';
+import pool from '../config/database';
+import { queueBackgroundJob } from './backgroundQueue';
+import { getFile } from './fileStorage';
+import { extractText } from './textExtractor';
+
+/**
+ * Extract the text of a file's current version and store it for full-text search
+ * No connection is held while the text is extracted.
+ * @param fileId File ID
+ * @returns Whether the file has searchable text
+ */
+export const indexFileContent = async (fileId: number): Promise<boolean> => {
+  let files: RowDataPacket[];
+  let connection = await pool.getConnection();
+
+  try {
+    [files] = await connection.query(
+      `SELECT file_id, name, file_path, version FROM files WHERE file_id = ?`,
+      [fileId]
+    ) as [RowDataPacket[], any];
+  } finally {
+    connection.release();
+  }
+
+  if (files.length === 0) {
+    return false;
+  }
+
+  const file = files[0];
+  const text = await extractText(await getFile(file.file_path), file.name);
+
+  connection = await pool.getConnection();
+
+  try {
+    // A file whose type has no text (or no longer has one after a rename) is removed from the index
+    if (text === null) {
+      await connection.query(
+        `DELETE FROM file_contents WHERE file_id = ?`,
+        [fileId]
+      );
+      return false;
+    }
+
+    await connection.query(
+      `INSERT INTO file_contents (file_id, file_version, content) VALUES (?, ?, ?)
+       ON DUPLICATE KEY UPDATE file_version = VALUES(file_version), content = VALUES(content)`,
+      [fileId, file.version, text]
+    );
+
+    return true;
+  } finally {
+    connection.release();
+  }
+};
+
+// Index a newly stored file or version in the background
+export const queueContentIndexing = (fileId: number): void => {
+  queueBackgroundJob(async () => {
+    try {
+      await indexFileContent(fileId);
+    } catch (error) {
+      console.error(`Error indexing content of file ${fileId}:`, error);
+    }
+  });
+};
@@ -0,0 +1,295 @@
+// src/services/customMetadata.ts
+import { PoolConnection } from 'mysql2/promise';
+import { RowDataPacket } from 'mysql2';
+import {
+  CustomMetadata,
+  MAX_METADATA_FIELDS,
+  MAX_METADATA_NAME_LENGTH,
+  MAX_METADATA_STRING_LENGTH,
+  MetadataEntry,
+  MetadataField
+} from '../types/metadataTypes';
+
+// Field names: letters, digits, '_', '-', '.' and inner spaces
+const FIELD_NAME_PATTERN = /^[A-Za-z0-9_]([A-Za-z0-9_ .-]*[A-Za-z0-9_.-])?$/;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isValidFieldName = (name: string): boolean =>
+  name.length <= MAX_METADATA_NAME_LENGTH && FIELD_NAME_PATTERN.test(name);
+
+// Check a YYYY-MM-DD date is a real calendar date
+const isValidDate = (value: string): boolean => {
+  if (!DATE_PATTERN.test(value)) {
+    return false;
+  }
+
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+// Check a value against a schema field; returns an error message if it doesn't fit
+const checkFieldValue = (field: MetadataField, value: unknown): string | null => {
+  switch (field.type) {
+    case 'number':
+      return typeof value === 'number' && isFinite(value) ? null : `Metadata field "${field.name}" must be a number`;
+    case 'date':
+      return typeof value === 'string' && isValidDate(value)
+        ? null
+        : `Metadata field "${field.name}" must be a date (YYYY-MM-DD)`;
+    case 'enum':
+      return typeof value === 'string' && field.options?.includes(value)
+        ? null
+        : `Metadata field "${field.name}" must be one of: ${field.options?.join(', ')}`;
+    default:
+      if (typeof value !== 'string' || value === '') {
+        return `Metadata field "${field.name}" must be a non-empty string`;
+      }
+      return value.length <= MAX_METADATA_STRING_LENGTH
+        ? null
+        : `Metadata field "${field.name}" is longer than ${MAX_METADATA_STRING_LENGTH} characters`;
+  }
+};
+
+/**
+ * Check the fields of a folder metadata schema
+ * @param fields The schema fields
+ * @returns An error message, or null if the schema is valid
+ */
+export const validateMetadataSchema = (fields: MetadataField[]): string | null => {
+  if (fields.length > MAX_METADATA_FIELDS) {
+    return `A schema can have at most ${MAX_METADATA_FIELDS} fields`;
+  }
+
+  // Names are compared without case, like the database does
+  const names = new Set<string>();
+  for (const field of fields) {
+    if (!isValidFieldName(field.name)) {
+      return `Invalid field name "${field.name}"`;
+    }
+
+    if (names.has(field.name.toLowerCase())) {
+      return `Duplicate field "${field.name}"`;
+    }
+    names.add(field.name.toLowerCase());
+
+    if (field.type !== 'enum') {
+      if (field.options) {
+        return `Only enum fields can have options ("${field.name}")`;
+      }
+      continue;
+    }
+
+    if (!field.options || field.options.length === 0) {
+      return `Enum field "${field.name}" needs at least one option`;
+    }
+
+    if (field.options.some(option => option === '' || option.length > MAX_METADATA_STRING_LENGTH)) {
+      return `Options of enum field "${field.name}" must be non-empty strings of at most ${MAX_METADATA_STRING_LENGTH} characters`;
+    }
+
+    if (new Set(field.options).size !== field.options.length) {
+      return `Enum field "${field.name}" has duplicate options`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Check custom metadata values against a folder schema
+ * With a schema, only its fields are allowed and required fields must be present. Without one,
+ * any fields are allowed and their type is taken from the value: numbers, YYYY-MM-DD dates or strings.
+ * Names are compared without case; fields of a schema are stored with the schema's spelling.
+ * @param values The metadata values by field name
+ * @param schema The schema of the file's folder (empty if it has none)
+ * @returns The typed entries to store, or an error message
+ */
+export const validateCustomMetadata = (
+  values: CustomMetadata,
+  schema: MetadataField[]
+): { entries?: MetadataEntry[]; error?: string } => {
+  const fieldValues = Object.entries(values);
+
+  if (fieldValues.length > MAX_METADATA_FIELDS) {
+    return { error: `Files can have at most ${MAX_METADATA_FIELDS} metadata fields` };
+  }
+
+  const names = new Set<string>();
+  const entries: MetadataEntry[] = [];
+
+  for (const [name, value] of fieldValues) {
+    if (!isValidFieldName(name)) {
+      return { error: `Invalid metadata field name "${name}"` };
+    }
+
+    if (names.has(name.toLowerCase())) {
+      return { error: `Duplicate metadata field "${name}"` };
+    }
+    names.add(name.toLowerCase());
+
+    let field: MetadataField | undefined;
+    if (schema.length > 0) {
+      field = schema.find(schemaField => schemaField.name.toLowerCase() === name.toLowerCase());
+
+      if (!field) {
+        return { error: `Unknown metadata field "${name}"` };
+      }
+    } else {
+      field = {
+        name,
+        type: typeof value === 'number' ? 'number' : typeof value === 'string' && isValidDate(value) ? 'date' : 'string',
+        required: false
+      };
+    }
+
+    const error = checkFieldValue(field, value);
+    if (error) {
+      return { error };
+    }
+
+    entries.push({ name: field.name, type: field.type, value });
+  }
+
+  const missingField = schema.find(field => field.required && !names.has(field.name.toLowerCase()));
+  if (missingField) {
+    return { error: `Metadata field "${missingField.name}" is required` };
+  }
+
+  return { entries };
+};
+
+/**
+ * Apply changes to custom metadata values
+ * Names are compared without case, so a change replaces the current field whatever its spelling.
+ * @param current The current values by field name
+ * @param changes The new values by field name; null removes a field
+ * @returns The values after the changes
+ */
+export const mergeCustomMetadata = (
+  current: CustomMetadata,
+  changes: Record<string, string | number | null>
+): CustomMetadata => {
+  const changedNames = new Set(Object.keys(changes).map(name => name.toLowerCase()));
+  const merged: CustomMetadata = {};
+
+  for (const [name, value] of Object.entries(current)) {
+    if (!changedNames.has(name.toLowerCase())) {
+      merged[name] = value;
+    }
+  }
+
+  for (const [name, value] of Object.entries(changes)) {
+    if (value !== null) {
+      merged[name] = value;
+    }
+  }
+
+  return merged;
+};
+
+// Get the metadata schema of a folder; files at the Root (null) have none
+export const getMetadataSchema = async (
+  connection: PoolConnection,
+  folderId: number | null
+): Promise<MetadataField[]> => {
+  if (!folderId) {
+    return [];
+  }
+
+  const [folders] = await connection.query(
+    `SELECT metadata_schema FROM folders WHERE folder_id = ?`,
+    [folderId]
+  ) as [RowDataPacket[], any];
+
+  const schema = folders[0]?.metadata_schema;
+
+  // JSON columns are returned parsed by MySQL but as text by MariaDB
+  return !schema ? [] : typeof schema === 'string' ? JSON.parse(schema) : schema;
+};
+
+// Get the custom metadata of a file
+export const getCustomMetadata = async (connection: PoolConnection, fileId: number): Promise<CustomMetadata> => {
+  const [rows] = await connection.query(
+    `SELECT name, type, value_string, value_number, DATE_FORMAT(value_date, '%Y-%m-%d') AS value_date
+     FROM file_metadata WHERE file_id = ?
+     ORDER BY name ASC`,
+    [fileId]
+  ) as [RowDataPacket[], any];
+
+  const metadata: CustomMetadata = {};
+  for (const row of rows) {
+    metadata[row.name] = row.type === 'number' ? Number(row.value_number)
+      : row.type === 'date' ? row.value_date
+      : row.value_string;
+  }
+
+  return metadata;
+};
+
+// Replace the custom metadata of a file with validated entries
+export const saveCustomMetadata = async (
+  connection: PoolConnection,
+  fileId: number,
+  entries: MetadataEntry[]
+): Promise<void> => {
+  await connection.query(`DELETE FROM file_metadata WHERE file_id = ?`, [fileId]);
+
+  if (entries.length === 0) {
+    return;
+  }
+
+  await connection.query(
+    `INSERT INTO file_metadata (file_id, name, type, value_string, value_number, value_date) VALUES ?`,
+    [entries.map(entry => [
+      fileId,
+      entry.name,
+      entry.type,
+      entry.type === 'string' || entry.type === 'enum' ? entry.value : null,
+      entry.type === 'number' ? entry.value : null,
+      entry.type === 'date' ? entry.value : null
+    ])]
+  );
+};
+
+// Copy the custom metadata of a file to another file
+export const copyCustomMetadata = async (
+  connection: PoolConnection,
+  fromFileId: number,
+  toFileId: number
+): Promise<void> => {
+  await connection.query(
+    `INSERT INTO file_metadata (file_id, name, type, value_string, value_number, value_date)
+     SELECT ?, name, type, value_string, value_number, value_date FROM file_metadata WHERE file_id = ?`,
+    [toFileId, fromFileId]
+  );
+};
+
+/**
+ * Get the metadata a file uploaded into a folder will have, checked against the folder's schema
+ * A new version of an existing file keeps that file's metadata, with the given values replacing
+ * fields of the same name.
+ * @param connection A database connection
+ * @param ownerId The owner of the folder tree
+ * @param folderId The target folder (null for the Root)
+ * @param name The file name
+ * @param values Metadata values sent with the upload
+ * @returns The typed entries to store, or an error message
+ */
+export const resolveUploadMetadata = async (
+  connection: PoolConnection,
+  ownerId: number,
+  folderId: number | null,
+  name: string,
+  values: CustomMetadata = {}
+): Promise<{ entries?: MetadataEntry[]; error?: string }> => {
+  const [existingFiles] = await connection.query(
+    `SELECT file_id FROM files
+     WHERE user_id = ? AND folder_id <=> ? AND name = ? AND deleted_at IS NULL`,
+    [ownerId, folderId, name]
+  ) as [RowDataPacket[], any];
+
+  const currentValues = existingFiles.length > 0 ? await getCustomMetadata(connection, existingFiles[0].file_id) : {};
+
+  return validateCustomMetadata(mergeCustomMetadata(currentValues, values), await getMetadataSchema(connection, folderId));
+};
@@ -0,0 +1,73 @@
+// src/services/fileRecords.ts
+import { PoolConnection } from 'mysql2/promise';
+import { OkPacket, RowDataPacket } from 'mysql2';
+import { cacheMiddleware } from '../config/redis';
+
+// Define types for MySQL results
+type QueryResult = [RowDataPacket[] | RowDataPacket[][] | OkPacket | OkPacket[], any];
+
+// Record a blob that was written to storage as a file in a folder.
+// A file with the same name in the folder gets a new version instead of a new record.
+// Must run inside a transaction; returns the file ID and whether a new record was created.
+export const saveFileRecord = async (
+  connection: PoolConnection,
+  ownerId: number,
+  folderId: number | null,
+  file: { name: string; filePath: string; checksum: string; mimeType: string | null; size: number }
+): Promise<{ fileId: number; created: boolean }> => {
+  const [existingFiles] = await connection.query(
+    `SELECT * FROM files
+     WHERE user_id = ? AND folder_id <=> ? AND name = ? AND deleted_at IS NULL
+     FOR UPDATE`,
+    [ownerId, folderId, file.name]
+  ) as [RowDataPacket[], any];
+  
+  let fileDbId: number;
+  
+  if (existingFiles.length > 0) {
+    const existingFile = existingFiles[0];
+    fileDbId = existingFile.file_id;
+    
+    // Keep the current blob as a previous version
+    await connection.query(
+      `INSERT INTO file_versions (file_id, version_number, file_path, checksum, mime_type, size, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        fileDbId,
+        existingFile.version,
+        existingFile.file_path,
+        existingFile.checksum,
+        existingFile.mime_type,
+        existingFile.size,
+        existingFile.updated_at
+      ]
+    );
+    
+    await connection.query(
+      `UPDATE files SET file_path = ?, checksum = ?, mime_type = ?, size = ?, version = version + 1
+       WHERE file_id = ?`,
+      [file.filePath, file.checksum, file.mimeType, file.size, fileDbId]
+    );
+    
+    await cacheMiddleware.delete(`file:${fileDbId}`);
+  } else {
+    // Insert file record to database
+    const [result] = await connection.query(
+      `INSERT INTO files (user_id, folder_id, name, file_path, checksum, mime_type, size)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [ownerId, folderId, file.name, file.filePath, file.checksum, file.mimeType, file.size]
+    ) as QueryResult;
+    
+    // Get file ID
+    fileDbId = (result as OkPacket).insertId;
+  }
+  
+  // Clear folder cache
+  if (folderId) {
+    await cacheMiddleware.delete(`folder:${folderId}:contents`);
+    await cacheMiddleware.delete(`folder:${folderId}:files`);
+  }
+  await cacheMiddleware.delete(`user:${ownerId}:folders`);
+  
+  return { fileId: fileDbId, created: existingFiles.length === 0 };
+};
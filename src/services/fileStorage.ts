@@ -1,106 +1,160 @@
 // src/services/fileStorage.ts
-import { mkdir, writeFile, unlink, readFile, stat } from 'fs/promises';
-import { join, dirname, basename, extname } from 'path';
-import { randomUUID } from 'crypto';
-import { existsSync } from 'fs';
-import { readdir } from 'fs/promises';
-import { rm } from 'fs/promises';
-
-// Define storage structure
-const UPLOAD_DIR = process.env.UPLOAD_DIR || join(process.cwd(), 'uploads');
-
-// Ensure upload directory exists
-export const initializeStorage = async () => {
+import { mkdir, unlink, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createHash } from 'crypto';
+import storage from '../config/storage';
+
+// Blobs are stored once per distinct content, named by their SHA-256 hash
+const BLOB_DIR_NAME = 'blobs';
+
+// Chunks of in-progress upload sessions are kept outside the blob directory
+const CHUNK_DIR_NAME = '.chunks';
+
+// Thumbnails are stored next to the file they preview, e.g. /blobs/ab/cd/abcd....thumbnails/small.webp
+const THUMBNAIL_SUFFIX = '.thumbnails';
+
+// Completed uploads are assembled on local disk before they are stored
+const STAGING_DIR = process.env.UPLOAD_STAGING_DIR || join(tmpdir(), 'cmed-uploads');
+
+// Compute the SHA-256 hash that identifies a blob
+export const hashContent = (data: Buffer): string => {
+  return createHash('sha256').update(data).digest('hex');
+};
+
+// Get the storage path of a blob: /blobs/ab/cd/abcd...
+// The first two pairs of hash characters spread blobs over subdirectories
+export const getBlobPath = (hash: string): string => {
+  return `/${BLOB_DIR_NAME}/${hash.substring(0, 2)}/${hash.substring(2, 4)}/${hash}`;
+};
+
+// Store file contents as a blob unless a blob with the same hash already exists
+export const writeBlob = async (hash: string, data: Buffer): Promise<string> => {
+  const blobPath = getBlobPath(hash);
+
+  if (!(await storage.stat(blobPath))) {
+    await storage.put(blobPath, data);
+  }
+
+  return blobPath;
+};
+
+// Store a staged upload (see stageUploadChunks) as a blob and remove the staged file
+export const commitStagedBlob = async (stagedPath: string, hash: string): Promise<string> => {
+  const blobPath = getBlobPath(hash);
+
   try {
-    // Create main upload directory if it doesn't exist
-    if (!existsSync(UPLOAD_DIR)) {
-      await mkdir(UPLOAD_DIR, { recursive: true });
+    if (!(await storage.stat(blobPath))) {
+      await storage.put(blobPath, Bun.file(stagedPath));
     }
-    console.log(`Storage initialized at ${UPLOAD_DIR}`);
-    return true;
-  } catch (error) {
-    console.error('Error initializing storage:', error);
-    return false;
+  } finally {
+    await unlink(stagedPath).catch(() => undefined);
+  }
+
+  return blobPath;
+};
+
+// Get a file from storage. The returned blob is read lazily, so it can be
+// streamed (or sliced for range requests) without loading it into memory
+export const getFile = async (filePath: string): Promise<Blob> => {
+  return await storage.getStream(filePath);
+};
+
+// Get the storage path of a file's thumbnail
+const getThumbnailPath = (filePath: string, size: string): string => {
+  return `${filePath}${THUMBNAIL_SUFFIX}/${size}.webp`;
+};
+
+// Save a thumbnail of a file
+export const saveThumbnail = async (filePath: string, size: string, data: Buffer): Promise<void> => {
+  await storage.put(getThumbnailPath(filePath, size), data);
+};
+
+// Get a stored thumbnail of a file, or null if it hasn't been generated
+export const getThumbnail = async (
+  filePath: string,
+  size: string
+): Promise<{ data: Blob; size: number; modified: Date } | null> => {
+  const thumbnailPath = getThumbnailPath(filePath, size);
+  const info = await storage.stat(thumbnailPath);
+
+  if (!info) {
+    return null;
   }
+
+  return { data: await storage.getStream(thumbnailPath), ...info };
+};
+
+// Get the storage path of an upload session chunk
+const getChunkPath = (sessionId: string, chunkIndex: number): string => {
+  return `/${CHUNK_DIR_NAME}/${sessionId}/${chunkIndex}.part`;
+};
+
+// Get the local path where an upload session is assembled
+const getStagedPath = (sessionId: string): string => {
+  return join(STAGING_DIR, `${sessionId}.upload`);
 };
 
-// Get user storage directory
-export const getUserStorageDir = (userId: number): string => {
-  return join(UPLOAD_DIR, `user_${userId}`);
+// Save a chunk of an upload session, replacing any earlier copy of the same chunk
+export const saveUploadChunk = async (sessionId: string, chunkIndex: number, data: Buffer): Promise<void> => {
+  await storage.put(getChunkPath(sessionId, chunkIndex), data);
 };
 
-// Save a file to storage
-export const saveFile = async (
-  userId: number,
-  fileData: Buffer | Blob,
-  originalFilename: string
-): Promise<{ filePath: string; fileId: string }> => {
-  // Create unique filename using UUID
-  const fileExtension = extname(originalFilename);
-  const fileId = randomUUID();
-  const filename = `${fileId}${fileExtension}`;
-
-  // Create path structure: /uploads/user_123/abc/def/file.ext
-  // We use the first 3 chars of the UUID twice to create a directory structure
-  // This helps prevent having too many files in a single directory
-  const firstDir = fileId.substring(0, 3);
-  const secondDir = fileId.substring(3, 6);
-  
-  const userDir = getUserStorageDir(userId);
-  const fileDir = join(userDir, firstDir, secondDir);
-  const filePath = join(fileDir, filename);
-  
-  // Create directory structure
-  await mkdir(fileDir, { recursive: true });
-  
-  // Write file to disk
-  if (fileData instanceof Blob) {
-    const arrayBuffer = await fileData.arrayBuffer();
-    await writeFile(filePath, Buffer.from(arrayBuffer));
-  } else {
-    await writeFile(filePath, fileData);
+// Assemble the chunks of an upload session into a staged file, one chunk at a time,
+// and hash the contents on the way
+export const stageUploadChunks = async (
+  sessionId: string,
+  chunkCount: number
+): Promise<{ stagedPath: string; hash: string; size: number }> => {
+  const stagedPath = getStagedPath(sessionId);
+
+  await mkdir(STAGING_DIR, { recursive: true });
+
+  const writer = Bun.file(stagedPath).writer();
+  const hash = createHash('sha256');
+  let size = 0;
+
+  try {
+    for (let chunkIndex = 0; chunkIndex < chunkCount; chunkIndex++) {
+      const chunkFile = await storage.getStream(getChunkPath(sessionId, chunkIndex));
+      const chunk = Buffer.from(await chunkFile.arrayBuffer());
+      hash.update(chunk);
+      size += chunk.length;
+
+      writer.write(chunk);
+      await writer.flush();
+    }
+
+    await writer.end();
+  } catch (error) {
+    await writer.end();
+    await unlink(stagedPath).catch(() => undefined);
+    throw error;
   }
-  
-  // Return relative path from UPLOAD_DIR
-  const relativePath = filePath.replace(UPLOAD_DIR, '');
-  return { 
-    filePath: relativePath, 
-    fileId 
-  };
+
+  return { stagedPath, hash: hash.digest('hex'), size };
 };
 
-// Get a file from storage
-export const getFile = async (filePath: string): Promise<Buffer> => {
-  const fullPath = join(UPLOAD_DIR, filePath);
-  return await readFile(fullPath);
+// Delete all chunks of an upload session
+export const deleteUploadChunks = async (sessionId: string): Promise<void> => {
+  const chunkPaths = await storage.list(`/${CHUNK_DIR_NAME}/${sessionId}/`);
+
+  for (const chunkPath of chunkPaths) {
+    await storage.delete(chunkPath);
+  }
+
+  await rm(getStagedPath(sessionId), { force: true });
 };
 
-// Delete a file from storage
+// Delete a file and its thumbnails from storage
 export const deleteFile = async (filePath: string): Promise<boolean> => {
   try {
-    const fullPath = join(UPLOAD_DIR, filePath);
-    await unlink(fullPath);
-    
-    // Clean up empty directories
-    let dirPath = dirname(fullPath);
-    
-    // Try to remove parent directories if they're empty
-    // This is a best-effort cleanup, failures are not critical
-    try {
-      while (dirPath !== UPLOAD_DIR) {
-        // Use readdir from fs/promises instead of Bun.file().list()
-        const dirContents = await readdir(dirPath);
-        if (dirContents.length > 0) break;
-        
-        // Use rm from fs/promises instead of Bun.rm()
-        await rm(dirPath, { recursive: true });
-        dirPath = dirname(dirPath);
-      }
-    } catch (err) {
-      // Ignore errors in directory cleanup
-      console.warn('Directory cleanup error:', err);
+    await storage.delete(filePath);
+
+    for (const thumbnailPath of await storage.list(`${filePath}${THUMBNAIL_SUFFIX}/`)) {
+      await storage.delete(thumbnailPath);
     }
-    
+
     return true;
   } catch (error) {
     console.error('Error deleting file:', error);
@@ -111,58 +165,9 @@ export const deleteFile = async (filePath: string): Promise<boolean> => {
 // Get file metadata
 export const getFileMetadata = async (filePath: string): Promise<{ size: number, modified: Date } | null> => {
   try {
-    const fullPath = join(UPLOAD_DIR, filePath);
-    const fileStats = await stat(fullPath);
-    
-    return {
-      size: fileStats.size,
-      modified: fileStats.mtime
-    };
+    return await storage.stat(filePath);
   } catch (error) {
     console.error('Error getting file metadata:', error);
     return null;
   }
 };
-
-// Get user storage usage
-export const getUserStorageUsage = async (userId: number): Promise<number> => {
-  try {
-    let totalSize = 0;
-    const userDir = getUserStorageDir(userId);
-    
-    // Function to recursively calculate directory size
-    const calculateDirSize = async (directory: string): Promise<number> => {
-      let size = 0;
-      
-      if (!existsSync(directory)) {
-        return 0;
-      }
-      
-      // Use readdir from fs/promises instead of Bun.file().list()
-      const files = await readdir(directory);
-      
-      for (const file of files) {
-        const filePath = join(directory, file);
-        const fileStats = await stat(filePath);
-        
-        if (fileStats.isDirectory()) {
-          size += await calculateDirSize(filePath);
-        } else {
-          size += fileStats.size;
-        }
-      }
-      
-      return size;
-    };
-    
-    // Calculate total storage usage
-    if (existsSync(userDir)) {
-      totalSize = await calculateDirSize(userDir);
-    }
-    
-    return totalSize;
-  } catch (error) {
-    console.error('Error calculating storage usage:', error);
-    return 0;
-  }
-};
\ No newline at end of file
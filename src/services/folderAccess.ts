@@ -0,0 +1,256 @@
+// src/services/folderAccess.ts
+import { PoolConnection } from 'mysql2/promise';
+import { RowDataPacket } from 'mysql2';
+import { FolderRole, FOLDER_ROLES, SHARED_ROOT_ID } from '../types/shareTypes';
+import { BreadcrumbItem } from '../types/searchTypes';
+
+// Check whether a role satisfies the required role
+export const hasRole = (role: FolderRole | null, required: FolderRole): boolean => {
+  return role !== null && FOLDER_ROLES.indexOf(role) >= FOLDER_ROLES.indexOf(required);
+};
+
+// Get the caller's effective role on a folder.
+// The folder owner is always 'owner'; otherwise the strongest share granted on the
+// folder or any of its ancestors (to the user directly or to one of their groups) applies.
+// Folders in the trash are treated as missing unless includeDeleted is set.
+export const getFolderAccess = async (
+  connection: PoolConnection,
+  userId: number,
+  folderId: number,
+  includeDeleted = false
+): Promise<{ folder: RowDataPacket; role: FolderRole | null } | null> => {
+  const [folders] = await connection.query(
+    `SELECT * FROM folders WHERE folder_id = ? ${includeDeleted ? '' : 'AND deleted_at IS NULL'}`,
+    [folderId]
+  ) as [RowDataPacket[], any];
+
+  if (folders.length === 0) {
+    return null;
+  }
+
+  const folder = folders[0];
+
+  if (folder.user_id === userId) {
+    return { folder, role: 'owner' };
+  }
+
+  // Collect shares on the folder and all of its ancestors
+  const [shares] = await connection.query(
+    `WITH RECURSIVE ancestors AS (
+       SELECT folder_id, parent_folder_id FROM folders WHERE folder_id = ?
+       UNION ALL
+       SELECT f.folder_id, f.parent_folder_id
+       FROM folders f
+       JOIN ancestors a ON f.folder_id = a.parent_folder_id
+     )
+     SELECT fs.role
+     FROM folder_shares fs
+     JOIN ancestors a ON fs.folder_id = a.folder_id
+     WHERE fs.grantee_user_id = ?
+     OR fs.grantee_group_id IN (SELECT group_id FROM user_group_members WHERE user_id = ?)`,
+    [folderId, userId, userId]
+  ) as [RowDataPacket[], any];
+
+  let role: FolderRole | null = null;
+  for (const share of shares) {
+    if (!hasRole(role, share.role)) {
+      role = share.role;
+    }
+  }
+
+  return { folder, role };
+};
+
+// Get the caller's effective role on a file, derived from the folder that contains it.
+// Files in the trash are treated as missing unless includeDeleted is set.
+export const getFileAccess = async (
+  connection: PoolConnection,
+  userId: number,
+  fileId: number,
+  includeDeleted = false
+): Promise<{ file: RowDataPacket; role: FolderRole | null } | null> => {
+  const [files] = await connection.query(
+    `SELECT * FROM files WHERE file_id = ? ${includeDeleted ? '' : 'AND deleted_at IS NULL'}`,
+    [fileId]
+  ) as [RowDataPacket[], any];
+
+  if (files.length === 0) {
+    return null;
+  }
+
+  const file = files[0];
+
+  if (file.user_id === userId) {
+    return { file, role: 'owner' };
+  }
+
+  if (!file.folder_id) {
+    return { file, role: null };
+  }
+
+  const folderAccess = await getFolderAccess(connection, userId, file.folder_id, includeDeleted);
+
+  return { file, role: folderAccess ? folderAccess.role : null };
+};
+
+// Get the folders shared with a user (directly or through a group).
+// Folders that are already covered by a share on one of their ancestors are omitted.
+export const getSharedRootFolders = async (connection: PoolConnection, userId: number): Promise<RowDataPacket[]> => {
+  const [folders] = await connection.query(
+    `SELECT DISTINCT f.*, u.username AS owner_username
+     FROM folder_shares fs
+     JOIN folders f ON f.folder_id = fs.folder_id
+     JOIN users u ON u.user_id = f.user_id
+     WHERE f.user_id != ? AND f.deleted_at IS NULL
+     AND (fs.grantee_user_id = ?
+       OR fs.grantee_group_id IN (SELECT group_id FROM user_group_members WHERE user_id = ?))
+     ORDER BY f.name ASC`,
+    [userId, userId, userId]
+  ) as [RowDataPacket[], any];
+
+  const sharedIds = new Set(folders.map(folder => folder.folder_id));
+  const roots: RowDataPacket[] = [];
+
+  for (const folder of folders) {
+    // Skip folders whose ancestor is also shared with the user
+    const [ancestors] = await connection.query(
+      `WITH RECURSIVE ancestors AS (
+         SELECT folder_id, parent_folder_id FROM folders WHERE folder_id = ?
+         UNION ALL
+         SELECT f.folder_id, f.parent_folder_id
+         FROM folders f
+         JOIN ancestors a ON f.folder_id = a.parent_folder_id
+       )
+       SELECT folder_id FROM ancestors WHERE folder_id != ?`,
+      [folder.folder_id, folder.folder_id]
+    ) as [RowDataPacket[], any];
+
+    if (!ancestors.some(ancestor => sharedIds.has(ancestor.folder_id))) {
+      roots.push(folder);
+    }
+  }
+
+  return roots;
+};
+
+// Check whether a folder is the given root folder or one of its descendants
+export const isFolderInSubtree = async (
+  connection: PoolConnection,
+  folderId: number,
+  rootFolderId: number
+): Promise<boolean> => {
+  const [ancestors] = await connection.query(
+    `WITH RECURSIVE ancestors AS (
+       SELECT folder_id, parent_folder_id FROM folders WHERE folder_id = ?
+       UNION ALL
+       SELECT f.folder_id, f.parent_folder_id
+       FROM folders f
+       JOIN ancestors a ON f.folder_id = a.parent_folder_id
+     )
+     SELECT folder_id FROM ancestors WHERE folder_id = ?`,
+    [folderId, rootFolderId]
+  ) as [RowDataPacket[], any];
+
+  return ancestors.length > 0;
+};
+
+// Get a folder and its active descendants, parents before their children
+export const getSubtreeFolders = async (connection: PoolConnection, folderId: number): Promise<RowDataPacket[]> => {
+  const [folders] = await connection.query(
+    `WITH RECURSIVE subtree AS (
+       SELECT folder_id, parent_folder_id, name, updated_at, 0 AS depth FROM folders WHERE folder_id = ?
+       UNION ALL
+       SELECT f.folder_id, f.parent_folder_id, f.name, f.updated_at, s.depth + 1
+       FROM folders f
+       JOIN subtree s ON f.parent_folder_id = s.folder_id
+       WHERE f.deleted_at IS NULL
+     )
+     SELECT * FROM subtree ORDER BY depth, folder_id`,
+    [folderId]
+  ) as [RowDataPacket[], any];
+
+  return folders;
+};
+
+// Get the IDs of all folders another user's share gives the user access to: the shared
+// folders themselves (shared directly or through a group) and everything below them
+export const getSharedFolderIds = async (connection: PoolConnection, userId: number): Promise<number[]> => {
+  const [folders] = await connection.query(
+    `WITH RECURSIVE shared AS (
+       SELECT f.folder_id
+       FROM folder_shares fs
+       JOIN folders f ON f.folder_id = fs.folder_id
+       WHERE f.user_id != ? AND f.deleted_at IS NULL
+       AND (fs.grantee_user_id = ?
+         OR fs.grantee_group_id IN (SELECT group_id FROM user_group_members WHERE user_id = ?))
+       UNION
+       SELECT c.folder_id
+       FROM folders c
+       JOIN shared s ON c.parent_folder_id = s.folder_id
+       WHERE c.deleted_at IS NULL
+     )
+     SELECT folder_id FROM shared`,
+    [userId, userId, userId]
+  ) as [RowDataPacket[], any];
+
+  return folders.map(folder => folder.folder_id);
+};
+
+// Get the breadcrumb path (from Root to the folder itself) of each of the given folders.
+// Paths into another user's tree start at the "Shared with me" virtual root and only
+// include the folders the user can see.
+export const getFolderPaths = async (
+  connection: PoolConnection,
+  userId: number,
+  folderIds: number[],
+  sharedFolderIds: number[]
+): Promise<Map<number, BreadcrumbItem[]>> => {
+  const paths = new Map<number, BreadcrumbItem[]>();
+
+  if (folderIds.length === 0) {
+    return paths;
+  }
+
+  const [folders] = await connection.query(
+    `WITH RECURSIVE ancestors AS (
+       SELECT folder_id, parent_folder_id, user_id, name FROM folders WHERE folder_id IN (?)
+       UNION
+       SELECT f.folder_id, f.parent_folder_id, f.user_id, f.name
+       FROM folders f
+       JOIN ancestors a ON f.folder_id = a.parent_folder_id
+     )
+     SELECT * FROM ancestors`,
+    [folderIds]
+  ) as [RowDataPacket[], any];
+
+  const foldersById = new Map(folders.map(folder => [folder.folder_id, folder]));
+  const shared = new Set(sharedFolderIds);
+
+  for (const folderId of folderIds) {
+    const path: BreadcrumbItem[] = [];
+    let folder = foldersById.get(folderId);
+    let ownPath = true;
+
+    while (folder) {
+      if (folder.user_id !== userId) {
+        ownPath = false;
+
+        // Stop at the top of the part of the tree shared with the user
+        if (!shared.has(folder.folder_id)) {
+          break;
+        }
+      }
+
+      path.unshift({ id: folder.folder_id, name: folder.name });
+      folder = folder.parent_folder_id ? foldersById.get(folder.parent_folder_id) : undefined;
+    }
+
+    if (!ownPath) {
+      path.unshift({ id: SHARED_ROOT_ID, name: 'Shared with me' });
+    }
+
+    paths.set(folderId, path);
+  }
+
+  return paths;
+};
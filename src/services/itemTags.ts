@@ -0,0 +1,42 @@
+// src/services/itemTags.ts
+import { PoolConnection } from 'mysql2/promise';
+import { RowDataPacket } from 'mysql2';
+import { Tag } from '../types/tagTypes';
+
+// Get the tags a user has put on files or folders, by item ID.
+// Tags are personal, so other users' tags on shared items are not included.
+export const getItemTags = async (
+  connection: PoolConnection,
+  userId: number,
+  type: 'file' | 'folder',
+  itemIds: number[]
+): Promise<Map<number, Tag[]>> => {
+  const itemTags = new Map<number, Tag[]>();
+
+  if (itemIds.length === 0) {
+    return itemTags;
+  }
+
+  const [links] = await connection.query(
+    type === 'file'
+      ? `SELECT ft.file_id AS item_id, t.tag_id, t.name
+         FROM file_tags ft
+         JOIN tags t ON t.tag_id = ft.tag_id
+         WHERE t.user_id = ? AND ft.file_id IN (?)
+         ORDER BY t.name ASC`
+      : `SELECT ft.folder_id AS item_id, t.tag_id, t.name
+         FROM folder_tags ft
+         JOIN tags t ON t.tag_id = ft.tag_id
+         WHERE t.user_id = ? AND ft.folder_id IN (?)
+         ORDER BY t.name ASC`,
+    [userId, itemIds]
+  ) as [RowDataPacket[], any];
+
+  for (const link of links) {
+    const tags = itemTags.get(link.item_id) || [];
+    tags.push({ id: link.tag_id, name: link.name });
+    itemTags.set(link.item_id, tags);
+  }
+
+  return itemTags;
+};
@@ -0,0 +1,125 @@
+// src/services/localStorageBackend.ts
+import { mkdir, unlink, stat, rename, readdir, rm } from 'fs/promises';
+import { join, dirname, relative, resolve } from 'path';
+import { randomUUID } from 'crypto';
+import { StorageBackend } from '../types/storageTypes';
+
+// Objects being written are kept in a temporary directory until they are complete
+const TEMP_DIR_NAME = '.tmp';
+
+// Check whether an error means that a file or directory does not exist
+const isNotFound = (error: unknown): boolean => {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+};
+
+/**
+ * Create a storage backend that keeps objects as files below a directory
+ * @param directory Directory that holds the objects
+ */
+export const createLocalStorageBackend = (directory: string): StorageBackend => {
+  const rootDir = resolve(directory);
+
+  // Get the file system path of an object
+  const resolvePath = (key: string): string => {
+    return join(rootDir, key.replace(/^\/+/, ''));
+  };
+
+  return {
+    driver: 'local',
+
+    initialize: async () => {
+      await mkdir(rootDir, { recursive: true });
+      console.log(`Storage initialized at ${rootDir}`);
+    },
+
+    put: async (key, data) => {
+      const fullPath = resolvePath(key);
+      const tempPath = join(rootDir, TEMP_DIR_NAME, `${randomUUID()}.tmp`);
+
+      // Write to a temporary file first and move it into place once it is complete
+      await mkdir(dirname(tempPath), { recursive: true });
+
+      try {
+        await Bun.write(tempPath, data);
+        await mkdir(dirname(fullPath), { recursive: true });
+        await rename(tempPath, fullPath);
+      } catch (error) {
+        await unlink(tempPath).catch(() => undefined);
+        throw error;
+      }
+    },
+
+    getStream: async (key) => {
+      const file = Bun.file(resolvePath(key));
+
+      if (!(await file.exists())) {
+        throw new Error(`File not found in storage: ${key}`);
+      }
+
+      return file;
+    },
+
+    delete: async (key) => {
+      const fullPath = resolvePath(key);
+
+      try {
+        await unlink(fullPath);
+      } catch (error) {
+        if (isNotFound(error)) {
+          return;
+        }
+        throw error;
+      }
+
+      // Try to remove parent directories if they're empty
+      // This is a best-effort cleanup, failures are not critical
+      let dirPath = dirname(fullPath);
+
+      try {
+        while (dirPath !== rootDir && dirPath.startsWith(rootDir)) {
+          const dirContents = await readdir(dirPath);
+          if (dirContents.length > 0) break;
+
+          await rm(dirPath, { recursive: true });
+          dirPath = dirname(dirPath);
+        }
+      } catch (err) {
+        // Ignore errors in directory cleanup
+        console.warn('Directory cleanup error:', err);
+      }
+    },
+
+    stat: async (key) => {
+      try {
+        const fileStats = await stat(resolvePath(key));
+
+        return {
+          size: fileStats.size,
+          modified: fileStats.mtime
+        };
+      } catch (error) {
+        if (isNotFound(error)) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    list: async (prefix) => {
+      const dirPath = resolvePath(prefix);
+
+      try {
+        const entries = await readdir(dirPath, { recursive: true, withFileTypes: true });
+
+        return entries
+          .filter(entry => entry.isFile())
+          .map(entry => relative(rootDir, join(entry.parentPath, entry.name)).split('\\').join('/'));
+      } catch (error) {
+        if (isNotFound(error)) {
+          return [];
+        }
+        throw error;
+      }
+    }
+  };
+};
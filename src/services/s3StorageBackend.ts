@@ -0,0 +1,109 @@
+// src/services/s3StorageBackend.ts
+import { S3Client } from 'bun';
+import { StorageBackend } from '../types/storageTypes';
+
+// Connection settings for an S3-compatible bucket (AWS S3, MinIO, R2, ...)
+export interface S3StorageOptions {
+  bucket: string;
+  endpoint?: string;
+  region?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  // Prepended to every key, so several deployments can share a bucket
+  keyPrefix?: string;
+}
+
+// ListObjectsV2 as exposed by Bun's S3 client. The method exists at runtime but is
+// missing from older bun-types releases.
+interface S3ListResponse {
+  contents?: { key: string }[];
+  isTruncated?: boolean;
+  nextContinuationToken?: string;
+}
+
+type ListableS3Client = S3Client & {
+  list: (input: { prefix?: string; continuationToken?: string; maxKeys?: number }) => Promise<S3ListResponse>;
+};
+
+/**
+ * Create a storage backend that keeps objects in an S3-compatible bucket
+ * @param options Bucket and credentials; credentials fall back to the S3_* / AWS_* environment variables
+ */
+export const createS3StorageBackend = (options: S3StorageOptions): StorageBackend => {
+  const client = new S3Client({
+    bucket: options.bucket,
+    endpoint: options.endpoint,
+    region: options.region,
+    accessKeyId: options.accessKeyId,
+    secretAccessKey: options.secretAccessKey
+  }) as ListableS3Client;
+
+  const keyPrefix = options.keyPrefix ? options.keyPrefix.replace(/\/*$/, '/') : '';
+
+  // Get the bucket key of an object
+  const toObjectKey = (key: string): string => {
+    return keyPrefix + key.replace(/^\/+/, '');
+  };
+
+  return {
+    driver: 's3',
+
+    initialize: async () => {
+      // Fail early if the bucket is unreachable or the credentials are wrong
+      await client.list({ prefix: keyPrefix, maxKeys: 1 });
+      console.log(`Storage initialized in bucket ${options.bucket}${keyPrefix ? ` under ${keyPrefix}` : ''}`);
+    },
+
+    // S3 only makes an object visible once its upload has completed
+    put: async (key, data) => {
+      await client.write(toObjectKey(key), data);
+    },
+
+    getStream: async (key) => {
+      const file = client.file(toObjectKey(key));
+
+      if (!(await file.exists())) {
+        throw new Error(`File not found in storage: ${key}`);
+      }
+
+      return file;
+    },
+
+    delete: async (key) => {
+      await client.delete(toObjectKey(key));
+    },
+
+    stat: async (key) => {
+      const objectKey = toObjectKey(key);
+
+      if (!(await client.exists(objectKey))) {
+        return null;
+      }
+
+      const objectStats = await client.stat(objectKey);
+
+      return {
+        size: objectStats.size,
+        modified: objectStats.lastModified
+      };
+    },
+
+    list: async (prefix) => {
+      const keys: string[] = [];
+      let continuationToken: string | undefined;
+
+      // Results come in pages of up to 1000 keys
+      do {
+        const page = await client.list({ prefix: toObjectKey(prefix), continuationToken });
+
+        for (const object of page.contents || []) {
+          keys.push(object.key.substring(keyPrefix.length));
+        }
+
+        continuationToken = page.isTruncated ? page.nextContinuationToken : undefined;
+      } while (continuationToken);
+
+      return keys;
+    }
+  };
+};
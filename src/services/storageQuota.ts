@@ -0,0 +1,63 @@
+// src/services/storageQuota.ts
+import { PoolConnection } from 'mysql2/promise';
+import { OkPacket, RowDataPacket } from 'mysql2';
+
+// Define types for MySQL results
+type QueryResult = [RowDataPacket[] | RowDataPacket[][] | OkPacket | OkPacket[], any];
+
+// Error code returned by controllers when an operation would exceed the owner's quota
+export const QUOTA_EXCEEDED = 'QUOTA_EXCEEDED';
+
+// Get a user's storage usage. A NULL quota means the user has unlimited storage.
+export const getStorageUsage = async (
+  connection: PoolConnection,
+  userId: number
+): Promise<{ used: number; quota: number | null; remaining: number | null } | null> => {
+  const [users] = await connection.query(
+    `SELECT storage_used, storage_quota FROM users WHERE user_id = ?`,
+    [userId]
+  ) as [RowDataPacket[], any];
+
+  if (users.length === 0) {
+    return null;
+  }
+
+  const used = Number(users[0].storage_used);
+  const quota = users[0].storage_quota === null ? null : Number(users[0].storage_quota);
+
+  return {
+    used,
+    quota,
+    remaining: quota === null ? null : Math.max(quota - used, 0)
+  };
+};
+
+// Check whether a user has room for the given number of bytes, without reserving it
+export const hasStorageFor = async (connection: PoolConnection, userId: number, bytes: number): Promise<boolean> => {
+  const usage = await getStorageUsage(connection, userId);
+  return !!usage && (usage.remaining === null || bytes <= usage.remaining);
+};
+
+// Count new bytes against a user's quota. Returns false, and counts nothing, if they
+// would exceed it. Call inside the transaction that stores the blob so a rollback undoes it.
+export const reserveStorage = async (connection: PoolConnection, userId: number, bytes: number): Promise<boolean> => {
+  const [result] = await connection.query(
+    `UPDATE users SET storage_used = storage_used + ?
+     WHERE user_id = ? AND (storage_quota IS NULL OR storage_used + ? <= storage_quota)`,
+    [bytes, userId, bytes]
+  ) as QueryResult;
+
+  return (result as OkPacket).affectedRows > 0;
+};
+
+// Stop counting bytes whose blobs are being removed
+export const releaseStorage = async (connection: PoolConnection, userId: number, bytes: number): Promise<void> => {
+  if (bytes <= 0) {
+    return;
+  }
+
+  await connection.query(
+    `UPDATE users SET storage_used = GREATEST(storage_used - ?, 0) WHERE user_id = ?`,
+    [bytes, userId]
+  );
+};
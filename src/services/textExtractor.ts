@@ -0,0 +1,182 @@
+// src/services/textExtractor.ts
+import { Unzip, UnzipInflate, strFromU8 } from 'fflate';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+// File extensions whose text can be extracted for full-text search
+export const EXTRACTABLE_EXTENSIONS = ['txt', 'md', 'csv', 'json', 'xml', 'html', 'pdf', 'docx'];
+
+// Longest text kept per file; anything beyond this is not searchable
+export const MAX_EXTRACTED_TEXT_LENGTH = 1024 * 1024;
+
+// Most XML read from a Word document; the markup takes far more room than the text it holds
+const MAX_DOCX_XML_SIZE = MAX_EXTRACTED_TEXT_LENGTH * 8;
+
+// A Word document is fed to the decompressor in pieces of this size. Each compressed byte can
+// inflate to about a kilobyte, so small pieces keep the overshoot past MAX_DOCX_XML_SIZE small.
+const DOCX_INPUT_CHUNK_SIZE = 4 * 1024;
+
+// Give up on extracting a PDF's text after this long
+const PDF_EXTRACT_TIMEOUT_MS = 60 * 1000;
+
+// Named HTML/XML entities that commonly appear in text
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' '
+};
+
+// Replace character references and common named entities with the characters they stand for
+const decodeEntities = (text: string): string => {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.substring(2), 16) : parseInt(name.substring(1));
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+};
+
+// Decode text as UTF-8, falling back to Latin-1 for files in a legacy encoding
+const decodeText = (data: Uint8Array): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    return new TextDecoder('latin1').decode(data);
+  }
+};
+
+// Get the readable text of an HTML page
+const htmlToText = (html: string): string => {
+  return decodeEntities(
+    html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1\s*>/gi, ' ')
+      .replace(/<!--[\s\S]*?-->/g, ' ')
+      .replace(/<\/?(p|div|br|li|tr|h[1-6])\b[^>]*>/gi, '\n')
+      .replace(/<[^>]+>/g, ' ')
+  );
+};
+
+// Get the text of a Word document from its main document part
+// The part is inflated piece by piece and cut off at MAX_DOCX_XML_SIZE bytes, whatever size
+// the archive claims, so a small zip bomb can't fill the memory.
+const docxToText = (data: Uint8Array): string => {
+  const chunks: Uint8Array[] = [];
+  let xmlSize = 0;
+  let found = false;
+  let done = false;
+  let inflateError: Error | null = null;
+
+  const unzipper = new Unzip();
+  unzipper.register(UnzipInflate);
+
+  unzipper.onfile = (file) => {
+    if (found || file.name !== 'word/document.xml') {
+      return;
+    }
+    found = true;
+
+    file.ondata = (error, chunk, final) => {
+      if (error) {
+        inflateError = error;
+        done = true;
+        return;
+      }
+
+      const remaining = MAX_DOCX_XML_SIZE - xmlSize;
+      chunks.push(chunk.length > remaining ? chunk.subarray(0, remaining) : chunk);
+      xmlSize += Math.min(chunk.length, remaining);
+
+      if (xmlSize >= MAX_DOCX_XML_SIZE) {
+        file.terminate();
+        done = true;
+      } else if (final) {
+        done = true;
+      }
+    };
+
+    file.start();
+  };
+
+  for (let offset = 0; offset < data.length && !done; offset += DOCX_INPUT_CHUNK_SIZE) {
+    unzipper.push(data.subarray(offset, offset + DOCX_INPUT_CHUNK_SIZE), offset + DOCX_INPUT_CHUNK_SIZE >= data.length);
+  }
+
+  if (inflateError) {
+    throw inflateError;
+  }
+
+  if (!found) {
+    throw new Error('Not a Word document: word/document.xml is missing');
+  }
+
+  return decodeEntities(
+    strFromU8(Buffer.concat(chunks))
+      .replace(/<w:tab\/>/g, '\t')
+      .replace(/<\/w:p>|<w:br\/>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+  );
+};
+
+// Extract the text of a PDF with pdftotext (poppler-utils)
+const pdfToText = async (data: Blob): Promise<string> => {
+  const workDir = await mkdtemp(join(tmpdir(), 'cmed-text-'));
+
+  try {
+    const pdfPath = join(workDir, 'input.pdf');
+    await Bun.write(pdfPath, data);
+
+    const extractor = Bun.spawn(
+      ['pdftotext', '-enc', 'UTF-8', pdfPath, '-'],
+      { stdout: 'pipe', stderr: 'pipe', timeout: PDF_EXTRACT_TIMEOUT_MS }
+    );
+
+    const [text, exitCode] = await Promise.all([new Response(extractor.stdout).text(), extractor.exited]);
+
+    if (exitCode !== 0) {
+      throw new Error(`pdftotext failed: ${await new Response(extractor.stderr).text()}`);
+    }
+
+    return text;
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+};
+
+/**
+ * Extract the searchable text of a file
+ * @param data The file contents
+ * @param fileName The file name; its extension decides how the text is extracted
+ * @returns The text with whitespace collapsed, or null if the file type has no extractable text
+ */
+export const extractText = async (data: Blob, fileName: string): Promise<string | null> => {
+  const extension = fileName.includes('.') ? fileName.split('.').pop()?.toLowerCase() : undefined;
+
+  if (!extension || !EXTRACTABLE_EXTENSIONS.includes(extension)) {
+    return null;
+  }
+
+  let text: string;
+
+  switch (extension) {
+    case 'pdf':
+      text = await pdfToText(data);
+      break;
+    case 'docx':
+      text = docxToText(new Uint8Array(await data.arrayBuffer()));
+      break;
+    case 'html':
+      text = htmlToText(decodeText(new Uint8Array(await data.arrayBuffer())));
+      break;
+    case 'xml':
+      text = decodeEntities(decodeText(new Uint8Array(await data.arrayBuffer())).replace(/<[^>]+>/g, ' '));
+      break;
+    default:
+      text = decodeText(new Uint8Array(await data.arrayBuffer()));
+  }
+
+  return text
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim()
+    .substring(0, MAX_EXTRACTED_TEXT_LENGTH);
+};
@@ -0,0 +1,203 @@
+// src/services/thumbnailService.ts
+import sharp, { Sharp } from 'sharp';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { cacheMiddleware } from '../config/redis';
+import { getFile, getThumbnail, saveThumbnail } from './fileStorage';
+import { queueBackgroundJob } from './backgroundQueue';
+
+// Thumbnail sizes: the longest side in pixels
+export const THUMBNAIL_SIZES = {
+  small: 64,
+  medium: 256,
+  large: 1024
+} as const;
+
+export type ThumbnailSize = keyof typeof THUMBNAIL_SIZES;
+
+// MIME type of generated thumbnails
+export const THUMBNAIL_MIME_TYPE = 'image/webp';
+
+// Image types sharp can read directly; BMP is decoded here and PDFs are rendered with pdftoppm
+const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+const BMP_MIME_TYPE = 'image/bmp';
+const PDF_MIME_TYPE = 'application/pdf';
+
+// Give up on rendering a PDF page after this long
+const PDF_RENDER_TIMEOUT_MS = 30 * 1000;
+
+// Files whose thumbnails failed are not retried for this long
+const FAILED_THUMBNAIL_CACHE_SECONDS = 3600;
+
+// Check whether thumbnails can be generated for a MIME type
+export const supportsThumbnail = (mimeType: string | null): boolean => {
+  return !!mimeType && [...IMAGE_MIME_TYPES, BMP_MIME_TYPE, PDF_MIME_TYPE].includes(mimeType);
+};
+
+// Decode an uncompressed 24- or 32-bit BMP into raw RGB pixels, which sharp can't read itself
+const decodeBmp = (data: Buffer): Sharp => {
+  const pixelOffset = data.readUInt32LE(10);
+  const width = data.readInt32LE(18);
+  const rawHeight = data.readInt32LE(22);
+  const bitsPerPixel = data.readUInt16LE(28);
+  const compression = data.readUInt32LE(30);
+
+  // BI_RGB, or BI_BITFIELDS with the usual 32-bit layout
+  if ((bitsPerPixel !== 24 && bitsPerPixel !== 32) || (compression !== 0 && compression !== 3)) {
+    throw new Error(`Unsupported BMP format: ${bitsPerPixel} bits per pixel, compression ${compression}`);
+  }
+
+  // Rows are stored bottom-up unless the height is negative, each padded to 4 bytes
+  const height = Math.abs(rawHeight);
+  const bytesPerPixel = bitsPerPixel / 8;
+  const rowSize = Math.ceil((width * bytesPerPixel) / 4) * 4;
+
+  if (width <= 0 || data.length < pixelOffset + rowSize * height) {
+    throw new Error('Truncated BMP');
+  }
+
+  const pixels = Buffer.alloc(width * height * 3);
+
+  for (let y = 0; y < height; y++) {
+    const sourceRow = pixelOffset + (rawHeight > 0 ? height - 1 - y : y) * rowSize;
+
+    for (let x = 0; x < width; x++) {
+      const source = sourceRow + x * bytesPerPixel;
+      const target = (y * width + x) * 3;
+
+      // Pixels are stored as BGR(A)
+      pixels[target] = data[source + 2];
+      pixels[target + 1] = data[source + 1];
+      pixels[target + 2] = data[source];
+    }
+  }
+
+  return sharp(pixels, { raw: { width, height, channels: 3 } });
+};
+
+// Render the first page of a PDF to PNG with pdftoppm (poppler-utils)
+const renderPdfPage = async (data: Blob): Promise<Buffer> => {
+  const workDir = await mkdtemp(join(tmpdir(), 'cmed-thumbnail-'));
+
+  try {
+    const pdfPath = join(workDir, 'input.pdf');
+    await Bun.write(pdfPath, data);
+
+    const renderer = Bun.spawn(
+      [
+        'pdftoppm', '-png', '-f', '1', '-l', '1', '-singlefile',
+        '-scale-to', String(THUMBNAIL_SIZES.large),
+        pdfPath, join(workDir, 'page')
+      ],
+      { stdout: 'ignore', stderr: 'pipe', timeout: PDF_RENDER_TIMEOUT_MS }
+    );
+
+    if ((await renderer.exited) !== 0) {
+      throw new Error(`pdftoppm failed: ${await new Response(renderer.stderr).text()}`);
+    }
+
+    return Buffer.from(await Bun.file(join(workDir, 'page.png')).arrayBuffer());
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+};
+
+// Load the image a file's thumbnails are made from
+const loadPreviewImage = async (filePath: string, mimeType: string): Promise<Sharp> => {
+  const data = await getFile(filePath);
+
+  if (mimeType === PDF_MIME_TYPE) {
+    return sharp(await renderPdfPage(data));
+  }
+
+  const buffer = Buffer.from(await data.arrayBuffer());
+
+  return mimeType === BMP_MIME_TYPE ? decodeBmp(buffer) : sharp(buffer);
+};
+
+/**
+ * Generate and store all thumbnail sizes of a file
+ * Thumbnails are stored next to the file's content, so files sharing content share thumbnails.
+ * @param filePath Storage path of the file's content
+ * @param mimeType MIME type of the file
+ * @returns Whether thumbnails were generated
+ */
+export const generateThumbnails = async (filePath: string, mimeType: string | null): Promise<boolean> => {
+  if (!mimeType || !supportsThumbnail(mimeType)) {
+    return false;
+  }
+
+  const failedKey = `thumbnail:${filePath}:failed`;
+
+  // Don't keep retrying files that can't be rendered
+  if (await cacheMiddleware.get(failedKey)) {
+    return false;
+  }
+
+  try {
+    const image = await loadPreviewImage(filePath, mimeType);
+
+    for (const [size, dimension] of Object.entries(THUMBNAIL_SIZES)) {
+      const thumbnail = await image
+        .clone()
+        .rotate()
+        .resize(dimension, dimension, { fit: 'inside', withoutEnlargement: true })
+        .webp()
+        .toBuffer();
+
+      await saveThumbnail(filePath, size, thumbnail);
+    }
+
+    return true;
+  } catch (error) {
+    console.error(`Error generating thumbnails for ${filePath}:`, error);
+    await cacheMiddleware.set(failedKey, true, FAILED_THUMBNAIL_CACHE_SECONDS);
+    return false;
+  }
+};
+
+/**
+ * Get a thumbnail of a file, generating the thumbnails first if they don't exist yet
+ * (files uploaded before thumbnails were introduced, or whose generation was interrupted)
+ * @param filePath Storage path of the file's content
+ * @param mimeType MIME type of the file
+ * @param size Thumbnail size
+ * @returns The thumbnail image, or null if the file has no thumbnail
+ */
+export const getOrCreateThumbnail = async (
+  filePath: string,
+  mimeType: string | null,
+  size: ThumbnailSize
+): Promise<{ data: Blob; size: number; modified: Date } | null> => {
+  const thumbnail = await getThumbnail(filePath, size);
+
+  if (thumbnail) {
+    return thumbnail;
+  }
+
+  if (!(await generateThumbnails(filePath, mimeType))) {
+    return null;
+  }
+
+  return await getThumbnail(filePath, size);
+};
+
+// Generate a newly stored file's thumbnails in the background, unless content
+// shared with another file already has them
+export const queueThumbnails = (filePath: string, mimeType: string | null): void => {
+  if (!supportsThumbnail(mimeType)) {
+    return;
+  }
+
+  queueBackgroundJob(async () => {
+    try {
+      // The largest size is written last, so its presence means all sizes exist
+      if (!(await getThumbnail(filePath, 'large'))) {
+        await generateThumbnails(filePath, mimeType);
+      }
+    } catch (error) {
+      console.error('Error generating thumbnails:', error);
+    }
+  });
+};
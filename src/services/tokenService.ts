@@ -0,0 +1,48 @@
+// src/services/tokenService.ts
+import { SignJWT, jwtVerify } from 'jose';
+import { createHash, randomBytes } from 'crypto';
+
+// Secret used without JWT_SECRET in development; it is public, so nothing else may use it
+const DEVELOPMENT_JWT_SECRET = 'cmed-development-secret';
+
+// Token configuration
+const JWT_SECRET = new TextEncoder().encode(process.env.JWT_SECRET || DEVELOPMENT_JWT_SECRET);
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m';
+export const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+// Check access tokens can be signed: JWT_SECRET must be set unless NODE_ENV is development
+export const isJwtSecretConfigured = (): boolean => {
+  return Boolean(process.env.JWT_SECRET) || process.env.NODE_ENV === 'development';
+};
+
+// Sign a short-lived access token for a user
+export const signAccessToken = async (userId: number, username: string): Promise<string> => {
+  return await new SignJWT({ username })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(userId.toString())
+    .setIssuedAt()
+    .setExpirationTime(ACCESS_TOKEN_TTL)
+    .sign(JWT_SECRET);
+};
+
+// Verify an access token and return the user ID it was issued for
+export const verifyAccessToken = async (token: string): Promise<number | null> => {
+  try {
+    const { payload } = await jwtVerify(token, JWT_SECRET, { algorithms: ['HS256'] });
+    const userId = Number(payload.sub);
+    
+    return Number.isInteger(userId) ? userId : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Generate an unguessable random token
+export const generateToken = (bytes = 32): string => {
+  return randomBytes(bytes).toString('base64url');
+};
+
+// Hash a token before storing it, so leaked rows cannot be replayed
+export const hashToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
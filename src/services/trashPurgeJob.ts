@@ -0,0 +1,25 @@
+// src/services/trashPurgeJob.ts
+import { trashController, TRASH_RETENTION_DAYS } from '../controllers/trashController';
+
+// How often the purge job runs
+const TRASH_PURGE_INTERVAL_MINUTES = Number(process.env.TRASH_PURGE_INTERVAL_MINUTES) || 60;
+
+// Permanently delete trashed items older than the retention period
+const runPurge = async () => {
+  const result = await trashController.purgeExpired(TRASH_RETENTION_DAYS);
+
+  if (result.success && result.deleted && (result.deleted.folders > 0 || result.deleted.files > 0)) {
+    console.log(`Purged ${result.deleted.folders} folder(s) and ${result.deleted.files} file(s) from trash`);
+  }
+};
+
+// Start the periodic trash purge
+export const startTrashPurgeJob = () => {
+  runPurge();
+
+  const timer = setInterval(runPurge, TRASH_PURGE_INTERVAL_MINUTES * 60 * 1000);
+  // Don't keep the process alive just for the purge timer
+  timer.unref();
+
+  return timer;
+};
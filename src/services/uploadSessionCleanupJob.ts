@@ -0,0 +1,25 @@
+// src/services/uploadSessionCleanupJob.ts
+import { uploadSessionController } from '../controllers/uploadSessionController';
+
+// How often expired upload sessions are cleaned up
+const UPLOAD_CLEANUP_INTERVAL_MINUTES = 15;
+
+// Delete expired upload sessions and their partial chunks
+const runCleanup = async () => {
+  const result = await uploadSessionController.purgeExpired();
+
+  if (result.success && result.deleted) {
+    console.log(`Removed ${result.deleted} expired upload session(s)`);
+  }
+};
+
+// Start the periodic upload session cleanup
+export const startUploadSessionCleanupJob = () => {
+  runCleanup();
+
+  const timer = setInterval(runCleanup, UPLOAD_CLEANUP_INTERVAL_MINUTES * 60 * 1000);
+  // Don't keep the process alive just for the cleanup timer
+  timer.unref();
+
+  return timer;
+};
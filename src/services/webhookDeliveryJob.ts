@@ -0,0 +1,54 @@
+// src/services/webhookDeliveryJob.ts
+import { webhookController } from '../controllers/webhookController';
+
+// How often due webhook deliveries are sent
+const WEBHOOK_DELIVERY_INTERVAL_SECONDS = Number(process.env.WEBHOOK_DELIVERY_INTERVAL_SECONDS) || 5;
+
+// How long finished deliveries stay in the delivery log
+const WEBHOOK_DELIVERY_RETENTION_DAYS = Number(process.env.WEBHOOK_DELIVERY_RETENTION_DAYS) || 30;
+
+// How often old deliveries are removed from the log
+const DELIVERY_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// A run can outlast the interval while receivers are slow; runs never overlap
+let running = false;
+let lastPurgeAt = 0;
+
+// Send due deliveries and, now and then, remove old ones from the log
+const runDelivery = async () => {
+  if (running) {
+    return;
+  }
+  running = true;
+
+  try {
+    const result = await webhookController.deliverPending();
+
+    if (result.success && result.failed) {
+      console.warn(`${result.failed} webhook delivery(s) failed on their last attempt`);
+    }
+
+    if (Date.now() - lastPurgeAt >= DELIVERY_PURGE_INTERVAL_MS) {
+      lastPurgeAt = Date.now();
+
+      const purged = await webhookController.purgeDeliveries(WEBHOOK_DELIVERY_RETENTION_DAYS);
+
+      if (purged.success && purged.deleted) {
+        console.log(`Removed ${purged.deleted} old webhook delivery(s)`);
+      }
+    }
+  } finally {
+    running = false;
+  }
+};
+
+// Start the periodic webhook delivery
+export const startWebhookDeliveryJob = () => {
+  runDelivery();
+
+  const timer = setInterval(runDelivery, WEBHOOK_DELIVERY_INTERVAL_SECONDS * 1000);
+  // Don't keep the process alive just for the delivery timer
+  timer.unref();
+
+  return timer;
+};
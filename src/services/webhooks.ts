@@ -0,0 +1,231 @@
+// src/services/webhooks.ts
+import { createHmac, randomUUID } from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { PoolConnection } from 'mysql2/promise';
+import { RowDataPacket } from 'mysql2';
+import { getFolderAccess, hasRole } from './folderAccess';
+import { AuditEventInput } from '../types/auditTypes';
+import { WEBHOOK_EVENT_ACTIONS, WEBHOOK_EVENT_TYPES, WebhookPayload } from '../types/webhookTypes';
+
+// Attempts made to deliver an event before it is marked as failed
+export const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 8;
+
+// Delay before the first retry; it doubles with each further attempt
+const WEBHOOK_RETRY_BASE_SECONDS = Number(process.env.WEBHOOK_RETRY_BASE_SECONDS) || 30;
+
+// Longest delay between two attempts
+const MAX_RETRY_DELAY_SECONDS = 6 * 60 * 60;
+
+// How long a receiver has to respond
+export const WEBHOOK_TIMEOUT_MS = 10000;
+
+// Longest error message kept in the delivery log
+const MAX_ERROR_LENGTH = 1024;
+
+// Receivers on loopback, private and link-local addresses are refused, so webhooks can't be used
+// to reach internal services or cloud metadata endpoints. Allow them for local development.
+const WEBHOOK_ALLOW_PRIVATE_TARGETS = process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === 'true';
+
+// Addresses webhooks may not be sent to: unspecified, loopback, private, shared (CGNAT),
+// link-local, unique-local, benchmarking, multicast and reserved ranges.
+// IPv4-mapped IPv6 addresses are matched by the IPv4 ranges.
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// Error reported for receivers on blocked addresses
+export const BLOCKED_TARGET_ERROR = 'Receiver resolves to a private or local address';
+
+/**
+ * Check whether a receiver URL points at a blocked address
+ * The host is resolved, and every address it resolves to must be public.
+ * @param url The receiver URL
+ * @returns Whether the receiver is blocked; throws if the host can't be resolved
+ */
+export const isBlockedWebhookTarget = async (url: string): Promise<boolean> => {
+  if (WEBHOOK_ALLOW_PRIVATE_TARGETS) {
+    return false;
+  }
+
+  const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = isIP(hostname)
+    ? [{ address: hostname, family: isIP(hostname) }]
+    : await lookup(hostname, { all: true, verbatim: true });
+
+  return addresses.some(({ address, family }) => BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'));
+};
+
+/**
+ * Get the delay before the next attempt of a delivery
+ * @param attempts The number of attempts made so far (at least 1)
+ * @returns The delay in seconds
+ */
+export const getRetryDelaySeconds = (attempts: number): number => {
+  return Math.min(WEBHOOK_RETRY_BASE_SECONDS * 2 ** (attempts - 1), MAX_RETRY_DELAY_SECONDS);
+};
+
+/**
+ * Sign a webhook request body
+ * The signature is an HMAC-SHA256 of the timestamp and the body, so receivers can reject
+ * replayed requests as well as forged ones.
+ * @param secret The webhook's signing secret
+ * @param timestamp Unix time of the attempt, in seconds
+ * @param body The request body
+ * @returns The value of the X-Webhook-Signature header
+ */
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string => {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+};
+
+/**
+ * Send a webhook request
+ * @param url The receiver URL
+ * @param secret The webhook's signing secret
+ * @param delivery The delivery to send and its JSON payload
+ * @returns The response status if the receiver answered, and an error unless it accepted the event
+ */
+export const sendWebhook = async (
+  url: string,
+  secret: string,
+  delivery: { id: number; eventId: string; eventType: string; payload: string }
+): Promise<{ status: number | null; error: string | null }> => {
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    // Checked at every attempt, since the host may resolve elsewhere by now
+    if (await isBlockedWebhookTarget(url)) {
+      return { status: null, error: BLOCKED_TARGET_ERROR };
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'CMED-Emporium-Webhooks/1.0',
+        'X-Webhook-Id': delivery.eventId,
+        'X-Webhook-Event': delivery.eventType,
+        'X-Webhook-Delivery': String(delivery.id),
+        'X-Webhook-Signature': signWebhookPayload(secret, timestamp, delivery.payload)
+      },
+      body: delivery.payload,
+      // Following redirects would send the event somewhere the subscriber didn't choose
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+
+    // Only the status matters
+    await response.body?.cancel();
+
+    if (response.status < 200 || response.status >= 300) {
+      return { status: response.status, error: `Receiver responded with status ${response.status}` };
+    }
+
+    return { status: response.status, error: null };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { status: null, error: message.substring(0, MAX_ERROR_LENGTH) };
+  }
+};
+
+// Get the folders an event concerns: its folder and any folder it was moved from or to
+const getEventFolderIds = (event: AuditEventInput): number[] => {
+  const folderIds = new Set<number>();
+
+  for (const value of [event.folderId, event.oldValue?.folder_id, event.oldValue?.parent_folder_id,
+    event.newValue?.folder_id, event.newValue?.parent_folder_id]) {
+    if (typeof value === 'number') {
+      folderIds.add(value);
+    }
+  }
+
+  return [...folderIds];
+};
+
+/**
+ * Queue deliveries of an operation to the webhooks subscribed to it
+ * Called for every audited operation on the operation's connection, so deliveries are only
+ * queued if the operation is committed. Folder-scoped webhooks receive the events of their
+ * folder's subtree; the others receive the events of their owner's folder tree.
+ * @param connection The connection of the operation
+ * @param event The operation
+ */
+export const queueWebhookEvent = async (connection: PoolConnection, event: AuditEventInput): Promise<void> => {
+  const eventType = WEBHOOK_EVENT_TYPES.find(type => WEBHOOK_EVENT_ACTIONS[type] === event.action);
+
+  if (!eventType) {
+    return;
+  }
+
+  // A subtree contains an event if it contains one of the event's folders
+  const folderIds = getEventFolderIds(event);
+  let ancestorIds: number[] = [];
+
+  if (folderIds.length > 0) {
+    const [ancestors] = await connection.query(
+      `WITH RECURSIVE ancestors AS (
+         SELECT folder_id, parent_folder_id FROM folders WHERE folder_id IN (?)
+         UNION
+         SELECT f.folder_id, f.parent_folder_id
+         FROM folders f
+         JOIN ancestors a ON f.folder_id = a.parent_folder_id
+       )
+       SELECT folder_id FROM ancestors`,
+      [folderIds]
+    ) as [RowDataPacket[], any];
+
+    ancestorIds = ancestors.map(ancestor => ancestor.folder_id);
+  }
+
+  const [webhooks] = await connection.query(
+    `SELECT webhook_id, user_id, folder_id FROM webhooks
+     WHERE active = TRUE AND FIND_IN_SET(?, event_types)
+     AND ((folder_id IS NULL AND user_id = ?) OR folder_id IN (?))`,
+    [eventType, event.ownerId, ancestorIds.length > 0 ? ancestorIds : [null]]
+  ) as [RowDataPacket[], any];
+
+  if (webhooks.length === 0) {
+    return;
+  }
+
+  const payload: WebhookPayload = {
+    id: randomUUID(),
+    type: eventType,
+    created_at: new Date().toISOString(),
+    data: {
+      owner_id: event.ownerId,
+      actor_id: event.actorId,
+      file_id: event.fileId ?? null,
+      folder_id: event.folderId ?? null,
+      old: event.oldValue ?? null,
+      new: event.newValue ?? null
+    }
+  };
+  const body = JSON.stringify(payload);
+
+  for (const webhook of webhooks) {
+    // Subscribers to a folder shared with them only hear about it while they can still view it
+    if (webhook.user_id !== event.ownerId) {
+      const access = await getFolderAccess(connection, webhook.user_id, webhook.folder_id, true);
+
+      if (!access || !hasRole(access.role, 'viewer')) {
+        continue;
+      }
+    }
+
+    await connection.query(
+      `INSERT INTO webhook_deliveries (webhook_id, event_id, event_type, payload) VALUES (?, ?, ?, ?)`,
+      [webhook.webhook_id, payload.id, eventType, body]
+    );
+  }
+};
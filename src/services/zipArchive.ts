@@ -0,0 +1,326 @@
+// src/services/zipArchive.ts
+import { Unzip, UnzipInflate, Zip, ZipPassThrough } from 'fflate';
+import { getFile } from './fileStorage';
+import { MAX_FILE_SIZE } from '../types/fileTypes';
+
+// Archives are written without ZIP64 extensions, so they can have at most 65535 entries and
+// every offset in them, headers included, must stay below 4 GiB
+export const MAX_ARCHIVE_ENTRIES = 65535;
+const ZIP32_MAX_OFFSET = 0xffffffff;
+
+// Room kept below the 4 GiB limit for the headers of the entries
+const ARCHIVE_HEADER_ALLOWANCE = 64 * 1024 * 1024;
+
+// Bytes an entry's headers take besides its path: local header, data descriptor and
+// central directory record. The path is written in the local header and the central directory.
+const ENTRY_HEADER_SIZE = 30 + 16 + 46;
+
+// Largest total file size that can be downloaded as one ZIP archive
+export const MAX_ARCHIVE_SIZE = Math.min(
+  Number(process.env.MAX_ARCHIVE_SIZE) || 2 * 1024 * 1024 * 1024,
+  ZIP32_MAX_OFFSET - ARCHIVE_HEADER_ALLOWANCE
+);
+
+// Error code returned by controllers when a download is over the archive limits
+export const ARCHIVE_TOO_LARGE = 'ARCHIVE_TOO_LARGE';
+
+// Limits on extracting uploaded archives, which protect against zip bombs: the number of
+// entries, their total extracted size, and how much larger than the archive they may be
+export const MAX_EXTRACT_ENTRIES = Number(process.env.MAX_EXTRACT_ENTRIES) || 5000;
+export const MAX_EXTRACT_SIZE = Number(process.env.MAX_EXTRACT_SIZE) || 1024 * 1024 * 1024;
+const MAX_COMPRESSION_RATIO = 100;
+
+// Error code returned by controllers when an archive exceeds the extraction limits
+export const ARCHIVE_LIMIT_EXCEEDED = 'ARCHIVE_LIMIT_EXCEEDED';
+
+// The archive is fed to the decompressor in pieces of this size, so extracted entries
+// can be stored before the next ones are decompressed
+const EXTRACT_INPUT_CHUNK_SIZE = 64 * 1024;
+
+// Entries created by operating systems rather than users, which are left out when extracting
+const IGNORED_ENTRY_PATTERN = /(^|\/)(__MACOSX\/|\.DS_Store$|Thumbs\.db$|desktop\.ini$)/i;
+
+// A file or folder in an archive; folders have a path ending in '/' and no content
+export interface ArchiveEntry {
+  path: string;
+  filePath: string | null;
+  modified: Date;
+}
+
+// An archive ready to be streamed: its file name and entries
+export interface Archive {
+  name: string;
+  entries: ArchiveEntry[];
+}
+
+/**
+ * Check an archive can be written without ZIP64 extensions
+ * @param entries The entries of the archive
+ * @param totalSize The total size of its files
+ * @returns An error message if the archive is over the limits, otherwise null
+ */
+export const getArchiveLimitError = (entries: ArchiveEntry[], totalSize: number): string | null => {
+  if (entries.length > MAX_ARCHIVE_ENTRIES) {
+    return `Archives are limited to ${MAX_ARCHIVE_ENTRIES} files and folders`;
+  }
+
+  const headerSize = entries.reduce(
+    (total, entry) => total + ENTRY_HEADER_SIZE + 2 * Buffer.byteLength(entry.path),
+    0
+  );
+
+  if (totalSize > MAX_ARCHIVE_SIZE || headerSize > ARCHIVE_HEADER_ALLOWANCE) {
+    return `Archives are limited to ${MAX_ARCHIVE_SIZE} bytes of files`;
+  }
+
+  return null;
+};
+
+// Make a file or folder name safe to use as a single archive path segment
+export const toArchiveName = (name: string): string => {
+  const safeName = name.replace(/[\/\\]/g, '_');
+  return safeName === '.' || safeName === '..' ? '_' : safeName;
+};
+
+/**
+ * Stream a ZIP archive of files in storage
+ * Entries are read one at a time, and only as fast as the client receives the archive,
+ * so neither the archive nor a whole file is held in memory. Files are stored uncompressed,
+ * since most documents and images are compressed already.
+ * @param entries The files and folders of the archive, in archive order
+ * @returns A stream of the archive
+ */
+export const createZipStream = (entries: ArchiveEntry[]): ReadableStream<Uint8Array> => {
+  // Archive data produced since the last pull
+  const output: Uint8Array[] = [];
+  let finished = false;
+  let failure: Error | null = null;
+
+  const zip = new Zip((error, data, final) => {
+    if (error) {
+      failure = error;
+      return;
+    }
+
+    output.push(data);
+    finished = final;
+  });
+
+  let nextEntry = 0;
+  let current: { file: ZipPassThrough; reader: ReadableStreamDefaultReader<Uint8Array> } | null = null;
+
+  // Move the archive forward by one step: a chunk of the current file, or the start of the next entry
+  const advance = async (): Promise<void> => {
+    if (current) {
+      const { done, value } = await current.reader.read();
+
+      if (done) {
+        current.file.push(new Uint8Array(0), true);
+        current = null;
+      } else {
+        current.file.push(value);
+      }
+      return;
+    }
+
+    if (nextEntry === entries.length) {
+      zip.end();
+      return;
+    }
+
+    const entry = entries[nextEntry++];
+    const file = new ZipPassThrough(entry.path);
+    file.mtime = entry.modified;
+    zip.add(file);
+
+    if (!entry.filePath) {
+      file.push(new Uint8Array(0), true);
+      return;
+    }
+
+    const content = await getFile(entry.filePath);
+    current = { file, reader: content.stream().getReader() };
+  };
+
+  return new ReadableStream<Uint8Array>({
+    pull: async (controller) => {
+      while (output.length === 0 && !finished && !failure) {
+        await advance();
+      }
+
+      if (failure) {
+        throw failure;
+      }
+
+      for (const chunk of output.splice(0)) {
+        controller.enqueue(chunk);
+      }
+
+      if (finished) {
+        controller.close();
+      }
+    },
+
+    // The client went away; stop reading the current file
+    cancel: async () => {
+      await current?.reader.cancel();
+    }
+  });
+};
+
+// An entry read from an uploaded archive. Files carry their content, unless they couldn't be extracted.
+export interface ExtractedEntry {
+  // Path segments inside the archive, without empty, '.' and '..' segments
+  segments: string[];
+  path: string;
+  type: 'file' | 'folder';
+  content?: Uint8Array[];
+  size: number;
+  error?: string;
+}
+
+// Outcome of extracting one archive entry
+export interface ExtractionResult {
+  path: string;
+  type: 'file' | 'folder';
+  success: boolean;
+  id?: number;
+  error?: string;
+}
+
+// Split an archive entry name into path segments, or return null if it could write outside the
+// extraction folder (zip slip): absolute paths, drive letters and '..' segments are rejected
+export const getSafeEntrySegments = (name: string): string[] | null => {
+  const path = name.replace(/\\/g, '/');
+
+  if (path.startsWith('/') || /^[a-z]:/i.test(path)) {
+    return null;
+  }
+
+  const segments = path.split('/').filter(segment => segment !== '' && segment !== '.');
+
+  if (segments.some(segment => segment === '..' || /[\x00-\x1f]/.test(segment))) {
+    return null;
+  }
+
+  return segments;
+};
+
+/**
+ * Read the entries of a ZIP archive, handing them to a callback as they are extracted
+ * The archive is decompressed a piece at a time, and the entries completed by a piece are handed
+ * over before the next piece is read. Each file's content is held in memory until it is complete,
+ * along with the other entries completed by the same piece. Extraction stops once the archive has more than
+ * MAX_EXTRACT_ENTRIES entries, or its files expand beyond MAX_EXTRACT_SIZE bytes or
+ * MAX_COMPRESSION_RATIO times the archive size.
+ * @param archive The archive contents
+ * @param onEntry Called for each entry, in archive order; extraction waits for it to finish
+ * @returns An error if the archive couldn't be read to the end
+ */
+export const extractZipEntries = async (
+  archive: Uint8Array,
+  onEntry: (entry: ExtractedEntry) => Promise<void>
+): Promise<{ error?: string; code?: string }> => {
+  const maxExtractedSize = Math.min(MAX_EXTRACT_SIZE, archive.length * MAX_COMPRESSION_RATIO);
+  const extracted: ExtractedEntry[] = [];
+  let entryCount = 0;
+  let extractedSize = 0;
+  let limitError: string | null = null;
+
+  const unzipper = new Unzip();
+  unzipper.register(UnzipInflate);
+
+  unzipper.onfile = (file) => {
+    if (limitError || IGNORED_ENTRY_PATTERN.test(file.name)) {
+      return;
+    }
+
+    if (++entryCount > MAX_EXTRACT_ENTRIES) {
+      limitError = `Archives can have at most ${MAX_EXTRACT_ENTRIES} entries`;
+      return;
+    }
+
+    const segments = getSafeEntrySegments(file.name);
+    const isFolder = file.name.endsWith('/') || file.name.endsWith('\\');
+    const entry: ExtractedEntry = {
+      segments: segments || [],
+      path: file.name,
+      type: isFolder ? 'folder' : 'file',
+      size: 0
+    };
+
+    if (!segments || segments.length === 0) {
+      extracted.push({ ...entry, error: 'Unsafe path' });
+      return;
+    }
+
+    if (isFolder) {
+      extracted.push(entry);
+      return;
+    }
+
+    const content: Uint8Array[] = [];
+    entry.content = content;
+    file.ondata = (error, data, final) => {
+      if (error) {
+        extracted.push({ ...entry, content: undefined, error: 'Entry could not be decompressed' });
+        return;
+      }
+
+      entry.size += data.length;
+      extractedSize += data.length;
+
+      // Stop decompressing as soon as a limit is passed, whatever sizes the archive claims
+      if (extractedSize > maxExtractedSize) {
+        limitError = `Archive expands to more than ${maxExtractedSize} bytes`;
+        file.terminate();
+        return;
+      }
+
+      if (entry.size > MAX_FILE_SIZE) {
+        extracted.push({
+          ...entry,
+          content: undefined,
+          error: `File too large. Maximum size is ${MAX_FILE_SIZE / (1024 * 1024)}MB.`
+        });
+        file.terminate();
+        return;
+      }
+
+      content.push(data);
+
+      if (final) {
+        extracted.push(entry);
+      }
+    };
+
+    try {
+      file.start();
+    } catch {
+      extracted.push({ ...entry, content: undefined, error: 'Unsupported compression method' });
+    }
+  };
+
+  try {
+    for (let offset = 0; offset < archive.length && !limitError; offset += EXTRACT_INPUT_CHUNK_SIZE) {
+      unzipper.push(
+        archive.subarray(offset, offset + EXTRACT_INPUT_CHUNK_SIZE),
+        offset + EXTRACT_INPUT_CHUNK_SIZE >= archive.length
+      );
+
+      // Hand over the entries completed by this piece before decompressing more
+      for (const entry of extracted.splice(0)) {
+        await onEntry(entry);
+      }
+    }
+  } catch (error) {
+    console.error('Error reading archive:', error);
+    return { error: 'The archive is damaged or uses unsupported features' };
+  }
+
+  if (limitError) {
+    return { error: limitError, code: ARCHIVE_LIMIT_EXCEEDED };
+  }
+
+  return {};
+};
@@ -0,0 +1,96 @@
+// src/types/auditTypes.ts
+
+// Operations recorded in the audit log
+export const AUDIT_ACTIONS = [
+  'file.upload',
+  'file.download',
+  'file.rename',
+  'file.move',
+  'file.copy',
+  'file.delete',
+  'file.restore',
+  'file.purge',
+  'file.metadata_update',
+  'file.version_download',
+  'file.version_restore',
+  'file.versions_prune',
+  'folder.create',
+  'folder.rename',
+  'folder.move',
+  'folder.copy',
+  'folder.delete',
+  'folder.restore',
+  'folder.purge',
+  'folder.download',
+  'folder.metadata_schema_update',
+  'folder.share',
+  'folder.unshare',
+  'share_link.create',
+  'share_link.revoke',
+  'share_link.download',
+  'upload_session.create',
+  'upload_session.cancel',
+  'group.create',
+  'group.delete',
+  'group.member_add',
+  'group.member_remove',
+  'tag.create',
+  'tag.rename',
+  'tag.delete',
+  'tag.attach',
+  'tag.detach',
+  'api_token.create',
+  'api_token.revoke',
+  'webhook.create',
+  'webhook.update',
+  'webhook.delete',
+  'user.register',
+  'user.login',
+  'user.logout'
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+// Where a request came from
+export interface AuditClient {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+// An operation to record; the actor is null for visitors of public share links and for
+// automatic jobs, and the owner is the owner of the folder tree the target belongs to
+export interface AuditEventInput {
+  actorId: number | null;
+  ownerId: number;
+  action: AuditAction;
+  fileId?: number | null;
+  folderId?: number | null;
+  oldValue?: Record<string, unknown> | null;
+  newValue?: Record<string, unknown> | null;
+}
+
+// Interface for a recorded audit event
+export interface AuditEvent {
+  id: number;
+  action: AuditAction;
+  actor_id: number | null;
+  actor_username: string | null;
+  owner_id: number;
+  file_id: number | null;
+  folder_id: number | null;
+  old_value: Record<string, unknown> | null;
+  new_value: Record<string, unknown> | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: Date;
+}
+
+// Filters of an audit log query
+export interface AuditEventFilters {
+  actions: AuditAction[];
+  actorId: number | null;
+  fileId: number | null;
+  folderId: number | null;
+  from: Date | null;
+  to: Date | null;
+}
@@ -0,0 +1,28 @@
+// src/types/authTypes.ts
+
+// Scopes that can be granted to API tokens
+export const API_TOKEN_SCOPES = [
+  'files:read',     // View, download and search files
+  'files:write',    // Upload and delete files
+  'folders:read',   // View folders, contents and the folder tree
+  'folders:write',  // Create and rename folders
+  'folders:admin',  // Move and delete folders
+  'audit:read',     // View and export the audit log
+  'webhooks:admin', // Manage webhooks and view their deliveries
+] as const;
+
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+// Prefix that identifies API tokens, as opposed to JWT access tokens
+export const API_TOKEN_PREFIX = 'cmed_pat_';
+
+// Interface for API token metadata (the token itself is only returned once, on creation)
+export interface ApiToken {
+  id: number;
+  name: string;
+  token_prefix: string;
+  scopes: ApiTokenScope[];
+  expires_at: Date | null;
+  last_used_at: Date | null;
+  created_at: Date;
+}
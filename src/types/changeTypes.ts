@@ -0,0 +1,73 @@
+// src/types/changeTypes.ts
+
+// Changes pushed to clients subscribed to real-time notifications
+export const CHANGE_EVENT_TYPES = [
+  'file.created',
+  'file.updated',
+  'file.moved',
+  'file.deleted',
+  'folder.created',
+  'folder.updated',
+  'folder.moved',
+  'folder.deleted'
+] as const;
+
+export type ChangeEventType = typeof CHANGE_EVENT_TYPES[number];
+
+// A change as reported by the controller that made it
+export interface ChangeInput {
+  type: ChangeEventType;
+  actorId: number;
+  fileId?: number;
+  folderId?: number;
+  // The folder a moved item was in before the move
+  fromFolderId?: number | null;
+}
+
+// The changed item, as it is after the change
+export type ChangedItem =
+  | {
+      type: 'file';
+      id: number;
+      name: string;
+      folder_id: number | null;
+      size: number;
+      mime_type: string | null;
+      version: number;
+      updated_at: Date;
+    }
+  | {
+      type: 'folder';
+      id: number;
+      name: string;
+      parent_folder_id: number | null;
+      updated_at: Date;
+    };
+
+// Event sent to subscribed clients
+export interface ChangeEvent {
+  id: string;
+  type: ChangeEventType;
+  created_at: string;
+  actor_id: number;
+  item: ChangedItem;
+  from_folder_id: number | null;
+}
+
+// Message published to every server instance
+export interface ChangeMessage {
+  event: ChangeEvent;
+  // The owners of the trees the change happened in
+  ownerIds: number[];
+  // The folders whose subtree contains the change, before or after it
+  folderIds: number[];
+}
+
+// What a client listens to
+export interface ChangeSubscription {
+  userId: number;
+  // Changes anywhere in the user's own folder tree
+  tree: boolean;
+  // Changes in the subtrees of these folders, which may be shared with the user
+  folderIds: number[];
+}
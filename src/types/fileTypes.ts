@@ -1,4 +1,6 @@
 // src/types/fileTypes.ts
+import { CustomMetadata } from './metadataTypes';
+import { Tag } from './tagTypes';
 
 // Interface for uploaded files
 export interface UploadedFile {
@@ -15,11 +17,38 @@ export interface UploadedFile {
     size: number;
     mime_type: string;
     folder_id: number | null;
+    checksum: string | null; // SHA-256 of the content; null for files stored before content addressing
     created_at: Date;
     updated_at: Date;
     file_name?: string; // For frontend compatibility
   }
   
+  // Interface for file contents opened for download
+  export interface DownloadableFile {
+    data: Blob;
+    name: string;
+    mime_type: string;
+    size: number;
+    etag: string;
+    last_modified: Date;
+  }
+  
+  // Interface for a resumable upload session
+  export interface UploadSession {
+    id: string;
+    name: string;
+    size: number;
+    mime_type: string | null;
+    folder_id: number | null;
+    chunk_size: number;
+    chunk_count: number;
+    received_chunks: number[];
+    missing_chunks: number[];
+    metadata: CustomMetadata;
+    expires_at: Date;
+    created_at: Date;
+  }
+  
   // Interface for folder structure
   export interface Folder {
     id: number;
@@ -33,6 +62,55 @@ export interface UploadedFile {
     type?: string; // For search results
   }
   
+  // Interface for folder tree nodes (sidebar TreeView)
+  export interface FolderTreeNode {
+    id: number | string; // 'shared' for the "Shared with me" virtual root
+    name: string;
+    level: number;
+    nodeId: string;
+    sub_classifications: FolderTreeNode[];
+  }
+  
+  // Fields folder contents can be sorted by ('type' sorts files by MIME type)
+  export const FOLDER_CONTENTS_SORT_FIELDS = ['name', 'size', 'type', 'created_at', 'updated_at'] as const;
+  
+  export type FolderContentsSortField = typeof FOLDER_CONTENTS_SORT_FIELDS[number];
+  
+  // Paging and sorting for folder contents listings
+  export interface FolderContentsOptions {
+    sort: FolderContentsSortField;
+    order: 'asc' | 'desc';
+    limit: number | null; // null lists everything after the offset
+    offset: number;
+  }
+  
+  // A subfolder or file in a folder contents listing
+  export type FolderContentsEntry =
+    | {
+        id: number;
+        name: string;
+        type: 'folder';
+        level: number;
+        nodeId: string; // For TreeView
+        sub_classifications: FolderTreeNode[]; // Populated by the frontend
+        created_at: Date;
+        updated_at: Date;
+        tags?: Tag[];
+      }
+    | {
+        id: number;
+        name: string;
+        file_name: string; // For frontend compatibility
+        type: 'file';
+        level: number;
+        nodeId: string; // For TreeView
+        size: number;
+        mime_type: string | null;
+        created_at: Date;
+        updated_at: Date;
+        tags?: Tag[];
+      };
+  
   // Allowed file types
   export const ALLOWED_FILE_EXTENSIONS = [
     // Document formats
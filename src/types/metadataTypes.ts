@@ -0,0 +1,30 @@
+// src/types/metadataTypes.ts
+
+// Types a custom metadata field can have
+export const METADATA_FIELD_TYPES = ['string', 'number', 'date', 'enum'] as const;
+
+export type MetadataFieldType = typeof METADATA_FIELD_TYPES[number];
+
+// Limits on custom metadata
+export const MAX_METADATA_FIELDS = 50;
+export const MAX_METADATA_NAME_LENGTH = 64;
+export const MAX_METADATA_STRING_LENGTH = 1024;
+
+// Interface for a field of a folder's metadata schema
+export interface MetadataField {
+  name: string;
+  type: MetadataFieldType;
+  required: boolean;
+  // Allowed values of an enum field
+  options?: string[];
+}
+
+// Custom metadata of a file by field name; dates are YYYY-MM-DD strings
+export type CustomMetadata = Record<string, string | number>;
+
+// A validated metadata value, ready to be stored
+export interface MetadataEntry {
+  name: string;
+  type: MetadataFieldType;
+  value: string | number;
+}
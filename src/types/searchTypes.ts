@@ -0,0 +1,38 @@
+// src/types/searchTypes.ts
+
+// Fields search results can be sorted by
+export const SEARCH_SORT_FIELDS = ['name', 'size', 'created_at', 'updated_at'] as const;
+
+export type SearchSortField = typeof SEARCH_SORT_FIELDS[number];
+
+// Filters and paging for the unified search
+export interface SearchFilters {
+  query?: string;
+  type?: 'file' | 'folder';
+  mimeType?: string;
+  extension?: string;
+  minSize?: number;
+  maxSize?: number;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  updatedAfter?: Date;
+  updatedBefore?: Date;
+  folderId?: number;
+  sort: SearchSortField;
+  order: 'asc' | 'desc';
+  limit: number;
+  cursor?: SearchCursor;
+}
+
+// Position after the last result of a page: its sort value, kind and ID
+export interface SearchCursor {
+  value: string | number;
+  kind: 'file' | 'folder';
+  id: number;
+}
+
+// A folder on the path to a search result ('shared' for the "Shared with me" virtual root)
+export interface BreadcrumbItem {
+  id: number | string;
+  name: string;
+}
@@ -0,0 +1,45 @@
+// src/types/shareTypes.ts
+
+// Roles that can be granted on a shared folder, from least to most privileged
+export const FOLDER_ROLES = ['viewer', 'editor', 'owner'] as const;
+
+export type FolderRole = typeof FOLDER_ROLES[number];
+
+// ID of the virtual "Shared with me" root in folder listings and the folder tree
+export const SHARED_ROOT_ID = 'shared';
+
+// Interface for a folder share grant
+export interface FolderShare {
+  id: number;
+  folder_id: number;
+  role: FolderRole;
+  user_id: number | null;
+  username: string | null;
+  group_id: number | null;
+  group_name: string | null;
+  created_at: Date;
+}
+
+// Interface for a user group
+export interface UserGroup {
+  id: number;
+  name: string;
+  owner_id: number;
+  member_count: number;
+  created_at: Date;
+}
+
+// Interface for a public share link (the token itself is only returned once, on creation)
+export interface ShareLink {
+  id: number;
+  type: 'file' | 'folder';
+  file_id: number | null;
+  folder_id: number | null;
+  name: string;
+  token_prefix: string;
+  has_password: boolean;
+  expires_at: Date | null;
+  max_downloads: number | null;
+  download_count: number;
+  created_at: Date;
+}
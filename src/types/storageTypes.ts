@@ -0,0 +1,39 @@
+// src/types/storageTypes.ts
+
+// Storage drivers that can be selected with STORAGE_BACKEND
+export const STORAGE_DRIVERS = ['local', 's3'] as const;
+
+export type StorageDriver = typeof STORAGE_DRIVERS[number];
+
+// Size and modification time of a stored object
+export interface StorageObjectInfo {
+  size: number;
+  modified: Date;
+}
+
+// Where file contents are kept. Keys are slash-separated paths such as
+// `blobs/ab/cd/abcd...`; a leading slash is ignored.
+export interface StorageBackend {
+  driver: StorageDriver;
+
+  // Prepare the storage (create directories, check the bucket is reachable)
+  initialize: () => Promise<void>;
+
+  // Store an object, replacing any object with the same key.
+  // Readers never see a partially written object.
+  put: (key: string, data: Buffer | Blob) => Promise<void>;
+
+  // Open an object for reading. The returned blob is read lazily, so it can be
+  // streamed (or sliced for range requests) without loading it into memory.
+  // Throws if the object does not exist.
+  getStream: (key: string) => Promise<Blob>;
+
+  // Delete an object; deleting a missing object is not an error
+  delete: (key: string) => Promise<void>;
+
+  // Get an object's size and modification time, or null if it does not exist
+  stat: (key: string) => Promise<StorageObjectInfo | null>;
+
+  // List the keys of all objects under a prefix such as `chunks/<id>/`
+  list: (prefix: string) => Promise<string[]>;
+}
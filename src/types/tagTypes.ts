@@ -0,0 +1,20 @@
+// src/types/tagTypes.ts
+
+// Longest tag name
+export const MAX_TAG_NAME_LENGTH = 64;
+
+// Interface for a tag
+export interface Tag {
+  id: number;
+  name: string;
+  file_count?: number;
+  folder_count?: number;
+  created_at?: Date;
+}
+
+// Files and folders a bulk tag operation applies to
+export interface TagSelection {
+  tagIds: number[];
+  fileIds: number[];
+  folderIds: number[];
+}
@@ -0,0 +1,84 @@
+// src/types/webhookTypes.ts
+import { AuditAction } from './auditTypes';
+
+// Events webhooks can subscribe to
+export const WEBHOOK_EVENT_TYPES = [
+  'file.uploaded',
+  'file.renamed',
+  'file.moved',
+  'file.copied',
+  'file.deleted',
+  'file.restored',
+  'file.purged',
+  'file.metadata_updated',
+  'file.version_restored',
+  'folder.created',
+  'folder.renamed',
+  'folder.moved',
+  'folder.copied',
+  'folder.deleted',
+  'folder.restored',
+  'folder.purged'
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+// The audited operation each webhook event is sent for
+export const WEBHOOK_EVENT_ACTIONS: Record<WebhookEventType, AuditAction> = {
+  'file.uploaded': 'file.upload',
+  'file.renamed': 'file.rename',
+  'file.moved': 'file.move',
+  'file.copied': 'file.copy',
+  'file.deleted': 'file.delete',
+  'file.restored': 'file.restore',
+  'file.purged': 'file.purge',
+  'file.metadata_updated': 'file.metadata_update',
+  'file.version_restored': 'file.version_restore',
+  'folder.created': 'folder.create',
+  'folder.renamed': 'folder.rename',
+  'folder.moved': 'folder.move',
+  'folder.copied': 'folder.copy',
+  'folder.deleted': 'folder.delete',
+  'folder.restored': 'folder.restore',
+  'folder.purged': 'folder.purge'
+};
+
+// Event sent by the test endpoint; subscriptions always receive it
+export const WEBHOOK_PING_EVENT = 'ping';
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+// Interface for a webhook subscription (the secret is only returned once, on creation)
+export interface Webhook {
+  id: number;
+  url: string;
+  folder_id: number | null;
+  events: WebhookEventType[];
+  active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Body of a webhook request
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEventType | typeof WEBHOOK_PING_EVENT;
+  created_at: string;
+  data: Record<string, unknown>;
+}
+
+// Interface for a logged delivery of an event to a webhook
+export interface WebhookDelivery {
+  id: number;
+  event_id: string;
+  event_type: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: Date | null;
+  last_attempt_at: Date | null;
+  response_status: number | null;
+  last_error: string | null;
+  created_at: Date;
+  delivered_at: Date | null;
+  payload?: WebhookPayload;
+}
@@ -0,0 +1,50 @@
+// src/utils/customMetadataBody.ts
+import { t } from 'elysia';
+import { CustomMetadata, METADATA_FIELD_TYPES } from '../types/metadataTypes';
+
+// Error returned when the metadata field of a multipart upload is not a JSON object
+export const INVALID_METADATA_FIELD_ERROR = 'metadata must be a JSON object of field names and values';
+
+// Custom metadata values in a JSON body
+export const customMetadataValues = t.Record(t.String(), t.Union([t.String(), t.Number()]));
+
+// Metadata changes in a JSON body; null removes a field
+export const customMetadataChanges = t.Record(t.String(), t.Union([t.String(), t.Number(), t.Null()]));
+
+// A field of a folder metadata schema
+export const metadataFieldBody = t.Object({
+  name: t.String({ minLength: 1 }),
+  type: t.Union(METADATA_FIELD_TYPES.map(type => t.Literal(type))),
+  required: t.Optional(t.Boolean()),
+  options: t.Optional(t.Array(t.String()))
+});
+
+/**
+ * Get the custom metadata sent as a JSON string in a multipart upload
+ * @param value The metadata form field, if sent
+ * @returns The metadata values (empty if none were sent), or null if the field is invalid
+ */
+export const parseMetadataField = (value: string | undefined): CustomMetadata | null => {
+  if (value === undefined || value === '') {
+    return {};
+  }
+
+  let metadata: unknown;
+  try {
+    metadata = JSON.parse(value);
+  } catch {
+    return null;
+  }
+
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    return null;
+  }
+
+  // Values are checked against the folder schema later; only their JSON types are checked here
+  const values = Object.values(metadata);
+  if (values.some(fieldValue => typeof fieldValue !== 'string' && typeof fieldValue !== 'number')) {
+    return null;
+  }
+
+  return metadata as CustomMetadata;
+};
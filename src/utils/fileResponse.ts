@@ -0,0 +1,162 @@
+// src/utils/fileResponse.ts
+import { DownloadableFile } from '../types/fileTypes';
+
+export type ContentDisposition = 'inline' | 'attachment';
+
+// MIME types that are safe to render in the browser. Anything else (HTML, SVG, scripts)
+// is always sent as an attachment so it cannot run in the API's origin.
+const INLINE_MIME_TYPES = [
+  /^application\/pdf$/,
+  /^image\/(png|jpeg|gif|webp|bmp)$/,
+  /^audio\//,
+  /^video\//,
+  /^text\/plain$/
+];
+
+/**
+ * Get the response headers for sending a file to the client
+ * @param file File name and MIME type
+ * @param disposition Whether the browser should preview the file or save it
+ */
+export const getFileDownloadHeaders = (
+  file: { name: string; mime_type: string | null },
+  disposition: ContentDisposition = 'attachment'
+): Record<string, string> => {
+  const mimeType = file.mime_type || 'application/octet-stream';
+  const inline = disposition === 'inline' && INLINE_MIME_TYPES.some(pattern => pattern.test(mimeType));
+
+  return {
+    'Content-Type': mimeType,
+    'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename="${encodeURIComponent(file.name)}"`,
+    'X-Content-Type-Options': 'nosniff'
+  };
+};
+
+/**
+ * Build the ETag of a file's content
+ * @param checksum SHA-256 of the content, null for files stored before content addressing
+ * @param fileId File ID, used with the version number when there is no checksum
+ * @param version Version number (never reused for a file)
+ */
+export const getContentETag = (checksum: string | null, fileId: number, version: number): string => {
+  return checksum ? `"${checksum}"` : `"${fileId}-${version}"`;
+};
+
+/**
+ * Parse a single-range `Range` header against a file size
+ * @returns The inclusive byte range, null if the header should be ignored,
+ * or 'unsatisfiable' if the range lies outside the file
+ */
+const parseRange = (header: string, size: number): { start: number; end: number } | null | 'unsatisfiable' => {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+
+  // Multiple ranges and other units are not supported; the full file is sent instead
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return null;
+  }
+
+  let start: number;
+  let end: number;
+
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const suffixLength = parseInt(match[2]);
+    if (suffixLength === 0) {
+      return 'unsatisfiable';
+    }
+    start = Math.max(size - suffixLength, 0);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1]);
+    end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2]), size - 1);
+  }
+
+  if (start >= size || start > end) {
+    return 'unsatisfiable';
+  }
+
+  return { start, end };
+};
+
+// Compare an HTTP date header with a modification time at one-second precision
+const isNotModifiedSince = (header: string, lastModified: Date): boolean => {
+  const since = Date.parse(header);
+  return !isNaN(since) && Math.floor(lastModified.getTime() / 1000) <= Math.floor(since / 1000);
+};
+
+/**
+ * Build a file response, honouring conditional (`If-None-Match`, `If-Modified-Since`)
+ * and range (`Range`, `If-Range`) request headers
+ * The response is built directly because Elysia drops the headers of partial blob
+ * responses and adds its own Content-Range to full ones.
+ * @param headers Request headers
+ * @param file File opened for download
+ * @param disposition Whether the browser should preview the file or save it
+ * @returns A response streaming the file or a slice of it, or an empty response
+ */
+export const sendFile = (
+  headers: Record<string, string | undefined>,
+  file: DownloadableFile,
+  disposition: ContentDisposition = 'attachment'
+): Response => {
+  const lastModified = new Date(file.last_modified);
+
+  const responseHeaders: Record<string, string> = {
+    ...getFileDownloadHeaders(file, disposition),
+    'Accept-Ranges': 'bytes',
+    'ETag': file.etag,
+    'Last-Modified': lastModified.toUTCString()
+  };
+
+  // Conditional GET: If-None-Match takes precedence over If-Modified-Since
+  const ifNoneMatch = headers['if-none-match'];
+  const notModified = ifNoneMatch
+    ? ifNoneMatch.split(',').some(tag => {
+      const value = tag.trim();
+      return value === '*' || value === file.etag || value === `W/${file.etag}`;
+    })
+    : !!headers['if-modified-since'] && isNotModifiedSince(headers['if-modified-since'], lastModified);
+
+  if (notModified) {
+    return new Response(null, { status: 304, headers: responseHeaders });
+  }
+
+  const rangeHeader = headers['range'];
+  const ifRange = headers['if-range'];
+
+  // A Range is only honoured if the client's copy is still current
+  const rangeApplies = rangeHeader && (
+    !ifRange ||
+    ifRange === file.etag ||
+    (!ifRange.startsWith('"') && !ifRange.startsWith('W/') && isNotModifiedSince(ifRange, lastModified))
+  );
+
+  if (rangeApplies) {
+    const range = parseRange(rangeHeader, file.size);
+
+    if (range === 'unsatisfiable') {
+      responseHeaders['Content-Range'] = `bytes */${file.size}`;
+      return new Response(null, { status: 416, headers: responseHeaders });
+    }
+
+    if (range) {
+      responseHeaders['Content-Range'] = `bytes ${range.start}-${range.end}/${file.size}`;
+      return new Response(file.data.slice(range.start, range.end + 1), { status: 206, headers: responseHeaders });
+    }
+  }
+
+  return new Response(file.data, { status: 200, headers: responseHeaders });
+};
+
+/**
+ * Build the response for a ZIP archive that is streamed as it is written
+ * Its size isn't known up front, so the response has no Content-Length and doesn't support ranges.
+ * @param name File name of the archive
+ * @param stream The archive contents
+ */
+export const sendArchive = (name: string, stream: ReadableStream<Uint8Array>): Response => {
+  return new Response(stream, {
+    status: 200,
+    headers: getFileDownloadHeaders({ name, mime_type: 'application/zip' })
+  });
+};
@@ -1,12 +1,196 @@
 // src/utils/fileValidator.ts
-import { UploadedFile, ALLOWED_FILE_EXTENSIONS, DISALLOWED_MIME_TYPES, MAX_FILE_SIZE } from '../types/fileTypes';
+import { UploadedFile, ALLOWED_FILE_EXTENSIONS, MAX_FILE_SIZE } from '../types/fileTypes';
+
+// Number of leading bytes needed to detect a file's type
+export const FILE_SIGNATURE_LENGTH = 64 * 1024;
+
+// A file format recognised from its leading bytes, with the MIME type stored for
+// each extension the format may be uploaded under
+interface FileSignature {
+  format: string;
+  matches: (bytes: Buffer) => boolean;
+  mimeTypes: Record<string, string>;
+}
+
+// Check whether the bytes at an offset equal a byte sequence (or ASCII string)
+const hasBytes = (bytes: Buffer, offset: number, expected: number[] | string): boolean => {
+  const sequence = typeof expected === 'string' ? Buffer.from(expected, 'latin1') : Buffer.from(expected);
+  return bytes.length >= offset + sequence.length && bytes.subarray(offset, offset + sequence.length).equals(sequence);
+};
+
+const isZip = (bytes: Buffer): boolean => {
+  return hasBytes(bytes, 0, [0x50, 0x4b, 0x03, 0x04]) || hasBytes(bytes, 0, [0x50, 0x4b, 0x05, 0x06]);
+};
+
+// Office Open XML documents are zip archives holding a content types part and a
+// folder named after the application. Entry names are stored uncompressed.
+const isOfficeOpenXml = (bytes: Buffer, folder: string): boolean => {
+  return isZip(bytes) && bytes.includes('[Content_Types].xml') && bytes.includes(folder);
+};
+
+// Text is recognised by the absence of control characters other than whitespace and
+// escape, which binary formats almost always contain. Any ASCII-compatible encoding
+// (UTF-8, Latin-1, Windows-1252) is accepted.
+const isText = (bytes: Buffer): boolean => {
+  return !bytes.some(byte => byte < 0x20 && ![0x09, 0x0a, 0x0c, 0x0d, 0x1b].includes(byte));
+};
+
+// MIME types of the allowed text formats
+const TEXT_MIME_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  csv: 'text/csv',
+  md: 'text/markdown',
+  json: 'application/json',
+  xml: 'application/xml',
+  html: 'text/html',
+  css: 'text/css',
+  js: 'text/javascript',
+  ts: 'text/x-typescript'
+};
+
+// Formats in detection order: binary signatures first, since text is only recognised
+// by the absence of one
+const FILE_SIGNATURES: FileSignature[] = [
+  {
+    format: 'PDF',
+    matches: bytes => hasBytes(bytes, 0, '%PDF-'),
+    mimeTypes: { pdf: 'application/pdf' }
+  },
+  {
+    format: 'Word document',
+    matches: bytes => isOfficeOpenXml(bytes, 'word/'),
+    mimeTypes: {
+      docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      zip: 'application/zip'
+    }
+  },
+  {
+    format: 'Excel workbook',
+    matches: bytes => isOfficeOpenXml(bytes, 'xl/'),
+    mimeTypes: {
+      xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      zip: 'application/zip'
+    }
+  },
+  {
+    format: 'PowerPoint presentation',
+    matches: bytes => isOfficeOpenXml(bytes, 'ppt/'),
+    mimeTypes: {
+      pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      zip: 'application/zip'
+    }
+  },
+  {
+    format: 'ZIP archive',
+    matches: isZip,
+    mimeTypes: { zip: 'application/zip' }
+  },
+  {
+    // Legacy Office formats share the OLE compound file container
+    format: 'Office document',
+    matches: bytes => hasBytes(bytes, 0, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]),
+    mimeTypes: {
+      doc: 'application/msword',
+      xls: 'application/vnd.ms-excel',
+      ppt: 'application/vnd.ms-powerpoint'
+    }
+  },
+  {
+    format: 'RAR archive',
+    matches: bytes => hasBytes(bytes, 0, [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07]),
+    mimeTypes: { rar: 'application/vnd.rar' }
+  },
+  {
+    format: '7z archive',
+    matches: bytes => hasBytes(bytes, 0, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c]),
+    mimeTypes: { '7z': 'application/x-7z-compressed' }
+  },
+  {
+    format: 'PNG image',
+    matches: bytes => hasBytes(bytes, 0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    mimeTypes: { png: 'image/png' }
+  },
+  {
+    format: 'JPEG image',
+    matches: bytes => hasBytes(bytes, 0, [0xff, 0xd8, 0xff]),
+    mimeTypes: { jpg: 'image/jpeg', jpeg: 'image/jpeg' }
+  },
+  {
+    format: 'GIF image',
+    matches: bytes => hasBytes(bytes, 0, 'GIF87a') || hasBytes(bytes, 0, 'GIF89a'),
+    mimeTypes: { gif: 'image/gif' }
+  },
+  {
+    format: 'WebP image',
+    matches: bytes => hasBytes(bytes, 0, 'RIFF') && hasBytes(bytes, 8, 'WEBP'),
+    mimeTypes: { webp: 'image/webp' }
+  },
+  {
+    format: 'BMP image',
+    matches: bytes => hasBytes(bytes, 0, 'BM') && bytes.length >= 14,
+    mimeTypes: { bmp: 'image/bmp' }
+  },
+  {
+    format: 'RTF document',
+    matches: bytes => hasBytes(bytes, 0, '{\\rtf'),
+    mimeTypes: { rtf: 'application/rtf' }
+  },
+  {
+    // SVG images are XML text, so any text format may also contain an <svg> element
+    format: 'SVG image',
+    matches: bytes => isText(bytes) && bytes.includes('<svg'),
+    mimeTypes: { ...TEXT_MIME_TYPES, svg: 'image/svg+xml' }
+  },
+  {
+    format: 'text',
+    matches: isText,
+    mimeTypes: TEXT_MIME_TYPES
+  }
+];
 
 /**
- * Validate a file upload request
- * @param file The file to validate
+ * Detect a file's format from its leading bytes
+ * @param content The file contents, or at least its first FILE_SIGNATURE_LENGTH bytes
+ * @returns The detected format, or null if the content is not a supported format
+ */
+export const detectFileType = (content: Uint8Array): FileSignature | null => {
+  const bytes = Buffer.from(content.buffer, content.byteOffset, Math.min(content.length, FILE_SIGNATURE_LENGTH));
+  return FILE_SIGNATURES.find(signature => signature.matches(bytes)) || null;
+};
+
+// Get the lower-case extension of a file name
+const getExtension = (name: string): string | undefined => {
+  return name.includes('.') ? name.split('.').pop()?.toLowerCase() : undefined;
+};
+
+/**
+ * Check that a file name has an allowed extension
+ * @param name The file name
  * @returns Validation result with isValid flag and error message
  */
-export const validateFileUpload = (file: UploadedFile): { isValid: boolean; error?: string } => {
+export const validateFileExtension = (name: string): { isValid: boolean; error?: string } => {
+  const extension = getExtension(name);
+  if (!extension || !ALLOWED_FILE_EXTENSIONS.includes(extension)) {
+    return {
+      isValid: false,
+      error: `File type not allowed. Allowed extensions: ${ALLOWED_FILE_EXTENSIONS.join(', ')}.`
+    };
+  }
+
+  return { isValid: true };
+};
+
+/**
+ * Validate a file upload request
+ * The file's type is detected from its content; the client-supplied MIME type is ignored.
+ * @param file The name and size of the file to validate
+ * @param content The file contents, or at least its first FILE_SIGNATURE_LENGTH bytes
+ * @returns Validation result with isValid flag, error message and the detected MIME type
+ */
+export const validateFileUpload = (
+  file: { name: string; size: number },
+  content: Uint8Array
+): { isValid: boolean; error?: string; mimeType?: string } => {
   // Check if file exists
   if (!file) {
     return { isValid: false, error: 'No file provided' };
@@ -21,25 +205,28 @@ export const validateFileUpload = (file: UploadedFile): { isValid: boolean; erro
   }
   
   // Check file type by extension
-  const extension = file.name.split('.').pop()?.toLowerCase();
-  if (!extension || !ALLOWED_FILE_EXTENSIONS.includes(extension)) {
+  const extensionCheck = validateFileExtension(file.name);
+  if (!extensionCheck.isValid) {
+    return extensionCheck;
+  }
+  
+  // Check the content is a supported format
+  const signature = detectFileType(content);
+  if (!signature) {
+    return { isValid: false, error: 'File content type not allowed.' };
+  }
+  
+  // Check the content matches the extension
+  const extension = getExtension(file.name) as string;
+  const mimeType = signature.mimeTypes[extension];
+  if (!mimeType) {
     return {
       isValid: false,
-      error: `File type not allowed. Allowed extensions: ${ALLOWED_FILE_EXTENSIONS.join(', ')}.`
+      error: `File content does not match its extension: a .${extension} file contains ${signature.format} data.`
     };
   }
   
-  // Check MIME type
-  for (const disallowedType of DISALLOWED_MIME_TYPES) {
-    if (file.type.startsWith(disallowedType)) {
-      return {
-        isValid: false,
-        error: `File content type not allowed.`
-      };
-    }
-  }
-  
-  return { isValid: true };
+  return { isValid: true, mimeType };
 };
 
 /**
@@ -47,15 +234,15 @@ export const validateFileUpload = (file: UploadedFile): { isValid: boolean; erro
  * @param files Array of files to validate
  * @returns Object with valid files array and invalid files with errors
  */
-export const validateFiles = (files: UploadedFile[]): {
+export const validateFiles = async (files: UploadedFile[]): Promise<{
   validFiles: UploadedFile[];
   invalidFiles: { file: UploadedFile; error: string }[];
-} => {
+}> => {
   const validFiles: UploadedFile[] = [];
   const invalidFiles: { file: UploadedFile; error: string }[] = [];
   
   for (const file of files) {
-    const result = validateFileUpload(file);
+    const result = validateFileUpload(file, new Uint8Array(await file.arrayBuffer()));
     
     if (result.isValid) {
       validFiles.push(file);
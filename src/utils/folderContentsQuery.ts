@@ -0,0 +1,49 @@
+// src/utils/folderContentsQuery.ts
+import { t } from 'elysia';
+import { FOLDER_CONTENTS_SORT_FIELDS, FolderContentsOptions } from '../types/fileTypes';
+
+// Largest page of a folder contents listing. Without a limit, the whole folder is listed,
+// as it was before listings were paged.
+export const MAX_CONTENTS_LIMIT = 1000;
+
+// Error returned for invalid paging parameters
+export const INVALID_CONTENTS_PAGE_ERROR =
+  `limit must be between 1 and ${MAX_CONTENTS_LIMIT} and offset must not be negative`;
+
+// Query parameters accepted by folder contents listings
+export const folderContentsQuery = {
+  sort: t.Optional(t.Union(FOLDER_CONTENTS_SORT_FIELDS.map(field => t.Literal(field)))),
+  order: t.Optional(t.Union([t.Literal('asc'), t.Literal('desc')])),
+  limit: t.Optional(t.String()),
+  offset: t.Optional(t.String())
+};
+
+/**
+ * Get the paging and sorting of a folder contents listing from its query parameters
+ * @param query The query parameters
+ * @returns The listing options, or null if limit or offset is invalid
+ */
+export const parseFolderContentsOptions = (query: {
+  sort?: FolderContentsOptions['sort'];
+  order?: FolderContentsOptions['order'];
+  limit?: string;
+  offset?: string;
+}): FolderContentsOptions | null => {
+  const limit = query.limit !== undefined ? parseInt(query.limit) : null;
+  const offset = query.offset !== undefined ? parseInt(query.offset) : 0;
+
+  if (limit !== null && (isNaN(limit) || limit < 1 || limit > MAX_CONTENTS_LIMIT)) {
+    return null;
+  }
+
+  if (isNaN(offset) || offset < 0) {
+    return null;
+  }
+
+  return {
+    sort: query.sort || 'name',
+    order: query.order || 'asc',
+    limit,
+    offset
+  };
+};
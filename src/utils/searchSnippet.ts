@@ -0,0 +1,70 @@
+// src/utils/searchSnippet.ts
+
+// Characters of context shown around the first match
+const SNIPPET_CONTEXT_LENGTH = 80;
+
+// Snippets are built from an excerpt of the text around the first occurrence of the query's
+// first word, rather than from the whole text: the characters it has before that word, and in total
+export const SNIPPET_EXCERPT_LEAD = 1000;
+export const SNIPPET_EXCERPT_LENGTH = 4000;
+
+// Escape text for inclusion in HTML
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+// Split a search query into the words to highlight
+const getSearchWords = (query: string): string[] => {
+  return query
+    .split(/[^\p{L}\p{N}_]+/u)
+    .filter(word => word.length > 1);
+};
+
+// Get the word of a search query that snippet excerpts are centered on
+export const getSnippetWord = (query: string): string => {
+  return getSearchWords(query)[0] ?? '';
+};
+
+/**
+ * Build a snippet of text around the first occurrence of a search query's words
+ * @param content The text, or an excerpt of it
+ * @param query The search query
+ * @param excerpt Whether the excerpt leaves out text before and after it
+ * @returns HTML-escaped text with the matching words wrapped in `<mark>` elements
+ */
+export const buildSnippet = (
+  content: string,
+  query: string,
+  excerpt: { before: boolean; after: boolean } = { before: false, after: false }
+): string => {
+  const words = getSearchWords(query);
+
+  if (words.length === 0) {
+    return escapeHtml(content.substring(0, SNIPPET_CONTEXT_LENGTH * 2));
+  }
+
+  const pattern = new RegExp(
+    `(${words.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`,
+    'giu'
+  );
+
+  // Center the snippet on the first match (full-text matches can come from word forms
+  // the pattern misses, in which case the start of the text is shown)
+  const firstMatch = content.search(pattern);
+  const start = Math.max((firstMatch === -1 ? 0 : firstMatch) - SNIPPET_CONTEXT_LENGTH, 0);
+  const end = Math.min(start + SNIPPET_CONTEXT_LENGTH * 2, content.length);
+
+  const snippet = content
+    .substring(start, end)
+    .replace(/\s+/g, ' ')
+    .split(pattern)
+    .map((part, index) => index % 2 === 1 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part))
+    .join('');
+
+  return `${start > 0 || excerpt.before ? '…' : ''}${snippet}${end < content.length || excerpt.after ? '…' : ''}`;
+};